@@ -1,122 +1,504 @@
-import React, { useState } from 'react';
-import { ConcreteGrade, DesignInputs, SteelGrade, SlabSideConfig, PointLoad, SavedDesign } from './types';
-import { calculateLoads, analyzeBeam, designBeam } from './utils/rccCalculations';
+import React, { useEffect, useRef, useState } from 'react';
+import { DesignCodeId, DesignInputs, DesignResult, OptimiserObjective, OptimiserResult, RateTable, SectionCandidate, SlabSideConfig, PointLoad, SavedDesign, BeamSpan, LoadCombination, LineLoad, PointMoment, TorsionInputs, CantileverSlabConfig } from './types';
+import { calculateLoads, analyzeBeam, designBeam, getSpans, getSupportConditions } from './utils/rccCalculations';
+import { DESIGN_CODES, getDesignCode } from './utils/designCodes';
+import { DEFAULT_INPUTS, newId } from './utils/defaultInputs';
+import { createProjectFile, parseProjectFile, ProjectFileError } from './utils/projectFile';
+import { designPasses, getScheduleRows, getScheduleSheets, toCsv } from './utils/schedule';
+import { createWorkbook } from './utils/xlsx';
+import { buildCalculationReport } from './utils/calculationReport';
+import { getBarBendingRows, getBarBendingSchedule } from './utils/barBendingSchedule';
+import { getDefaultOptimiserOptions } from './utils/optimiser';
+import { BeamListError, designBeamList, getBeamListTemplate, parseBeamList } from './utils/beamList';
+import { BAR_CATEGORIES, DEFAULT_RATES, getBeamCost, getBeamQuantities, getConcreteRate, getQuantityRows } from './utils/quantities';
+import { getFieldIssues, hasErrors, validateInputs } from './utils/validation';
 import { generateDesignReport } from './services/geminiService';
-import { MomentDiagram, ShearDiagram, BeamLoadDiagram } from './components/Diagrams';
+import { OptimiserRun, runOptimiser } from './services/optimiserService';
+import { deleteScheduleEntry, loadRateTable, loadSchedule, saveRateTable, saveScheduleEntry } from './services/scheduleStorage';
+import { MomentDiagram, ShearDiagram, BeamLoadDiagram, DeflectionDiagram } from './components/Diagrams';
 import { CrossSection } from './components/CrossSection';
-import { Calculator, FileText, AlertTriangle, CheckCircle, BrainCircuit, Info, Plus, Trash2, Save, Table, Download } from 'lucide-react';
+import { BeamElevation } from './components/BeamElevation';
+import { CalculationReportView } from './components/CalculationReport';
+import { Calculator, FileText, AlertTriangle, CheckCircle, BrainCircuit, Info, Plus, Trash2, Save, Table, Download, Ruler, Copy, FolderOpen, Upload, Printer, X, Search } from 'lucide-react';
+
+// Saves generated data through a temporary download link
+const downloadFile = (fileName: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// First free beam mark B1, B2, ... on a floor of a project
+const nextBeamMark = (designs: SavedDesign[], project: string, floor: string) => {
+  const marks = new Set(designs.filter(d => d.project === project && d.floor === floor).map(d => d.name));
+  let n = 1;
+  while (marks.has(`B${n}`)) n++;
+  return `B${n}`;
+};
+
+// Value of a number input: empty while the number is missing, so a cleared field stays clear
+const numberValue = (value: number) => (Number.isFinite(value) ? value : '');
+
+const byNumber = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
 
 const App: React.FC = () => {
-  const [inputs, setInputs] = useState<DesignInputs>({
-    slabThickness: 125,
-    liveLoad: 3.0,
-    floorFinish: 1.0,
-    
-    leftSlab: {
-      enabled: true,
-      type: 'TwoWay',
-      lx: 3.0,
-      ly: 4.5,
-      supportEdge: 'Short' // Triangular load
-    },
-    rightSlab: {
-      enabled: false,
-      type: 'TwoWay',
-      lx: 3.0,
-      ly: 4.5,
-      supportEdge: 'Long'
-    },
-    
-    pointLoads: [],
-
-    beamWidth: 230,
-    beamDepth: 450,
-    beamClearSpan: 3.0,
-    effectiveCover: 25,
-    wallHeight: 3.0,
-    wallThickness: 230,
-    masonryDensity: 20, // Default 20 kN/m3
-    fck: ConcreteGrade.M20,
-    fy: SteelGrade.Fe500,
-    mainBarDia: 16,
-    stirrupBarDia: 8,
-  });
+  const [inputs, setInputs] = useState<DesignInputs>(DEFAULT_INPUTS);
 
   const [aiReport, setAiReport] = useState<string | null>(null);
   const [isGeneratingAi, setIsGeneratingAi] = useState(false);
   const [savedDesigns, setSavedDesigns] = useState<SavedDesign[]>([]);
+  const [project, setProject] = useState('Project 1');
+  const [floor, setFloor] = useState('Ground Floor');
+  const [openDesignId, setOpenDesignId] = useState<string | null>(null); // Schedule entry being edited
+  const [scheduleIssues, setScheduleIssues] = useState<{ title: string; issues: string[] } | null>(null); // Import and storage problems
+  const [showReport, setShowReport] = useState(false); // Printable calculation sheet in place of the app
+  const [rates, setRates] = useState<RateTable>(() => ({ ...DEFAULT_RATES, ...loadRateTable() }));
+  const [optimiserObjective, setOptimiserObjective] = useState<OptimiserObjective>('cost');
+  const [optimiserDepthStep, setOptimiserDepthStep] = useState(50);
+  const [optimiserResult, setOptimiserResult] = useState<(OptimiserResult & { searchedFor: string }) | null>(null);
+  const [isOptimising, setIsOptimising] = useState(false);
+  const [optimiserProgress, setOptimiserProgress] = useState(0); // Fraction of the sizes searched
+  const optimiserRun = useRef<OptimiserRun | null>(null);
+  const [activeSpanIndex, setActiveSpanIndex] = useState(0);
+
+  // The sidebar edits inputs as typed; the results follow the last inputs without errors
+  const inputIssues = validateInputs(inputs);
+  const inputErrors = inputIssues.filter(i => i.severity === 'error');
+  const lastValidInputs = useRef(inputs);
+  if (!hasErrors(inputIssues)) lastValidInputs.current = inputs;
+  const designInputs = lastValidInputs.current;
 
-  const loads = calculateLoads(inputs);
-  const analysis = analyzeBeam(inputs, loads);
-  const design = designBeam(inputs, analysis);
+  const loads = calculateLoads(designInputs);
+  const analysis = analyzeBeam(designInputs, loads);
+  const design = designBeam(designInputs, analysis);
+  const barSchedule = getBarBendingSchedule(designInputs, design);
+  const quantities = getBeamQuantities(designInputs, design);
+  const cost = getBeamCost(quantities, rates);
 
+  const code = getDesignCode(inputs.designCode);
+  const spans = getSpans(inputs);
+  const activeSpan = spans[activeSpanIndex] ?? spans[0];
+  const activeSpanLoads = loads.spanLoads[activeSpanIndex] ?? loads.spanLoads[0];
+  const isContinuous = spans.length > 1;
+
+  // Schedule of the selected project, by floor and beam mark
+  const projects = Array.from(new Set([project, ...savedDesigns.map(d => d.project)])).sort(byNumber);
+  const floors = Array.from(new Set(savedDesigns.filter(d => d.project === project).map(d => d.floor))).sort(byNumber);
+  const projectDesigns = savedDesigns
+    .filter(d => d.project === project)
+    .sort((a, b) => byNumber(a.floor, b.floor) || byNumber(a.name, b.name));
+  const openDesign = savedDesigns.find(d => d.id === openDesignId);
+  const projectCosts = projectDesigns.map(d => {
+    const q = getBeamQuantities(d.inputs, d.design);
+    return { id: d.id, quantities: q, cost: getBeamCost(q, rates) };
+  });
+  const projectTotal = (value: (c: typeof projectCosts[number]) => number) => projectCosts.reduce((sum, c) => sum + value(c), 0);
+
+  // Errors and warnings of an input (and the inputs within it), shown under the field
+  const renderFieldIssues = (field: string) => getFieldIssues(inputIssues, field).map((issue, i) => (
+    <p key={i} className={`text-[10px] mt-0.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>{issue.message}</p>
+  ));
+  const spanPath = `spans.${activeSpanIndex}`;
+
+  // Number inputs are kept as typed (NaN when empty) for validateInputs to report
   const handleInputChange = (field: keyof DesignInputs, value: any) => {
-    setInputs(prev => ({ ...prev, [field]: parseFloat(value) || value }));
+    setInputs(prev => ({ ...prev, [field]: typeof prev[field] === 'number' ? parseFloat(value) : value }));
+    setAiReport(null);
+  };
+
+  // Applies an update to the span selected in the sidebar (span 1 lives on the top-level inputs)
+  const updateActiveSpan = (update: (span: BeamSpan) => Partial<BeamSpan>) => {
+    setInputs(prev => {
+      if (activeSpanIndex === 0) {
+        const primary = getSpans(prev)[0];
+        const { id: _id, length, ...rest } = { ...primary, ...update(primary) };
+        return { ...prev, ...rest, beamClearSpan: length };
+      }
+      return {
+        ...prev,
+        additionalSpans: prev.additionalSpans.map((s, i) => i === activeSpanIndex - 1 ? { ...s, ...update(s) } : s)
+      };
+    });
     setAiReport(null);
   };
 
-  const handleSlabChange = (side: 'leftSlab' | 'rightSlab', field: keyof SlabSideConfig, value: any) => {
+  const handleSpanChange = (field: 'length' | 'wallHeight' | 'wallThickness', value: string) => {
+    updateActiveSpan(() => ({ [field]: parseFloat(value) }));
+  };
+
+  const addSpan = () => {
+    const newSpan: BeamSpan = {
+      ...spans[spans.length - 1],
+      id: newId(),
+      pointLoads: [],
+      lineLoads: [],
+      pointMoments: []
+    };
+    setInputs(prev => ({ ...prev, additionalSpans: [...prev.additionalSpans, newSpan] }));
+    setActiveSpanIndex(spans.length);
+    setAiReport(null);
+  };
+
+  const removeSpan = (index: number) => {
+    if (index === 0) return;
     setInputs(prev => ({
       ...prev,
+      additionalSpans: prev.additionalSpans.filter((_, i) => i !== index - 1)
+    }));
+    setActiveSpanIndex(index - 1);
+    setAiReport(null);
+  };
+
+  const handleSlabChange = <K extends keyof SlabSideConfig>(side: 'leftSlab' | 'rightSlab', field: K, value: SlabSideConfig[K]) => {
+    updateActiveSpan(span => ({
       [side]: {
-        ...prev[side],
+        ...span[side],
         [field]: value
       }
     }));
+  };
+
+  // Switching code also switches to that code's load factors
+  const handleDesignCodeChange = (id: DesignCodeId) => {
+    setInputs(prev => ({ ...prev, designCode: id, loadCombinations: DESIGN_CODES[id].loadCombinations }));
+    setAiReport(null);
+  };
+
+  const handleTorsionChange = <K extends 'torsionalMoment' | 'loadCase'>(field: K, value: TorsionInputs[K]) => {
+    setInputs(prev => ({ ...prev, torsion: { ...prev.torsion, [field]: value } }));
+    setAiReport(null);
+  };
+
+  const handleCantileverSlabChange = <K extends keyof CantileverSlabConfig>(field: K, value: CantileverSlabConfig[K]) => {
+    setInputs(prev => ({
+      ...prev,
+      torsion: { ...prev.torsion, cantileverSlab: { ...prev.torsion.cantileverSlab, [field]: value } }
+    }));
     setAiReport(null);
   };
 
   const addPointLoad = () => {
     const newLoad: PointLoad = {
-      id: Math.random().toString(36).substr(2, 9),
+      id: newId(),
+      value: 10,
+      distance: activeSpan.length / 2,
+      loadCase: 'Dead'
+    };
+    updateActiveSpan(span => ({ pointLoads: [...span.pointLoads, newLoad] }));
+  };
+
+  const updatePointLoad = <K extends keyof PointLoad>(id: string, field: K, value: PointLoad[K]) => {
+    updateActiveSpan(span => ({
+      pointLoads: span.pointLoads.map(pl => pl.id === id ? { ...pl, [field]: value } : pl)
+    }));
+  };
+
+  const removePointLoad = (id: string) => {
+    updateActiveSpan(span => ({
+      pointLoads: span.pointLoads.filter(pl => pl.id !== id)
+    }));
+  };
+
+  const addLineLoad = (varying: boolean) => {
+    const newLoad: LineLoad = {
+      id: newId(),
+      start: 0,
+      end: activeSpan.length / 2,
+      wStart: varying ? 0 : 5,
+      wEnd: varying ? 10 : 5,
+      loadCase: 'Dead'
+    };
+    updateActiveSpan(span => ({ lineLoads: [...span.lineLoads, newLoad] }));
+  };
+
+  const updateLineLoad = <K extends keyof LineLoad>(id: string, field: K, value: LineLoad[K]) => {
+    updateActiveSpan(span => ({
+      lineLoads: span.lineLoads.map(ll => ll.id === id ? { ...ll, [field]: value } : ll)
+    }));
+  };
+
+  const removeLineLoad = (id: string) => {
+    updateActiveSpan(span => ({
+      lineLoads: span.lineLoads.filter(ll => ll.id !== id)
+    }));
+  };
+
+  const addPointMoment = () => {
+    const newMoment: PointMoment = {
+      id: newId(),
       value: 10,
-      distance: inputs.beamClearSpan / 2
+      distance: activeSpan.length / 2,
+      loadCase: 'Dead'
+    };
+    updateActiveSpan(span => ({ pointMoments: [...span.pointMoments, newMoment] }));
+  };
+
+  const updatePointMoment = <K extends keyof PointMoment>(id: string, field: K, value: PointMoment[K]) => {
+    updateActiveSpan(span => ({
+      pointMoments: span.pointMoments.map(pm => pm.id === id ? { ...pm, [field]: value } : pm)
+    }));
+  };
+
+  const removePointMoment = (id: string) => {
+    updateActiveSpan(span => ({
+      pointMoments: span.pointMoments.filter(pm => pm.id !== id)
+    }));
+  };
+
+  const addLoadCombination = () => {
+    const newCombination: LoadCombination = {
+      id: newId(),
+      name: 'Custom',
+      dead: 1.5,
+      live: 1.5,
+      lateral: 0
     };
-    setInputs(prev => ({ ...prev, pointLoads: [...prev.pointLoads, newLoad] }));
+    setInputs(prev => ({ ...prev, loadCombinations: [...prev.loadCombinations, newCombination] }));
     setAiReport(null);
   };
 
-  const updatePointLoad = (id: string, field: keyof PointLoad, value: number) => {
+  const updateLoadCombination = <K extends keyof LoadCombination>(id: string, field: K, value: LoadCombination[K]) => {
     setInputs(prev => ({
       ...prev,
-      pointLoads: prev.pointLoads.map(pl => pl.id === id ? { ...pl, [field]: value } : pl)
+      loadCombinations: prev.loadCombinations.map(c => c.id === id ? { ...c, [field]: value } : c)
     }));
     setAiReport(null);
   };
 
-  const removePointLoad = (id: string) => {
+  const removeLoadCombination = (id: string) => {
     setInputs(prev => ({
       ...prev,
-      pointLoads: prev.pointLoads.filter(pl => pl.id !== id)
+      loadCombinations: prev.loadCombinations.filter(c => c.id !== id)
     }));
     setAiReport(null);
   };
 
   const handleAiConsultation = async () => {
     setIsGeneratingAi(true);
-    const report = await generateDesignReport(inputs, loads, analysis, design);
+    const report = await generateDesignReport(designInputs, loads, analysis, design);
     setAiReport(report);
     setIsGeneratingAi(false);
   };
 
-  const handleSaveDesign = () => {
+  // Inputs other than the sizes the optimiser chooses, to tell when its results are out of date
+  const optimiserKey = JSON.stringify({ ...designInputs, beamWidth: 0, beamDepth: 0, mainBarDia: 0, fck: 0 });
+
+  // Searches in a worker, so the page stays responsive and the search can be cancelled
+  const handleOptimise = async () => {
+    const searchedFor = optimiserKey;
+    const options = { ...getDefaultOptimiserOptions(designInputs), objective: optimiserObjective, depthStep: optimiserDepthStep };
+    const run = runOptimiser({ inputs: designInputs, options, rates }, setOptimiserProgress);
+    optimiserRun.current = run;
+    setOptimiserProgress(0);
+    setIsOptimising(true);
+    try {
+      const result = await run.result;
+      if (result) setOptimiserResult({ ...result, searchedFor });
+    } catch (error) {
+      console.error("Section Optimiser Error:", error);
+    } finally {
+      optimiserRun.current = null;
+      setIsOptimising(false);
+    }
+  };
+
+  // Stops a search still running when the page closes
+  useEffect(() => () => optimiserRun.current?.cancel(), []);
+
+  const applyCandidate = (c: SectionCandidate) => {
+    setInputs(prev => ({ ...prev, beamWidth: c.beamWidth, beamDepth: c.beamDepth, mainBarDia: c.mainBarDia, fck: c.fck }));
+    setAiReport(null);
+  };
+
+  // Saving and deleting run in the background; a failure is shown above the schedule
+  const reportStorageError = (error: unknown) => setScheduleIssues({
+    title: 'The schedule is not stored in this browser. Export the project to keep your changes.',
+    issues: [error instanceof Error ? error.message : String(error)]
+  });
+
+  // Reopen the stored schedule at the project and floor saved most recently
+  useEffect(() => {
+    loadSchedule().then(({ designs, issues }) => {
+      setSavedDesigns(prev => [...designs.filter(d => !prev.some(p => p.id === d.id)), ...prev]);
+      const latest = designs.reduce<SavedDesign | null>((a, d) => (!a || d.updatedAt > a.updatedAt ? d : a), null);
+      if (latest) {
+        setProject(latest.project);
+        setFloor(latest.floor);
+      }
+      if (issues.length > 0) setScheduleIssues({ title: 'Saved designs not opened:', issues });
+    }, error => setScheduleIssues({
+      title: 'Saved designs not opened',
+      issues: [error instanceof Error ? error.message : String(error)]
+    }));
+  }, []);
+
+  const storeDesign = (entry: SavedDesign) => {
+    setSavedDesigns(prev => prev.some(d => d.id === entry.id)
+      ? prev.map(d => d.id === entry.id ? entry : d)
+      : [...prev, entry]);
+    saveScheduleEntry(entry).catch(reportStorageError);
+  };
+
+  // Saves the editor as a new entry on the selected project and floor, or updates the entry it was opened from
+  const handleSaveDesign = (asNew: boolean) => {
+    if (inputErrors.length > 0) return;
+    const existing = asNew ? undefined : savedDesigns.find(d => d.id === openDesignId);
     const newDesign: SavedDesign = {
-      id: Math.random().toString(36).substr(2, 9),
-      name: `Beam B${savedDesigns.length + 1}`,
+      id: existing?.id ?? newId(),
+      project: existing?.project ?? project,
+      floor: existing?.floor ?? floor,
+      name: existing?.name ?? nextBeamMark(savedDesigns, project, floor),
       date: new Date().toLocaleDateString(),
+      updatedAt: Date.now(),
+      designCode: inputs.designCode,
       inputs: { ...inputs }, // Snapshot of inputs
       design: { ...design }, // Snapshot of result
       loads: { totalDesignUDL: loads.totalDesignUDL }
     };
-    setSavedDesigns(prev => [...prev, newDesign]);
+    storeDesign(newDesign);
+    setOpenDesignId(newDesign.id);
+  };
+
+  // Loads a saved design into the editor; saving then updates that entry
+  const openSavedDesign = (saved: SavedDesign) => {
+    setInputs(saved.inputs);
+    setProject(saved.project);
+    setFloor(saved.floor);
+    setOpenDesignId(saved.id);
+    setActiveSpanIndex(0);
+    setAiReport(null);
+  };
+
+  const duplicateSavedDesign = (saved: SavedDesign) => {
+    const copy: SavedDesign = {
+      ...saved,
+      id: newId(),
+      name: nextBeamMark(savedDesigns, saved.project, saved.floor),
+      date: new Date().toLocaleDateString(),
+      updatedAt: Date.now()
+    };
+    storeDesign(copy);
+    openSavedDesign(copy);
+  };
+
+  const updateSavedDesign = (id: string, field: 'name' | 'floor', value: string) => {
+    const saved = savedDesigns.find(d => d.id === id);
+    if (saved) storeDesign({ ...saved, [field]: value, updatedAt: Date.now() });
   };
 
   const deleteSavedDesign = (id: string) => {
     setSavedDesigns(prev => prev.filter(d => d.id !== id));
+    deleteScheduleEntry(id).catch(reportStorageError);
+    if (openDesignId === id) setOpenDesignId(null);
+  };
+
+  const exportFileName = project.replace(/[^\w-]+/g, '_') || 'project';
+
+  // Downloads the schedule of the selected project as a project file
+  const handleExportProject = () => {
+    downloadFile(`${exportFileName}.rccbeam.json`, JSON.stringify(createProjectFile(project, projectDesigns), null, 2), 'application/json');
+  };
+
+  // Schedule table for spreadsheets: CSV, or a workbook with the load breakdown on a second sheet
+  const handleExportCsv = () => {
+    downloadFile(`${exportFileName}-schedule.csv`, toCsv(getScheduleRows(projectDesigns)), 'text/csv');
+  };
+
+  // Bar bending schedule of the whole project, or of the design on screen
+  const handleExportBarSchedule = () => {
+    downloadFile(`${exportFileName}-bbs.csv`, toCsv(getBarBendingRows(projectDesigns)), 'text/csv');
+  };
+
+  const handleExportDesignBarSchedule = () => {
+    const name = openDesign?.name ?? 'Beam';
+    const beam = { project: openDesign?.project ?? project, floor: openDesign?.floor ?? floor, name, inputs: designInputs, design };
+    downloadFile(`${exportFileName}-${name.replace(/[^\w-]+/g, '_')}-bbs.csv`, toCsv(getBarBendingRows([beam])), 'text/csv');
+  };
+
+  // Rates of the cost estimates, remembered for the next visit
+  const updateRate = (field: keyof RateTable, value: string) => {
+    const next = { ...rates, [field]: field === 'currency' ? value : parseFloat(value) || 0 };
+    setRates(next);
+    saveRateTable(next);
+  };
+
+  const handleExportQuantities = () => {
+    downloadFile(`${exportFileName}-quantities.csv`, toCsv(getQuantityRows(projectDesigns, rates)), 'text/csv');
+  };
+
+  const handleExportWorkbook = () => {
+    downloadFile(
+      `${exportFileName}-schedule.xlsx`,
+      createWorkbook(getScheduleSheets(projectDesigns, rates)),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  };
+
+  // Adds the designs of a project file to the schedule. Entries already imported are replaced;
+  // a mark already used on the floor by another entry is renumbered.
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be imported again
+    if (!selected) return;
+
+    try {
+      const file = parseProjectFile(await selected.text());
+      let schedule = savedDesigns;
+      file.designs.forEach(d => {
+        const others = schedule.filter(s => s.id !== d.id);
+        const markTaken = others.some(s => s.project === d.project && s.floor === d.floor && s.name === d.name);
+        const entry = markTaken ? { ...d, name: nextBeamMark(others, d.project, d.floor) } : d;
+        schedule = [...others, entry];
+        saveScheduleEntry(entry).catch(reportStorageError);
+      });
+      setSavedDesigns(schedule);
+      setProject(file.project);
+      setScheduleIssues(null);
+    } catch (error) {
+      setScheduleIssues({
+        title: 'Project file not imported',
+        issues: error instanceof ProjectFileError ? error.issues : [`Could not read ${selected.name}.`]
+      });
+    }
+  };
+
+  // Designs every beam of a CSV / JSON beam list into the selected project. A beam whose mark is already
+  // on its floor replaces that entry; rows with problems are skipped and listed.
+  const handleImportBeamList = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be imported again
+    if (!selected) return;
+
+    try {
+      const list = parseBeamList(await selected.text(), selected.name, inputs.designCode);
+      let schedule = savedDesigns;
+      designBeamList(list.rows, project).forEach(d => {
+        const existing = schedule.find(s => s.project === d.project && s.floor === d.floor && s.name === d.name);
+        const entry = existing ? { ...d, id: existing.id } : d;
+        schedule = [...schedule.filter(s => s.id !== entry.id), entry];
+        saveScheduleEntry(entry).catch(reportStorageError);
+      });
+      setSavedDesigns(schedule);
+      setScheduleIssues(list.issues.length > 0
+        ? { title: `${list.rows.length} beams designed, rows not designed:`, issues: list.issues }
+        : null);
+    } catch (error) {
+      setScheduleIssues({
+        title: 'Beam list not imported',
+        issues: error instanceof BeamListError ? error.issues : [`Could not read ${selected.name}.`]
+      });
+    }
+  };
+
+  const handleDownloadBeamListTemplate = () => {
+    downloadFile('beam-list-template.csv', getBeamListTemplate(), 'text/csv');
   };
 
   const renderSlabConfig = (side: 'leftSlab' | 'rightSlab', title: string) => {
-    const config = inputs[side];
+    const config = activeSpan[side];
     return (
       <div className={`p-3 rounded-lg border ${config.enabled ? 'bg-slate-800 border-slate-700' : 'bg-slate-800/50 border-slate-800 border-dashed'}`}>
         <div className="flex items-center justify-between mb-3">
@@ -158,20 +540,22 @@ const App: React.FC = () => {
                   <label className="text-[10px] text-slate-400 block mb-1">Lx (Short Span)</label>
                   <input 
                     type="number" step="0.1"
-                    value={config.lx}
+                    value={numberValue(config.lx)}
                     onChange={(e) => handleSlabChange(side, 'lx', parseFloat(e.target.value))}
                     className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-white focus:border-blue-500 outline-none"
                   />
+                  {renderFieldIssues(`${spanPath}.${side}.lx`)}
                 </div>
                 {config.type === 'TwoWay' && (
                   <div>
                     <label className="text-[10px] text-slate-400 block mb-1">Ly (Long Span)</label>
                     <input 
                       type="number" step="0.1"
-                      value={config.ly}
+                      value={numberValue(config.ly)}
                       onChange={(e) => handleSlabChange(side, 'ly', parseFloat(e.target.value))}
                       className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-white focus:border-blue-500 outline-none"
                     />
+                    {renderFieldIssues(`${spanPath}.${side}.ly`)}
                   </div>
                 )}
              </div>
@@ -203,6 +587,38 @@ const App: React.FC = () => {
     );
   };
 
+  if (showReport) {
+    const mark = openDesign ? `${openDesign.name}, ${openDesign.floor}` : 'Unsaved design';
+    return (
+      <div className="min-h-screen bg-slate-100 print:bg-white py-6 print:py-0">
+        <div className="max-w-4xl mx-auto flex justify-end gap-2 mb-4 print:hidden">
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
+          >
+            <Printer className="w-4 h-4" />
+            Print / Save as PDF
+          </button>
+          <button
+            onClick={() => setShowReport(false)}
+            className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
+          >
+            <X className="w-4 h-4" />
+            Close
+          </button>
+        </div>
+        <CalculationReportView
+          report={buildCalculationReport(designInputs, loads, analysis, design)}
+          subtitle={`${openDesign?.project ?? project} – ${mark}`}
+          inputs={designInputs}
+          loads={loads}
+          analysis={analysis}
+          design={design}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col md:flex-row">
       {/* LEFT PANEL: INPUTS */}
@@ -214,6 +630,51 @@ const App: React.FC = () => {
 
         <div className="space-y-8">
           
+          {/* Design Code */}
+          <section className="space-y-3">
+            <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1">Design Code</h2>
+            <select 
+              value={inputs.designCode}
+              onChange={(e) => handleDesignCodeChange(e.target.value as DesignCodeId)}
+              className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+            >
+              {Object.values(DESIGN_CODES).map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            {inputs.designCode !== 'IS456' && (
+              <p className="text-[10px] text-slate-500">Load factors, flexure, shear, minimum steel and span / depth per {code.name}. Torsion, crack width, computed deflection and detailing follow IS 456.</p>
+            )}
+          </section>
+
+          {/* Span Selection */}
+          <section className="space-y-3">
+            <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1 flex justify-between items-center">
+               Spans
+               <button onClick={addSpan} className="bg-blue-600 hover:bg-blue-500 text-white rounded-full p-0.5" title="Add continuous span">
+                 <Plus size={14} />
+               </button>
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {spans.map((span, i) => (
+                <div key={span.id} className={`flex items-center rounded text-xs ${i === activeSpanIndex ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'}`}>
+                  <button onClick={() => setActiveSpanIndex(i)} className="px-3 py-1 flex items-center gap-1">
+                    Span {i + 1} <span className="opacity-70">({Number.isFinite(span.length) ? span.length : '?'}m)</span>
+                    {getFieldIssues(inputErrors, `spans.${i}`).length > 0 && <AlertTriangle size={12} className="text-red-400" />}
+                  </button>
+                  {i > 0 && i === activeSpanIndex && (
+                    <button onClick={() => removeSpan(i)} className="pr-2 hover:text-red-200" title="Remove span">
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {isContinuous && (
+              <p className="text-[10px] text-slate-500">Continuous beam: slab, point load, span and wall inputs below apply to Span {activeSpanIndex + 1}.</p>
+            )}
+          </section>
+
           {/* Global Loads */}
           <section className="space-y-3">
              <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1">General Slab Loads</h2>
@@ -222,31 +683,34 @@ const App: React.FC = () => {
                   <label className="text-xs text-slate-400 block mb-1">Thickness</label>
                   <input 
                     type="number" 
-                    value={inputs.slabThickness} 
+                    value={numberValue(inputs.slabThickness)} 
                     onChange={(e) => handleInputChange('slabThickness', e.target.value)}
                     className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                   />
                   <span className="text-[10px] text-slate-500">mm</span>
+                  {renderFieldIssues('slabThickness')}
                 </div>
                 <div>
                   <label className="text-xs text-slate-400 block mb-1">Live Load</label>
                   <input 
                     type="number" step="0.5"
-                    value={inputs.liveLoad} 
+                    value={numberValue(inputs.liveLoad)} 
                     onChange={(e) => handleInputChange('liveLoad', e.target.value)}
                     className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                   />
                   <span className="text-[10px] text-slate-500">kN/m²</span>
+                  {renderFieldIssues('liveLoad')}
                 </div>
                 <div>
                   <label className="text-xs text-slate-400 block mb-1">Floor Fin.</label>
                   <input 
                     type="number" step="0.5"
-                    value={inputs.floorFinish} 
+                    value={numberValue(inputs.floorFinish)} 
                     onChange={(e) => handleInputChange('floorFinish', e.target.value)}
                     className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                   />
                   <span className="text-[10px] text-slate-500">kN/m²</span>
+                  {renderFieldIssues('floorFinish')}
                 </div>
              </div>
           </section>
@@ -272,35 +736,303 @@ const App: React.FC = () => {
                </button>
             </h2>
             <div className="space-y-2">
-               {inputs.pointLoads.length === 0 && <p className="text-xs text-slate-500 italic text-center py-2">No point loads defined.</p>}
-               {inputs.pointLoads.map((pl) => (
-                 <div key={pl.id} className="flex gap-2 items-center bg-slate-800 p-2 rounded">
-                    <div className="flex-1">
-                      <label className="text-[10px] text-slate-400 block">Load (kN)</label>
-                      <input 
-                        type="number" step="1"
-                        value={pl.value}
-                        onChange={(e) => updatePointLoad(pl.id, 'value', parseFloat(e.target.value))}
-                        className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
-                      />
-                    </div>
-                    <div className="flex-1">
-                      <label className="text-[10px] text-slate-400 block">Dist (m)</label>
+               {activeSpan.pointLoads.length === 0 && <p className="text-xs text-slate-500 italic text-center py-2">No point loads defined.</p>}
+               {activeSpan.pointLoads.map((pl, j) => (
+                 <React.Fragment key={pl.id}>
+                   <div className="flex gap-2 items-center bg-slate-800 p-2 rounded">
+                      <div className="flex-1">
+                        <label className="text-[10px] text-slate-400 block">Load (kN)</label>
+                        <input 
+                          type="number" step="1"
+                          value={numberValue(pl.value)}
+                          onChange={(e) => updatePointLoad(pl.id, 'value', parseFloat(e.target.value))}
+                          className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <label className="text-[10px] text-slate-400 block">Dist (m)</label>
+                        <input 
+                          type="number" step="0.1"
+                          value={numberValue(pl.distance)}
+                          onChange={(e) => updatePointLoad(pl.id, 'distance', parseFloat(e.target.value))}
+                          className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-slate-400 block">Case</label>
+                        <button
+                          onClick={() => updatePointLoad(pl.id, 'loadCase', pl.loadCase === 'Dead' ? 'Live' : 'Dead')}
+                          className={`w-10 rounded p-1 text-xs font-bold ${pl.loadCase === 'Dead' ? 'bg-slate-600 text-white' : 'bg-amber-600 text-white'}`}
+                          title="Toggle dead / live load"
+                        >
+                          {pl.loadCase === 'Dead' ? 'DL' : 'LL'}
+                        </button>
+                      </div>
+                      <button onClick={() => removePointLoad(pl.id)} className="text-red-400 hover:text-red-300 mt-3 p-1">
+                         <Trash2 size={14} />
+                      </button>
+                   </div>
+                   {renderFieldIssues(`${spanPath}.pointLoads.${j}`)}
+                 </React.Fragment>
+               ))}
+            </div>
+          </section>
+
+           {/* Partial & Varying Loads */}
+           <section className="space-y-3">
+            <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1 flex justify-between items-center">
+               Partial / Varying Loads
+               <span className="flex gap-1">
+                 <button onClick={() => addLineLoad(false)} className="bg-blue-600 hover:bg-blue-500 text-white rounded px-1.5 text-[10px] normal-case" title="Add partial UDL">
+                   + UDL
+                 </button>
+                 <button onClick={() => addLineLoad(true)} className="bg-blue-600 hover:bg-blue-500 text-white rounded px-1.5 text-[10px] normal-case" title="Add linearly varying load">
+                   + VDL
+                 </button>
+               </span>
+            </h2>
+            <div className="space-y-2">
+               {activeSpan.lineLoads.length === 0 && <p className="text-xs text-slate-500 italic text-center py-2">No partial or varying loads defined.</p>}
+               {activeSpan.lineLoads.map((ll, j) => (
+                 <React.Fragment key={ll.id}>
+                   <div className="flex gap-2 items-center bg-slate-800 p-2 rounded">
+                      {([
+                        ['start', 'From (m)', '0.1'],
+                        ['end', 'To (m)', '0.1'],
+                        ['wStart', 'w1 (kN/m)', '1'],
+                        ['wEnd', 'w2 (kN/m)', '1'],
+                      ] as const).map(([field, label, step]) => (
+                        <div key={field} className="flex-1">
+                          <label className="text-[10px] text-slate-400 block">{label}</label>
+                          <input 
+                            type="number" step={step}
+                            value={numberValue(ll[field])}
+                            onChange={(e) => updateLineLoad(ll.id, field, parseFloat(e.target.value))}
+                            className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
+                          />
+                        </div>
+                      ))}
+                      <div>
+                        <label className="text-[10px] text-slate-400 block">Case</label>
+                        <button
+                          onClick={() => updateLineLoad(ll.id, 'loadCase', ll.loadCase === 'Dead' ? 'Live' : 'Dead')}
+                          className={`w-10 rounded p-1 text-xs font-bold ${ll.loadCase === 'Dead' ? 'bg-slate-600 text-white' : 'bg-amber-600 text-white'}`}
+                          title="Toggle dead / live load"
+                        >
+                          {ll.loadCase === 'Dead' ? 'DL' : 'LL'}
+                        </button>
+                      </div>
+                      <button onClick={() => removeLineLoad(ll.id)} className="text-red-400 hover:text-red-300 mt-3 p-1">
+                         <Trash2 size={14} />
+                      </button>
+                   </div>
+                   {renderFieldIssues(`${spanPath}.lineLoads.${j}`)}
+                 </React.Fragment>
+               ))}
+            </div>
+          </section>
+
+           {/* Applied Moments */}
+           <section className="space-y-3">
+            <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1 flex justify-between items-center">
+               Applied Moments
+               <button onClick={addPointMoment} className="bg-blue-600 hover:bg-blue-500 text-white rounded-full p-0.5">
+                 <Plus size={14} />
+               </button>
+            </h2>
+            <div className="space-y-2">
+               {activeSpan.pointMoments.length === 0 && <p className="text-xs text-slate-500 italic text-center py-2">No applied moments defined.</p>}
+               {activeSpan.pointMoments.map((pm, j) => (
+                 <React.Fragment key={pm.id}>
+                   <div className="flex gap-2 items-center bg-slate-800 p-2 rounded">
+                      <div className="flex-1">
+                        <label className="text-[10px] text-slate-400 block">Moment (kNm, CW +)</label>
+                        <input 
+                          type="number" step="1"
+                          value={numberValue(pm.value)}
+                          onChange={(e) => updatePointMoment(pm.id, 'value', parseFloat(e.target.value))}
+                          className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <label className="text-[10px] text-slate-400 block">Dist (m)</label>
+                        <input 
+                          type="number" step="0.1"
+                          value={numberValue(pm.distance)}
+                          onChange={(e) => updatePointMoment(pm.id, 'distance', parseFloat(e.target.value))}
+                          className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-slate-400 block">Case</label>
+                        <button
+                          onClick={() => updatePointMoment(pm.id, 'loadCase', pm.loadCase === 'Dead' ? 'Live' : 'Dead')}
+                          className={`w-10 rounded p-1 text-xs font-bold ${pm.loadCase === 'Dead' ? 'bg-slate-600 text-white' : 'bg-amber-600 text-white'}`}
+                          title="Toggle dead / live load"
+                        >
+                          {pm.loadCase === 'Dead' ? 'DL' : 'LL'}
+                        </button>
+                      </div>
+                      <button onClick={() => removePointMoment(pm.id)} className="text-red-400 hover:text-red-300 mt-3 p-1">
+                         <Trash2 size={14} />
+                      </button>
+                   </div>
+                   {renderFieldIssues(`${spanPath}.pointMoments.${j}`)}
+                 </React.Fragment>
+               ))}
+            </div>
+          </section>
+
+           {/* Lateral Loads & Combinations */}
+           <section className="space-y-3">
+            <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1 flex justify-between items-center">
+               Load Combinations
+               <button onClick={addLoadCombination} className="bg-blue-600 hover:bg-blue-500 text-white rounded-full p-0.5" title="Add combination">
+                 <Plus size={14} />
+               </button>
+            </h2>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-xs text-slate-400">Wind End Moment</label>
+                <input 
+                  type="number" step="1"
+                  value={numberValue(inputs.windMoment)} 
+                  onChange={(e) => handleInputChange('windMoment', e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+                <span className="text-[10px] text-slate-500">kNm (from frame analysis)</span>
+                {renderFieldIssues('windMoment')}
+              </div>
+              <div>
+                <label className="text-xs text-slate-400">Seismic End Moment</label>
+                <input 
+                  type="number" step="1"
+                  value={numberValue(inputs.seismicMoment)} 
+                  onChange={(e) => handleInputChange('seismicMoment', e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+                <span className="text-[10px] text-slate-500">kNm (from frame analysis)</span>
+                {renderFieldIssues('seismicMoment')}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={inputs.liveLoadPatterning}
+                  onChange={(e) => setInputs(prev => ({ ...prev, liveLoadPatterning: e.target.checked }))}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-xs text-slate-400">Pattern live load (alternate, adjacent and half spans)</span>
+              </label>
+              <div>
+                <label className="text-xs text-slate-400">Moving Point Load</label>
+                <input 
+                  type="number" step="1" min="0"
+                  value={numberValue(inputs.movingPointLoad)} 
+                  onChange={(e) => handleInputChange('movingPointLoad', e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+                <span className="text-[10px] text-slate-500">kN live, any position (0 = none)</span>
+                {renderFieldIssues('movingPointLoad')}
+              </div>
+            </div>
+            <div className="space-y-2">
+              {inputs.loadCombinations.map(c => (
+                <div key={c.id} className="flex gap-2 items-center bg-slate-800 p-2 rounded">
+                  <div className="flex-[2]">
+                    <label className="text-[10px] text-slate-400 block">Name</label>
+                    <input 
+                      type="text"
+                      value={c.name}
+                      onChange={(e) => updateLoadCombination(c.id, 'name', e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
+                    />
+                  </div>
+                  {(['dead', 'live', 'lateral'] as const).map(field => (
+                    <div key={field} className="flex-1">
+                      <label className="text-[10px] text-slate-400 block">{field === 'dead' ? 'DL' : (field === 'live' ? 'LL' : 'EL')}</label>
                       <input 
                         type="number" step="0.1"
-                        value={pl.distance}
-                        onChange={(e) => updatePointLoad(pl.id, 'distance', parseFloat(e.target.value))}
+                        value={c[field]}
+                        onChange={(e) => updateLoadCombination(c.id, field, parseFloat(e.target.value) || 0)}
                         className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
                       />
                     </div>
-                    <button onClick={() => removePointLoad(pl.id)} className="text-red-400 hover:text-red-300 mt-3 p-1">
-                       <Trash2 size={14} />
-                    </button>
-                 </div>
-               ))}
+                  ))}
+                  <button onClick={() => removeLoadCombination(c.id)} className="text-red-400 hover:text-red-300 mt-3 p-1">
+                     <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {renderFieldIssues('loadCombinations')}
+              <button
+                onClick={() => handleInputChange('loadCombinations', code.loadCombinations)}
+                className="text-[10px] text-blue-400 hover:text-blue-300"
+              >
+                Reset to {code.name} defaults
+              </button>
             </div>
           </section>
 
+           {/* Torsion */}
+           <section className="space-y-3">
+            <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1">Torsion</h2>
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <label className="text-xs text-slate-400">Direct Torsional Moment</label>
+                <input 
+                  type="number" step="0.5"
+                  value={inputs.torsion.torsionalMoment} 
+                  onChange={(e) => handleTorsionChange('torsionalMoment', parseFloat(e.target.value) || 0)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+                <span className="text-[10px] text-slate-500">kNm at the supports (characteristic)</span>
+                {renderFieldIssues('torsion.torsionalMoment')}
+              </div>
+              <button
+                onClick={() => handleTorsionChange('loadCase', inputs.torsion.loadCase === 'Dead' ? 'Live' : 'Dead')}
+                className={`w-10 rounded p-2 mb-4 text-xs font-bold ${inputs.torsion.loadCase === 'Dead' ? 'bg-slate-600 text-white' : 'bg-amber-600 text-white'}`}
+                title="Toggle dead / live load"
+              >
+                {inputs.torsion.loadCase === 'Dead' ? 'DL' : 'LL'}
+              </button>
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={inputs.torsion.cantileverSlab.enabled}
+                onChange={(e) => handleCantileverSlabChange('enabled', e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span className="text-xs text-slate-400">Cantilever slab (chajja) on one side</span>
+            </label>
+            {inputs.torsion.cantileverSlab.enabled && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-xs text-slate-400">Projection (m)</label>
+                  <input 
+                    type="number" step="0.05"
+                    value={inputs.torsion.cantileverSlab.projection} 
+                    onChange={(e) => handleCantileverSlabChange('projection', parseFloat(e.target.value) || 0)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                  />
+                  {renderFieldIssues('torsion.cantileverSlab.projection')}
+                </div>
+                <div>
+                  <label className="text-xs text-slate-400">Thickness (mm)</label>
+                  <input 
+                    type="number" step="5"
+                    value={inputs.torsion.cantileverSlab.thickness} 
+                    onChange={(e) => handleCantileverSlabChange('thickness', parseFloat(e.target.value) || 0)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                  />
+                  {renderFieldIssues('torsion.cantileverSlab.thickness')}
+                </div>
+              </div>
+            )}
+          </section>
+
            {/* Beam Geometry */}
            <section className="space-y-3">
             <h2 className="text-xs uppercase tracking-wider text-slate-400 font-semibold border-b border-slate-700 pb-1">Beam Geometry & Wall</h2>
@@ -309,67 +1041,132 @@ const App: React.FC = () => {
                 <label className="text-xs text-slate-400">Width (mm)</label>
                 <input 
                   type="number" step="10"
-                  value={inputs.beamWidth} 
+                  value={numberValue(inputs.beamWidth)} 
                   onChange={(e) => handleInputChange('beamWidth', e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                 />
+                {renderFieldIssues('beamWidth')}
               </div>
               <div>
                 <label className="text-xs text-slate-400">Depth (mm)</label>
                 <input 
                   type="number" step="10"
-                  value={inputs.beamDepth} 
+                  value={numberValue(inputs.beamDepth)} 
                   onChange={(e) => handleInputChange('beamDepth', e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                 />
+                {renderFieldIssues('beamDepth')}
               </div>
               <div>
                 <label className="text-xs text-slate-400">Span (m)</label>
                 <input 
                   type="number" step="0.1"
-                  value={inputs.beamClearSpan} 
-                  onChange={(e) => handleInputChange('beamClearSpan', e.target.value)}
+                  value={numberValue(activeSpan.length)} 
+                  onChange={(e) => handleSpanChange('length', e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                 />
+                {renderFieldIssues(`${spanPath}.length`)}
               </div>
                <div>
-                <label className="text-xs text-slate-400">Eff. Cover (mm)</label>
+                <label className="text-xs text-slate-400">Assumed Eff. Cover (mm)</label>
                 <input 
                   type="number" 
-                  value={inputs.effectiveCover} 
+                  value={numberValue(inputs.effectiveCover)} 
                   onChange={(e) => handleInputChange('effectiveCover', e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                 />
+                {renderFieldIssues('effectiveCover')}
+              </div>
+              <div>
+                <label className="text-xs text-slate-400">Clear Cover (mm)</label>
+                <input 
+                  type="number" 
+                  value={numberValue(inputs.clearCover)} 
+                  onChange={(e) => handleInputChange('clearCover', e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+                {renderFieldIssues('clearCover')}
+              </div>
+              <div>
+                <label className="text-xs text-slate-400">Support Width (mm)</label>
+                <input 
+                  type="number" step="10"
+                  value={numberValue(inputs.supportWidth)} 
+                  onChange={(e) => handleInputChange('supportWidth', e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+                {renderFieldIssues('supportWidth')}
               </div>
             </div>
+             <div className="grid grid-cols-2 gap-4 mt-2">
+              {(['leftSupport', 'rightSupport'] as const).map(end => (
+                <div key={end}>
+                  <label className="text-xs text-slate-400">{end === 'leftSupport' ? 'Left End' : 'Right End'}</label>
+                  <select 
+                    value={inputs[end]}
+                    onChange={(e) => handleInputChange(end, e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                  >
+                    <option value="Pinned">Pinned</option>
+                    <option value="Roller">Roller</option>
+                    <option value="Fixed">Fixed</option>
+                    <option value="Free">Free (Cantilever)</option>
+                  </select>
+                </div>
+              ))}
+             </div>
+             <label className="flex items-center gap-2 cursor-pointer mt-2">
+               <input 
+                 type="checkbox" 
+                 checked={inputs.designAsFlanged}
+                 onChange={(e) => setInputs(prev => ({ ...prev, designAsFlanged: e.target.checked }))}
+                 className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+               />
+               <span className="text-xs text-slate-400">Design as flanged beam (T / L using monolithic slabs)</span>
+             </label>
+             <div className="mt-2">
+               <label className="text-xs text-slate-400">Crack Width Limit</label>
+               <select 
+                 value={inputs.crackWidthLimit}
+                 onChange={(e) => handleInputChange('crackWidthLimit', e.target.value)}
+                 className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+               >
+                 <option value={0.3}>0.3 mm - General (Cl 35.3.2)</option>
+                 <option value={0.2}>0.2 mm - Coastal / liquid-retaining</option>
+                 <option value={0.1}>0.1 mm - Severe, liquid-retaining</option>
+               </select>
+             </div>
              <div className="grid grid-cols-3 gap-2 mt-2">
                <div>
                 <label className="text-xs text-slate-400">Wall Ht (m)</label>
                 <input 
                   type="number" step="0.1"
-                  value={inputs.wallHeight} 
-                  onChange={(e) => handleInputChange('wallHeight', e.target.value)}
+                  value={numberValue(activeSpan.wallHeight)} 
+                  onChange={(e) => handleSpanChange('wallHeight', e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                 />
+                {renderFieldIssues(`${spanPath}.wallHeight`)}
               </div>
                <div>
                 <label className="text-xs text-slate-400">Wall Thk (mm)</label>
                 <input 
                   type="number" 
-                  value={inputs.wallThickness} 
-                  onChange={(e) => handleInputChange('wallThickness', e.target.value)}
+                  value={numberValue(activeSpan.wallThickness)} 
+                  onChange={(e) => handleSpanChange('wallThickness', e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                 />
+                {renderFieldIssues(`${spanPath}.wallThickness`)}
               </div>
               <div>
                 <label className="text-xs text-slate-400">Density (kN/m³)</label>
                 <input 
                   type="number" 
-                  value={inputs.masonryDensity} 
+                  value={numberValue(inputs.masonryDensity)} 
                   onChange={(e) => handleInputChange('masonryDensity', e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                   title="Brick: ~20, AAC: ~8"
                 />
+                {renderFieldIssues('masonryDensity')}
               </div>
              </div>
           </section>
@@ -385,9 +1182,9 @@ const App: React.FC = () => {
                     onChange={(e) => handleInputChange('fck', parseInt(e.target.value))}
                     className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                    >
-                     <option value={20}>M20</option>
-                     <option value={25}>M25</option>
-                     <option value={30}>M30</option>
+                     {[20, 25, 30, 35, 40, 45, 50, 55, 60].map(grade => (
+                       <option key={grade} value={grade}>{code.gradeLabel(grade)}</option>
+                     ))}
                    </select>
                 </div>
                 <div>
@@ -407,6 +1204,21 @@ const App: React.FC = () => {
                     value={inputs.mainBarDia}
                     onChange={(e) => handleInputChange('mainBarDia', parseInt(e.target.value))}
                     className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                   >
+                     <option value={10}>10</option>
+                     <option value={12}>12</option>
+                     <option value={16}>16</option>
+                     <option value={20}>20</option>
+                     <option value={25}>25</option>
+                     <option value={32}>32</option>
+                   </select>
+                </div>
+                <div>
+                  <label className="text-xs text-slate-400">Top Bar (mm)</label>
+                   <select 
+                    value={inputs.topBarDia}
+                    onChange={(e) => handleInputChange('topBarDia', parseInt(e.target.value))}
+                    className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                    >
                      <option value={10}>10</option>
                      <option value={12}>12</option>
@@ -438,19 +1250,62 @@ const App: React.FC = () => {
         {/* Header Stats */}
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
            <h2 className="text-2xl font-bold text-slate-800">Design Results</h2>
-           <button 
-             onClick={handleSaveDesign}
-             className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
-           >
-             <Save className="w-4 h-4" />
-             Save to Schedule
-           </button>
+           <div className="flex gap-2">
+             <button 
+               onClick={() => setShowReport(true)}
+               disabled={inputErrors.length > 0}
+               className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+               <FileText className="w-4 h-4" />
+               Calculation Report
+             </button>
+             {openDesign && (
+               <button 
+                 onClick={() => handleSaveDesign(true)}
+                 disabled={inputErrors.length > 0}
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                 <Copy className="w-4 h-4" />
+                 Save as New
+               </button>
+             )}
+             <button 
+               onClick={() => handleSaveDesign(false)}
+               disabled={inputErrors.length > 0}
+               title={inputErrors.length > 0 ? 'Correct the input errors to save' : undefined}
+               className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+               <Save className="w-4 h-4" />
+               {openDesign ? `Update ${openDesign.name} (${openDesign.floor})` : 'Save to Schedule'}
+             </button>
+           </div>
         </div>
 
+        {inputIssues.length > 0 && (
+          <div className={`p-3 mb-6 text-sm rounded border ${inputErrors.length > 0 ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-800 border-amber-200'}`}>
+            <div className="flex items-center gap-2 font-bold">
+              <AlertTriangle size={16} />
+              {inputErrors.length > 0
+                ? 'Input errors: the results below are for the last valid inputs, and the design cannot be saved'
+                : 'Input warnings'}
+            </div>
+            <ul className="list-disc ml-6 mt-1 text-xs">
+              {inputIssues.map((issue, i) => <li key={i}>{issue.severity === 'error' ? 'Error' : 'Warning'}: {issue.message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {!analysis.isStable && (
+          <div className="p-3 mb-6 bg-red-50 text-red-700 text-sm rounded border border-red-200 flex items-center gap-2">
+            <AlertTriangle size={16} />
+            <span><strong>Unstable Beam:</strong> The chosen end conditions form a mechanism. A cantilever needs a fixed end.</span>
+          </div>
+        )}
+
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
            <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
-              <p className="text-xs text-slate-500">Total Factored UDL</p>
-              <p className="text-2xl font-bold text-slate-800">{loads.totalDesignUDL.toFixed(2)} <span className="text-sm font-normal text-slate-400">kN/m</span></p>
+              <p className="text-xs text-slate-500">Total Factored UDL{isContinuous ? ` (Span ${activeSpanIndex + 1})` : ''}</p>
+              <p className="text-2xl font-bold text-slate-800">{activeSpanLoads.totalDesignUDL.toFixed(2)} <span className="text-sm font-normal text-slate-400">kN/m</span></p>
            </div>
            <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
               <p className="text-xs text-slate-500">Design Moment (Mu)</p>
@@ -462,16 +1317,16 @@ const App: React.FC = () => {
            </div>
            <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
               <p className="text-xs text-slate-500">Design Status</p>
-              <p className={`text-lg font-bold ${design.isDoublyReinforced ? 'text-red-600' : 'text-emerald-600'} flex items-center gap-1`}>
-                 {design.isDoublyReinforced ? <AlertTriangle size={18} /> : <CheckCircle size={18} />}
-                 {design.isDoublyReinforced ? 'Over Reinf.' : 'Safe'}
+              <p className={`text-lg font-bold ${!design.flexureCheckPassed ? 'text-red-600' : (design.isDoublyReinforced ? 'text-amber-600' : 'text-emerald-600')} flex items-center gap-1`}>
+                 {design.flexureCheckPassed ? <CheckCircle size={18} /> : <AlertTriangle size={18} />}
+                 {!design.flexureCheckPassed ? 'Over Reinf.' : (design.isDoublyReinforced ? 'Doubly Reinf.' : 'Safe')}
               </p>
            </div>
         </div>
 
         {/* Load Breakdown Table */}
         <div className="mb-8">
-           <h3 className="text-lg font-bold text-slate-800 mb-4">Load Calculation</h3>
+           <h3 className="text-lg font-bold text-slate-800 mb-4">Load Calculation{isContinuous ? ` (Span ${activeSpanIndex + 1})` : ''}</h3>
            <div className="overflow-hidden rounded-lg border border-slate-200">
               <table className="min-w-full bg-white text-sm">
                 <thead className="bg-slate-50">
@@ -485,67 +1340,200 @@ const App: React.FC = () => {
                    <tr>
                       <td className="py-2 px-4 text-slate-700">Left Slab Load</td>
                       <td className="py-2 px-4 text-slate-500 text-xs">
-                        {!inputs.leftSlab.enabled ? 'No Slab' : 
-                          inputs.leftSlab.type === 'OneWay' ? 'One-Way (Lx/2)' : 
-                          inputs.leftSlab.supportEdge === 'Short' ? 'Two-Way Triangular (Lx/3)' : 'Two-Way Trapezoidal'}
+                        {!activeSpan.leftSlab.enabled ? 'No Slab' : 
+                          activeSpan.leftSlab.type === 'OneWay' ? 'One-Way (Lx/2)' : 
+                          activeSpan.leftSlab.supportEdge === 'Short' ? 'Two-Way Triangular (analysed as triangle, eq. UDL wLx/3)' : 'Two-Way Trapezoidal (analysed as trapezoid)'}
                       </td>
-                      <td className="py-2 px-4 text-right font-mono text-slate-700">{loads.udlFromLeftSlab.toFixed(2)} kN/m</td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{activeSpanLoads.udlFromLeftSlab.toFixed(2)} kN/m</td>
                    </tr>
                    <tr>
                       <td className="py-2 px-4 text-slate-700">Right Slab Load</td>
                       <td className="py-2 px-4 text-slate-500 text-xs">
-                        {!inputs.rightSlab.enabled ? 'No Slab' : 
-                          inputs.rightSlab.type === 'OneWay' ? 'One-Way (Lx/2)' : 
-                          inputs.rightSlab.supportEdge === 'Short' ? 'Two-Way Triangular (Lx/3)' : 'Two-Way Trapezoidal'}
+                        {!activeSpan.rightSlab.enabled ? 'No Slab' : 
+                          activeSpan.rightSlab.type === 'OneWay' ? 'One-Way (Lx/2)' : 
+                          activeSpan.rightSlab.supportEdge === 'Short' ? 'Two-Way Triangular (analysed as triangle, eq. UDL wLx/3)' : 'Two-Way Trapezoidal (analysed as trapezoid)'}
                       </td>
-                      <td className="py-2 px-4 text-right font-mono text-slate-700">{loads.udlFromRightSlab.toFixed(2)} kN/m</td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{activeSpanLoads.udlFromRightSlab.toFixed(2)} kN/m</td>
                    </tr>
                    <tr>
                       <td className="py-2 px-4 text-slate-700">Beam Self Weight</td>
-                      <td className="py-2 px-4 text-slate-500 text-xs">{inputs.beamWidth} x {inputs.beamDepth} x 25 kN/m³</td>
+                      <td className="py-2 px-4 text-slate-500 text-xs">{designInputs.beamWidth} x {designInputs.beamDepth} x 25 kN/m³</td>
                       <td className="py-2 px-4 text-right font-mono text-slate-700">{loads.beamSelfWeight.toFixed(2)} kN/m</td>
                    </tr>
                    <tr>
                       <td className="py-2 px-4 text-slate-700">Wall Load</td>
-                      <td className="py-2 px-4 text-slate-500 text-xs">{inputs.wallThickness}mm x {inputs.wallHeight}m x {inputs.masonryDensity} kN/m³</td>
-                      <td className="py-2 px-4 text-right font-mono text-slate-700">{loads.wallLoad.toFixed(2)} kN/m</td>
+                      <td className="py-2 px-4 text-slate-500 text-xs">{activeSpan.wallThickness}mm x {activeSpan.wallHeight}m x {designInputs.masonryDensity} kN/m³</td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{activeSpanLoads.wallLoad.toFixed(2)} kN/m</td>
                    </tr>
-                   {loads.factoredPointLoads.length > 0 && (
+                   {designInputs.torsion.cantileverSlab.enabled && (
+                      <tr>
+                        <td className="py-2 px-4 text-slate-700">Cantilever Slab</td>
+                        <td className="py-2 px-4 text-slate-500 text-xs">
+                          {designInputs.torsion.cantileverSlab.projection}m x {designInputs.torsion.cantileverSlab.thickness}mm, torque {(loads.cantileverSlab.deadTorsion + loads.cantileverSlab.liveTorsion).toFixed(2)} kNm/m
+                        </td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">{(loads.cantileverSlab.deadUDL + loads.cantileverSlab.liveUDL).toFixed(2)} kN/m</td>
+                      </tr>
+                   )}
+                   <tr>
+                      <td className="py-2 px-4 text-slate-700">Dead Load (DL)</td>
+                      <td className="py-2 px-4 text-slate-500 text-xs">Slab self weight + finishes, beam, wall{designInputs.torsion.cantileverSlab.enabled ? ', cantilever slab' : ''}</td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{activeSpanLoads.deadUDL.toFixed(2)} kN/m</td>
+                   </tr>
+                   <tr>
+                      <td className="py-2 px-4 text-slate-700">Imposed Load (LL)</td>
+                      <td className="py-2 px-4 text-slate-500 text-xs">Slab live load {designInputs.liveLoad} kN/m²</td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{activeSpanLoads.liveUDL.toFixed(2)} kN/m</td>
+                   </tr>
+                   {activeSpanLoads.factoredPointLoads.length > 0 && (
                       <tr className="bg-amber-50">
                         <td className="py-2 px-4 text-slate-700">Point Loads (Factored)</td>
-                        <td className="py-2 px-4 text-slate-500 text-xs">Applied manually</td>
+                        <td className="py-2 px-4 text-slate-500 text-xs">
+                          {activeSpanLoads.pointLoads.map(p => `${p.value}kN ${p.loadCase === 'Live' ? 'LL' : 'DL'}`).join(', ')}
+                        </td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">
+                          {activeSpanLoads.factoredPointLoads.map(p => `${p.value.toFixed(1)}kN@${p.distance}m`).join(', ')}
+                        </td>
+                      </tr>
+                   )}
+                   {activeSpan.lineLoads.length > 0 && (
+                      <tr className="bg-amber-50">
+                        <td className="py-2 px-4 text-slate-700">Partial / Varying Loads</td>
+                        <td className="py-2 px-4 text-slate-500 text-xs">Analysed with actual extent (not in UDL)</td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">
+                          {activeSpan.lineLoads.map(l => `${l.wStart}${l.wEnd !== l.wStart ? `-${l.wEnd}` : ''}kN/m ${l.loadCase === 'Live' ? 'LL' : 'DL'}@${l.start}-${l.end}m`).join(', ')}
+                        </td>
+                      </tr>
+                   )}
+                   {activeSpanLoads.factoredPointMoments.length > 0 && (
+                      <tr className="bg-amber-50">
+                        <td className="py-2 px-4 text-slate-700">Applied Moments (Factored)</td>
+                        <td className="py-2 px-4 text-slate-500 text-xs">Clockwise positive</td>
                         <td className="py-2 px-4 text-right font-mono text-slate-700">
-                          {loads.factoredPointLoads.map(p => `${p.value.toFixed(1)}kN@${p.distance}m`).join(', ')}
+                          {activeSpanLoads.factoredPointMoments.map(m => `${m.value.toFixed(1)}kNm@${m.distance}m`).join(', ')}
                         </td>
                       </tr>
                    )}
                    <tr className="bg-slate-50 font-bold">
-                      <td className="py-2 px-4 text-slate-900">Total Design UDL</td>
-                      <td className="py-2 px-4"></td>
-                      <td className="py-2 px-4 text-right font-mono text-blue-600">{loads.totalDesignUDL.toFixed(2)} kN/m</td>
+                      <td className="py-2 px-4 text-slate-900">Total Design UDL (Equivalent)</td>
+                      <td className="py-2 px-4 text-slate-500 text-xs font-normal">{loads.primaryCombination}</td>
+                      <td className="py-2 px-4 text-right font-mono text-blue-600">{activeSpanLoads.totalDesignUDL.toFixed(2)} kN/m</td>
                    </tr>
                 </tbody>
               </table>
            </div>
         </div>
 
+        {/* Load Combinations */}
+        <div className="mb-8">
+           <h3 className="text-lg font-bold text-slate-800 mb-4">Load Combinations</h3>
+           <div className="overflow-x-auto rounded-lg border border-slate-200">
+              <table className="min-w-full bg-white text-sm">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="py-2 px-4 text-left font-medium text-slate-500">Combination</th>
+                    <th className="py-2 px-4 text-right font-medium text-slate-500">Max Sagging</th>
+                    <th className="py-2 px-4 text-right font-medium text-slate-500">Max Hogging</th>
+                    <th className="py-2 px-4 text-right font-medium text-slate-500">Max Shear</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {analysis.combinationResults.map(c => (
+                    <tr key={c.name} className={c.name === analysis.governingCombination ? 'bg-blue-50 font-bold' : ''}>
+                      <td className="py-2 px-4 text-slate-700">
+                        {c.name}
+                        {c.name === analysis.governingCombination && <span className="ml-2 text-[10px] text-blue-600 uppercase">Governs</span>}
+                        {c.name === analysis.governingCombination && designInputs.liveLoadPatterning && (
+                          <div className="text-[10px] text-slate-500 font-normal">{analysis.governingLiveLoadArrangement}</div>
+                        )}
+                      </td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{c.maxSaggingMoment.toFixed(1)} kNm</td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{c.maxHoggingMoment.toFixed(1)} kNm</td>
+                      <td className="py-2 px-4 text-right font-mono text-slate-700">{c.maxShear.toFixed(1)} kN</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+           </div>
+           {(designInputs.liveLoadPatterning || designInputs.movingPointLoad > 0) && (
+             <p className="text-xs text-slate-500 mt-2">
+               {designInputs.liveLoadPatterning && `Each combination is the worst of the live load on ${isContinuous ? 'all, alternate and adjacent spans' : 'the full span'} and on each half span. `}
+               {designInputs.movingPointLoad > 0 && `Includes a ${designInputs.movingPointLoad} kN moving live point load at its most adverse position (influence lines).`}
+             </p>
+           )}
+        </div>
+
+        {/* Span Actions & Support Reactions */}
+        {(isContinuous || designInputs.leftSupport === 'Fixed' || designInputs.rightSupport === 'Fixed' || designInputs.leftSupport === 'Free' || designInputs.rightSupport === 'Free') && (
+          <div className="mb-8">
+             <h3 className="text-lg font-bold text-slate-800 mb-4">{isContinuous ? 'Continuous Beam Analysis' : 'Beam Analysis'}</h3>
+             <div className="overflow-x-auto rounded-lg border border-slate-200">
+                <table className="min-w-full bg-white text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="py-2 px-4 text-left font-medium text-slate-500">Span</th>
+                      <th className="py-2 px-4 text-right font-medium text-slate-500">Length</th>
+                      <th className="py-2 px-4 text-right font-medium text-slate-500">M Left</th>
+                      <th className="py-2 px-4 text-right font-medium text-slate-500">M Span (Sagging)</th>
+                      <th className="py-2 px-4 text-right font-medium text-slate-500">M Right</th>
+                      <th className="py-2 px-4 text-right font-medium text-slate-500">V Left</th>
+                      <th className="py-2 px-4 text-right font-medium text-slate-500">V Right</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {analysis.spans.map((s, i) => (
+                      <tr key={i}>
+                        <td className="py-2 px-4 text-slate-700">Span {i + 1}</td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">{s.length} m</td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">{s.leftMoment.toFixed(1)} kNm</td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">{s.maxSaggingMoment.toFixed(1)} kNm</td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">{s.rightMoment.toFixed(1)} kNm</td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">{s.leftShear.toFixed(1)} kN</td>
+                        <td className="py-2 px-4 text-right font-mono text-slate-700">{s.rightShear.toFixed(1)} kN</td>
+                      </tr>
+                    ))}
+                    <tr className="bg-slate-50">
+                      <td className="py-2 px-4 text-slate-900 font-bold">Reactions</td>
+                      <td colSpan={6} className="py-2 px-4 text-right font-mono text-slate-700">
+                        {analysis.supportReactions.map((r, i) => `R${i + 1} = ${r.toFixed(1)} kN`).join(', ')}
+                      </td>
+                    </tr>
+                    <tr className="bg-slate-50">
+                      <td className="py-2 px-4 text-slate-900 font-bold">Support Moments</td>
+                      <td colSpan={6} className="py-2 px-4 text-right font-mono text-slate-700">
+                        {analysis.supportMoments.map((m, i) => `M${i + 1} = ${m.toFixed(1)} kNm`).join(', ')}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+             </div>
+          </div>
+        )}
+
         {/* Visualization Grid */}
         <div className="grid grid-cols-1 gap-6 mb-8">
              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                <MomentDiagram data={analysis.momentData} />
-                <BeamLoadDiagram span={inputs.beamClearSpan} udl={loads.totalDesignUDL} pointLoads={loads.factoredPointLoads} />
+                <MomentDiagram data={analysis.momentData} envelope={analysis.momentEnvelope} />
+                <BeamLoadDiagram spans={loads.spanLoads} supports={getSupportConditions(designInputs)} />
              </div>
              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                 <ShearDiagram data={analysis.shearData} />
+                 <ShearDiagram data={analysis.shearData} envelope={analysis.shearEnvelope} />
                  <CrossSection 
-                   width={inputs.beamWidth} 
-                   depth={inputs.beamDepth} 
-                   numBars={design.numberOfBars} 
-                   barDia={inputs.mainBarDia} 
-                   stirrupDia={inputs.stirrupBarDia}
-                   cover={inputs.effectiveCover}
+                   width={designInputs.beamWidth} 
+                   depth={designInputs.beamDepth} 
+                   bottomLayers={design.barArrangement.layers}
+                   layerGap={design.barArrangement.layerGap}
+                   numTopBars={design.numberOfCompressionBars}
+                   topBarDia={designInputs.topBarDia}
+                   isDoublyReinforced={design.isDoublyReinforced}
+                   sectionType={design.sectionType}
+                   flangeWidth={design.flangeWidth}
+                   flangeDepth={design.flangeDepth}
+                   flangeSide={designInputs.rightSlab.enabled && !designInputs.leftSlab.enabled ? 'right' : 'left'}
+                   stirrupDia={designInputs.stirrupBarDia}
+                   cover={designInputs.clearCover}
                  />
              </div>
+             <DeflectionDiagram data={design.computedDeflection.shape} />
         </div>
 
         {/* Detailed Design Results */}
@@ -561,19 +1549,88 @@ const App: React.FC = () => {
                   <h4 className="text-sm font-semibold text-blue-600 uppercase tracking-wide">Flexure Design</h4>
                   
                   {design.isDoublyReinforced && (
-                    <div className="p-3 bg-red-50 text-red-700 text-sm rounded border border-red-200">
-                      <strong>Warning:</strong> The required Moment ({analysis.maxMoment.toFixed(1)}) exceeds the Limiting Moment ({design.muLim.toFixed(1)}). The section is doubly reinforced. Please increase depth.
+                    <div className={`p-3 text-sm rounded border ${design.flexureCheckPassed ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-red-50 text-red-700 border-red-200'}`}>
+                      <strong>{design.flexureCheckPassed ? 'Note:' : 'Warning:'}</strong> The required Moment ({design.torsion.me1.toFixed(1)}) exceeds the Limiting Moment ({design.muLim.toFixed(1)}). The section is designed as doubly reinforced
+                      {design.flexureCheckPassed ? '.' : ', but the steel exceeds 0.04bD. Please increase depth.'}
                     </div>
                   )}
 
+                  {design.isDoublyReinforced && (
+                    <>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Ast1 (for Mu,lim)</span>
+                        <span className="font-mono font-medium text-slate-900">{design.ast1.toFixed(0)} mm²</span>
+                      </div>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Ast2 (for Mu - Mu,lim)</span>
+                        <span className="font-mono font-medium text-slate-900">{design.ast2.toFixed(0)} mm²</span>
+                      </div>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Comp. Steel Stress (fsc)</span>
+                        <span className="font-mono font-medium text-slate-900">{design.fsc.toFixed(0)} N/mm²</span>
+                      </div>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Required Asc</span>
+                        <span className="font-mono font-medium text-slate-900">{design.ascRequired.toFixed(0)} mm²</span>
+                      </div>
+                    </>
+                  )}
+
+                  {design.sectionType !== 'Rectangular' && (
+                    <>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">{design.sectionType}-Beam Flange (bf x Df)</span>
+                        <span className="font-mono font-medium text-slate-900">{design.flangeWidth.toFixed(0)} x {design.flangeDepth} mm</span>
+                      </div>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Neutral Axis (xu)</span>
+                        <span className="font-mono font-medium text-slate-900">{design.neutralAxisDepth.toFixed(0)} mm, in {design.neutralAxisInFlange ? 'flange' : 'web'}</span>
+                      </div>
+                    </>
+                  )}
+
                   <div className="flex justify-between border-b border-slate-100 pb-2">
                     <span className="text-slate-600 text-sm">Required Ast</span>
                     <span className="font-mono font-medium text-slate-900">{design.astRequired.toFixed(0)} mm²</span>
                   </div>
                   <div className="flex justify-between border-b border-slate-100 pb-2">
                     <span className="text-slate-600 text-sm">Provided Bars</span>
-                    <span className="font-mono font-bold text-slate-900">{design.numberOfBars} nos. T{inputs.mainBarDia}</span>
+                    <span className={`font-mono font-bold ${design.barArrangement.spacingCheckPassed ? 'text-slate-900' : 'text-red-600'}`}>{design.barArrangement.description}</span>
+                  </div>
+                  <div className="flex justify-between border-b border-slate-100 pb-2">
+                    <span className="text-slate-600 text-sm">Layers (clear spacing)</span>
+                    <span className="font-mono font-medium text-slate-900 text-right">
+                      {design.barArrangement.layers.length} ({design.barArrangement.layers.map(l => l.clearSpacing.toFixed(0)).join(' / ')} mm, min {design.barArrangement.minClearSpacing.toFixed(0)})
+                    </span>
                   </div>
+                  {!design.barArrangement.spacingCheckPassed && (
+                    <div className="text-xs text-red-600">Bars do not fit at the Cl 26.3.2 spacing: increase width or bar size</div>
+                  )}
+                  <div className="flex justify-between border-b border-slate-100 pb-2">
+                    <span className="text-slate-600 text-sm">Effective Depth (d)</span>
+                    <span className="font-mono font-medium text-slate-900">{design.effectiveDepth.toFixed(0)} mm</span>
+                  </div>
+                  <div className="flex justify-between border-b border-slate-100 pb-2">
+                    <span className="text-slate-600 text-sm">{design.isDoublyReinforced ? 'Compression Bars' : 'Hanger Bars'}</span>
+                    <span className="font-mono font-bold text-slate-900">{design.numberOfCompressionBars} nos. T{designInputs.topBarDia}</span>
+                  </div>
+                  {design.supportSteel && (
+                    <>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Support Top Steel (Mu {design.supportSteel.moment.toFixed(1)} kNm)</span>
+                        <span className={`font-mono font-bold ${design.supportSteel.barArrangement.spacingCheckPassed ? 'text-slate-900' : 'text-red-600'}`}>{design.supportSteel.barArrangement.description}</span>
+                      </div>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Support Ast (required / provided)</span>
+                        <span className="font-mono font-medium text-slate-900">{design.supportSteel.astRequired.toFixed(0)} / {design.supportSteel.astProvided.toFixed(0)} mm²</span>
+                      </div>
+                      {design.supportSteel.isDoublyReinforced && (
+                        <div className={`text-xs ${design.supportSteel.ascProvided >= design.supportSteel.ascRequired ? 'text-amber-600' : 'text-red-600'}`}>
+                          Doubly reinforced at the supports: the bottom bars into the supports ({design.supportSteel.ascProvided.toFixed(0)} mm²) must provide Asc {design.supportSteel.ascRequired.toFixed(0)} mm²
+                        </div>
+                      )}
+                    </>
+                  )}
                   <div className="flex justify-between border-b border-slate-100 pb-2">
                     <span className="text-slate-600 text-sm">Provided Area</span>
                     <span className="font-mono font-medium text-slate-900">{design.astProvided.toFixed(0)} mm²</span>
@@ -590,7 +1647,7 @@ const App: React.FC = () => {
                   
                   {design.stirrupSpacing === 0 ? (
                     <div className="p-3 bg-red-50 text-red-700 text-sm rounded border border-red-200">
-                      <strong>Shear Failure:</strong> Stress exceeds {'$\\tau_{c,max}$'}. Increase section size immediately.
+                      <strong>Shear Failure:</strong> Stress {design.torsion.tu > 0 ? design.torsion.tauVe.toFixed(2) : design.tauV} N/mm² exceeds {'$\\tau_{c,max}$'} = {design.tauCMax} N/mm². Increase section size immediately.
                     </div>
                   ) : (
                      <>
@@ -602,6 +1659,37 @@ const App: React.FC = () => {
                         <span className="text-slate-600 text-sm">Concrete Capacity ($\tau_c$)</span>
                         <span className="font-mono font-medium text-slate-900">{design.tauC} N/mm²</span>
                       </div>
+                      <div className="text-[11px] text-slate-400 -mt-2">
+                        {design.tauCReference}
+                      </div>
+                      <div className="flex justify-between border-b border-slate-100 pb-2">
+                        <span className="text-slate-600 text-sm">Max Shear Stress ({'$\\tau_{c,max}$'})</span>
+                        <span className="font-mono font-medium text-slate-900">{design.tauCMax} N/mm²</span>
+                      </div>
+                      {design.torsion.tu > 0 && (
+                        <>
+                          <div className="flex justify-between border-b border-slate-100 pb-2">
+                            <span className="text-slate-600 text-sm">Torsion $T_u$ / $M_t$</span>
+                            <span className="font-mono font-medium text-slate-900">{design.torsion.tu.toFixed(1)} / {design.torsion.mt.toFixed(1)} kNm</span>
+                          </div>
+                          <div className="flex justify-between border-b border-slate-100 pb-2">
+                            <span className="text-slate-600 text-sm">Equivalent Shear ({'$\\tau_{ve}$'})</span>
+                            <span className="font-mono font-medium text-slate-900">{design.torsion.ve.toFixed(1)} kN ({design.torsion.tauVe.toFixed(2)} N/mm²)</span>
+                          </div>
+                          <div className="flex justify-between border-b border-slate-100 pb-2">
+                            <span className="text-slate-600 text-sm">Equivalent Moment {'$M_{e1}$'}{design.torsion.me2 > 0 ? ' / $M_{e2}$' : ''}</span>
+                            <span className="font-mono font-medium text-slate-900">
+                              {design.torsion.me1.toFixed(1)}{design.torsion.me2 > 0 ? ` / ${design.torsion.me2.toFixed(1)}` : ''} kNm
+                            </span>
+                          </div>
+                          {design.torsion.sideFaceBars > 0 && (
+                            <div className="flex justify-between border-b border-slate-100 pb-2">
+                              <span className="text-slate-600 text-sm">Side Face Bars (Cl 26.5.1.3)</span>
+                              <span className="font-mono font-medium text-slate-900">{design.torsion.sideFaceBars} - T{design.torsion.sideFaceBarDia} each face</span>
+                            </div>
+                          )}
+                        </>
+                      )}
                       <div className="flex justify-between border-b border-slate-100 pb-2">
                         <span className="text-slate-600 text-sm">Shear Reinforcement</span>
                         <span className="font-mono font-medium text-slate-900 text-right">
@@ -611,7 +1699,7 @@ const App: React.FC = () => {
                       <div className="flex justify-between pb-2 items-center bg-green-50 p-2 rounded">
                         <span className="text-green-800 text-sm font-bold">Use Stirrups</span>
                         <span className="font-mono font-bold text-green-900">
-                           T{inputs.stirrupBarDia} @ {design.stirrupSpacing} mm c/c
+                           T{designInputs.stirrupBarDia} @ {design.stirrupSpacing} mm c/c{design.torsion.tu > 0 ? ' (closed)' : ''}
                         </span>
                       </div>
                      </>
@@ -638,6 +1726,18 @@ const App: React.FC = () => {
                     <span className="text-slate-600 text-sm">Mod. Factor ($k_t$)</span>
                     <span className="font-mono font-medium text-slate-900">{design.modificationFactorKt.toFixed(2)}</span>
                   </div>
+                  {design.isDoublyReinforced && (
+                    <div className="flex justify-between border-b border-slate-100 pb-2">
+                      <span className="text-slate-600 text-sm">Mod. Factor ($k_c$)</span>
+                      <span className="font-mono font-medium text-slate-900">{design.modificationFactorKc.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {design.sectionType !== 'Rectangular' && (
+                    <div className="flex justify-between border-b border-slate-100 pb-2">
+                      <span className="text-slate-600 text-sm">Flange Factor ($k_f$)</span>
+                      <span className="font-mono font-medium text-slate-900">{design.reductionFactorKf.toFixed(2)}</span>
+                    </div>
+                  )}
                    <div className="flex justify-between border-b border-slate-100 pb-2">
                     <span className="text-slate-600 text-sm">Allowable L/d</span>
                     <span className="font-mono font-medium text-slate-900">{design.allowableLbyD.toFixed(2)}</span>
@@ -646,59 +1746,613 @@ const App: React.FC = () => {
                     <span className="text-slate-600 text-sm">Actual L/d</span>
                     <span className={`font-mono font-bold ${design.deflectionCheckPassed ? 'text-slate-900' : 'text-red-600'}`}>{design.actualLbyD.toFixed(2)}</span>
                   </div>
+                  <div className="text-[11px] text-slate-400 -mt-2">
+                    {design.deflectionReference}
+                  </div>
+
+                  <h4 className="text-sm font-semibold text-purple-600 uppercase tracking-wide pt-2">Computed Deflection (Annex C)</h4>
+                  <div className="flex justify-between border-b border-slate-100 pb-2">
+                    <span className="text-slate-600 text-sm">Ieff / Igr (Mr = {design.computedDeflection.crackingMoment.toFixed(1)} kNm)</span>
+                    <span className="font-mono font-medium text-slate-900">{(design.computedDeflection.ieff / 1e6).toFixed(0)} / {(design.computedDeflection.igr / 1e6).toFixed(0)} ×10⁶ mm⁴</span>
+                  </div>
+                  {design.computedDeflection.spans.map((sd, i) => (
+                    <div key={i} className="border-b border-slate-100 pb-2 text-sm">
+                      {design.computedDeflection.spans.length > 1 && <div className="text-xs text-slate-400">Span {i + 1}</div>}
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Short-term + Shrinkage + Creep</span>
+                        <span className="font-mono text-slate-900">{sd.shortTerm.toFixed(1)} + {sd.shrinkage.toFixed(1)} + {sd.creep.toFixed(1)} mm</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Total / Span/250</span>
+                        <span className={`font-mono font-bold ${sd.total <= sd.totalLimit ? 'text-green-600' : 'text-red-600'}`}>{sd.total.toFixed(1)} / {sd.totalLimit.toFixed(1)} mm</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">After Partitions / Limit</span>
+                        <span className={`font-mono font-bold ${sd.afterPartitions <= sd.afterPartitionsLimit ? 'text-green-600' : 'text-red-600'}`}>{sd.afterPartitions.toFixed(1)} / {sd.afterPartitionsLimit.toFixed(1)} mm</span>
+                      </div>
+                    </div>
+                  ))}
+
+                  <h4 className="text-sm font-semibold text-purple-600 uppercase tracking-wide pt-2">Crack Width (Annex F)</h4>
+                  {design.crackWidthChecks.map(c => (
+                    <div key={c.face} className="border-b border-slate-100 pb-2 text-sm">
+                      {design.crackWidthChecks.length > 1 && <div className="text-xs text-slate-400">{c.face === 'Bottom' ? 'Bottom face (sagging)' : 'Top face at supports (hogging)'}</div>}
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Service Moment (DL+LL)</span>
+                        <span className="font-mono font-medium text-slate-900">{c.serviceMoment.toFixed(2)} kNm</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Steel Stress ($f_s$), x</span>
+                        <span className="font-mono font-medium text-slate-900">{c.serviceSteelStress.toFixed(0)} N/mm², {c.neutralAxisDepthService.toFixed(0)} mm</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Crack Width ({'$w_{cr}$'}) / Limit</span>
+                        <span className={`font-mono font-bold ${c.passed ? 'text-green-600' : 'text-red-600'}`}>
+                          {c.crackWidth.toFixed(3)} / {design.crackWidthLimit} mm {c.passed ? 'OK' : 'FAIL'}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                  {!design.crackWidthCheckPassed && <div className="text-xs text-red-600">Use more bars of smaller diameter or reduce the service stress</div>}
                </div>
             </div>
         </div>
 
+        {/* Curtailment & Anchorage */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-8">
+            <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <Ruler className="w-5 h-5 text-slate-400" />
+              Curtailment & Anchorage
+            </h3>
+            <BeamElevation
+              spanLengths={spans.map(s => s.length)}
+              supports={getSupportConditions(designInputs)}
+              barGroups={design.curtailment.barGroups}
+            />
+            <div className="grid grid-cols-3 gap-4 my-4 text-sm">
+              <div className="bg-slate-50 rounded p-2">
+                <span className="text-slate-500 block text-xs">Bond Stress ({'$\\tau_{bd}$'})</span>
+                <span className="font-mono font-medium text-slate-900">{design.curtailment.bondStress} N/mm²</span>
+              </div>
+              <div className="bg-slate-50 rounded p-2">
+                <span className="text-slate-500 block text-xs">Development Length (Ld, T{designInputs.mainBarDia})</span>
+                <span className="font-mono font-medium text-slate-900">{design.curtailment.developmentLength} mm</span>
+              </div>
+              <div className="bg-slate-50 rounded p-2">
+                <span className="text-slate-500 block text-xs">Extension past cut-off (d or 12Φ)</span>
+                <span className="font-mono font-medium text-slate-900">{design.curtailment.extension.toFixed(0)} mm</span>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
+                  <tr>
+                    <th className="py-2 px-3">Bar Group</th>
+                    <th className="py-2 px-3">Bars</th>
+                    <th className="py-2 px-3 text-right">From - To (m)</th>
+                    <th className="py-2 px-3 text-right">Theoretical Cut-off (m)</th>
+                    <th className="py-2 px-3">Left End</th>
+                    <th className="py-2 px-3">Right End</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {design.curtailment.barGroups.map((g, i) => (
+                    <tr key={i} className={g.curtailed ? 'bg-orange-50' : ''}>
+                      <td className="py-2 px-3 text-slate-700">{g.label}</td>
+                      <td className="py-2 px-3 font-mono">{g.count}-T{g.diameter}</td>
+                      <td className="py-2 px-3 text-right font-mono">{g.start.toFixed(2)} - {g.end.toFixed(2)}</td>
+                      <td className="py-2 px-3 text-right font-mono">
+                        {g.theoreticalStart !== null || g.theoreticalEnd !== null
+                          ? `${g.theoreticalStart !== null ? g.theoreticalStart.toFixed(2) : '-'} / ${g.theoreticalEnd !== null ? g.theoreticalEnd.toFixed(2) : '-'}`
+                          : '-'}
+                      </td>
+                      <td className="py-2 px-3 text-xs text-slate-500">{g.leftAnchorage}</td>
+                      <td className="py-2 px-3 text-xs text-slate-500">{g.rightAnchorage}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {design.curtailment.anchorageChecks.length > 0 && (
+              <div className="overflow-x-auto mt-4">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
+                    <tr>
+                      <th className="py-2 px-3">Development Check (Cl 26.2.3.3)</th>
+                      <th className="py-2 px-3 text-right">M1 (kNm)</th>
+                      <th className="py-2 px-3 text-right">V (kN)</th>
+                      <th className="py-2 px-3 text-right">L0 (mm)</th>
+                      <th className="py-2 px-3 text-right">k·M1/V + L0 (mm)</th>
+                      <th className="py-2 px-3 text-right">Ld (mm)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {design.curtailment.anchorageChecks.map((c, i) => (
+                      <tr key={i}>
+                        <td className="py-2 px-3 text-slate-700">{c.location} @ {c.x.toFixed(2)}m</td>
+                        <td className="py-2 px-3 text-right font-mono">{c.m1.toFixed(1)}</td>
+                        <td className="py-2 px-3 text-right font-mono">{c.v.toFixed(1)}</td>
+                        <td className="py-2 px-3 text-right font-mono">{c.l0.toFixed(0)}</td>
+                        <td className="py-2 px-3 text-right font-mono">{c.available.toFixed(0)} (k = {c.factor})</td>
+                        <td className={`py-2 px-3 text-right font-mono font-bold ${c.passed ? 'text-green-600' : 'text-red-600'}`}>{c.ld} {c.passed ? 'OK' : 'FAIL'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {!design.curtailment.passed && <div className="text-xs text-red-600 mt-1">Use smaller bars, continue more bars into the support or increase the support width</div>}
+              </div>
+            )}
+        </div>
+
+        {/* Bar Bending Schedule */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-8">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Ruler className="w-5 h-5 text-slate-400" />
+                Bar Bending Schedule
+              </h3>
+              <button 
+                onClick={handleExportDesignBarSchedule}
+                title="Export the bar bending schedule of this beam as CSV"
+                className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm"
+              >
+                <Download className="w-4 h-4" />
+                CSV
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
+                  <tr>
+                    <th className="py-2 px-3">Mark</th>
+                    <th className="py-2 px-3">Description</th>
+                    <th className="py-2 px-3">Bar</th>
+                    <th className="py-2 px-3">Shape</th>
+                    <th className="py-2 px-3">Dimensions (mm)</th>
+                    <th className="py-2 px-3 text-right">No.</th>
+                    <th className="py-2 px-3 text-right">Cutting Length (mm)</th>
+                    <th className="py-2 px-3 text-right">Weight (kg)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {barSchedule.entries.map(e => (
+                    <tr key={e.mark}>
+                      <td className="py-2 px-3 font-mono text-slate-700">{e.mark}</td>
+                      <td className="py-2 px-3 text-slate-700">{e.description}</td>
+                      <td className="py-2 px-3 font-mono">T{e.diameter}</td>
+                      <td className="py-2 px-3 text-slate-500"><span className="font-mono font-bold text-slate-700">{e.shapeCode}</span> {e.shape}</td>
+                      <td className="py-2 px-3 text-xs font-mono text-slate-500">{e.dimensions}</td>
+                      <td className="py-2 px-3 text-right font-mono">{e.count}</td>
+                      <td className="py-2 px-3 text-right font-mono">{e.cuttingLength}</td>
+                      <td className="py-2 px-3 text-right font-mono">{e.weight.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-slate-50 font-bold">
+                    <td className="py-2 px-3" colSpan={7}>Total steel</td>
+                    <td className="py-2 px-3 text-right font-mono">{barSchedule.totalWeight.toFixed(2)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              Cutting lengths include the anchorage into the supports, 90° bends (2Φ deducted) and 135° stirrup hooks of 10Φ (3Φ deducted). Unit weight Φ²/162 kg/m.
+            </p>
+        </div>
+
+        {/* Quantities & Cost */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-8">
+            <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <Calculator className="w-5 h-5 text-slate-400" />
+              Quantities & Cost
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4 text-sm">
+              <div>
+                <label className="text-xs text-slate-500">Currency</label>
+                <input 
+                  type="text"
+                  value={rates.currency}
+                  onChange={(e) => updateRate('currency', e.target.value)}
+                  className="w-full border border-slate-200 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-slate-500">Concrete, {code.gradeLabel(20)} (per m³)</label>
+                <input 
+                  type="number"
+                  value={rates.concrete}
+                  onChange={(e) => updateRate('concrete', e.target.value)}
+                  className="w-full border border-slate-200 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-slate-500">Grade premium (per m³ per 5 N/mm²)</label>
+                <input 
+                  type="number"
+                  value={rates.gradePremium}
+                  onChange={(e) => updateRate('gradePremium', e.target.value)}
+                  className="w-full border border-slate-200 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-slate-500">Formwork (per m²)</label>
+                <input 
+                  type="number"
+                  value={rates.formwork}
+                  onChange={(e) => updateRate('formwork', e.target.value)}
+                  className="w-full border border-slate-200 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-slate-500">Reinforcement (per kg)</label>
+                <input 
+                  type="number"
+                  value={rates.reinforcement}
+                  onChange={(e) => updateRate('reinforcement', e.target.value)}
+                  className="w-full border border-slate-200 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                />
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
+                  <tr>
+                    <th className="py-2 px-3">Item</th>
+                    <th className="py-2 px-3 text-right">Quantity</th>
+                    <th className="py-2 px-3 text-right">Rate</th>
+                    <th className="py-2 px-3 text-right">Amount ({rates.currency})</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  <tr>
+                    <td className="py-2 px-3 text-slate-700">Concrete {design.sectionType !== 'Rectangular' && <span className="text-xs text-slate-400">(below slab)</span>}</td>
+                    <td className="py-2 px-3 text-right font-mono">{quantities.concreteVolume.toFixed(3)} m³</td>
+                    <td className="py-2 px-3 text-right font-mono">{getConcreteRate(rates, designInputs.fck as number)}</td>
+                    <td className="py-2 px-3 text-right font-mono">{cost.concrete.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2 px-3 text-slate-700">Formwork (soffit and sides)</td>
+                    <td className="py-2 px-3 text-right font-mono">{quantities.formworkArea.toFixed(2)} m²</td>
+                    <td className="py-2 px-3 text-right font-mono">{rates.formwork}</td>
+                    <td className="py-2 px-3 text-right font-mono">{cost.formwork.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2 px-3 text-slate-700">
+                      Reinforcement
+                      <div className="text-xs text-slate-400">
+                        {BAR_CATEGORIES.filter(c => quantities.steel[c] > 0).map(c => `${c} ${quantities.steel[c].toFixed(1)} kg`).join(', ')}
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono">{quantities.totalSteel.toFixed(2)} kg</td>
+                    <td className="py-2 px-3 text-right font-mono">{rates.reinforcement}</td>
+                    <td className="py-2 px-3 text-right font-mono">{cost.reinforcement.toFixed(2)}</td>
+                  </tr>
+                  <tr className="bg-slate-50 font-bold">
+                    <td className="py-2 px-3" colSpan={3}>Total</td>
+                    <td className="py-2 px-3 text-right font-mono">{cost.total.toFixed(2)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+        </div>
+
+        {/* Section Optimiser */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-8">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-4">
+              <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Search className="w-5 h-5 text-slate-400" />
+                Section Optimiser
+              </h3>
+              <div className="flex gap-2 items-center text-sm">
+                <select 
+                  value={optimiserObjective}
+                  onChange={(e) => setOptimiserObjective(e.target.value as OptimiserObjective)}
+                  className="border border-slate-200 rounded p-1.5 text-sm focus:border-blue-500 outline-none"
+                >
+                  <option value="cost">Cheapest</option>
+                  <option value="depth">Shallowest</option>
+                </select>
+                <select 
+                  value={optimiserDepthStep}
+                  onChange={(e) => setOptimiserDepthStep(parseInt(e.target.value))}
+                  className="border border-slate-200 rounded p-1.5 text-sm focus:border-blue-500 outline-none"
+                >
+                  <option value={25}>Depth in 25 mm steps</option>
+                  <option value={50}>Depth in 50 mm steps</option>
+                </select>
+                <button 
+                  onClick={handleOptimise}
+                  disabled={isOptimising}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-70 disabled:cursor-not-allowed"
+                >
+                  <Search className="w-4 h-4" />
+                  {isOptimising ? `Searching... ${(optimiserProgress * 100).toFixed(0)}%` : 'Find Sections'}
+                </button>
+                {isOptimising && (
+                  <button 
+                    onClick={() => optimiserRun.current?.cancel()}
+                    className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 mb-4">
+              Searches widths from the wall thickness up, depths from 300 mm, main bars T12 to T32 and grades {code.gradeLabel(20)} to {code.gradeLabel(40)} for
+              designs that pass every strength, serviceability and detailing check, priced with the rates above.
+            </p>
+            {optimiserResult && (
+              <>
+                {optimiserResult.searchedFor !== optimiserKey && (
+                  <div className="p-2 mb-3 bg-amber-50 text-amber-700 text-xs rounded border border-amber-200">
+                    The loads or other inputs have changed since this search. Search again for up-to-date results.
+                  </div>
+                )}
+                {optimiserResult.candidates.length === 0 ? (
+                  <div className="text-sm text-red-600">None of the {optimiserResult.evaluated} sections searched passes every check.</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                      <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
+                        <tr>
+                          <th className="py-2 px-3">Size (mm)</th>
+                          <th className="py-2 px-3">Concrete</th>
+                          <th className="py-2 px-3">Bottom Bars</th>
+                          <th className="py-2 px-3">Stirrups</th>
+                          <th className="py-2 px-3 text-right">Utilisation</th>
+                          <th className="py-2 px-3 text-right">Steel (kg)</th>
+                          <th className="py-2 px-3 text-right">Cost ({rates.currency})</th>
+                          <th className="py-2 px-3"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {optimiserResult.candidates.map((c, i) => {
+                          const isCurrent = c.beamWidth === designInputs.beamWidth && c.beamDepth === designInputs.beamDepth
+                            && c.mainBarDia === designInputs.mainBarDia && c.fck === designInputs.fck;
+                          return (
+                            <tr key={i} className={isCurrent ? 'bg-blue-50' : ''}>
+                              <td className="py-2 px-3 font-mono">{c.beamWidth} x {c.beamDepth}</td>
+                              <td className="py-2 px-3">{code.gradeLabel(c.fck)}</td>
+                              <td className="py-2 px-3 font-mono">{c.reinforcement}</td>
+                              <td className="py-2 px-3 font-mono text-slate-500">{c.stirrups}</td>
+                              <td className="py-2 px-3 text-right font-mono">{(c.utilisation * 100).toFixed(0)}%</td>
+                              <td className="py-2 px-3 text-right font-mono">{c.totalSteel.toFixed(1)}</td>
+                              <td className="py-2 px-3 text-right font-mono">{c.cost.toFixed(0)}</td>
+                              <td className="py-2 px-3 text-right">
+                                <button 
+                                  onClick={() => applyCandidate(c)}
+                                  disabled={isCurrent}
+                                  className="text-blue-600 hover:text-blue-500 text-xs font-medium disabled:text-slate-400"
+                                >
+                                  {isCurrent ? 'Applied' : 'Apply'}
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                    <div className="text-xs text-slate-500 mt-2">
+                      {optimiserResult.passing} of {optimiserResult.evaluated} sections searched pass every check.
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+        </div>
+
         {/* Design Schedule */}
         <div className="mb-8">
-           <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
-             <Table className="w-5 h-5 text-slate-400" />
-             Design Schedule
-           </h3>
+           <div className="flex justify-between items-center mb-4">
+             <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+               <Table className="w-5 h-5 text-slate-400" />
+               Design Schedule
+             </h3>
+             <div className="flex flex-wrap justify-end gap-2">
+               <label 
+                 title="Design every beam of a CSV or JSON beam list into this project"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm cursor-pointer"
+               >
+                 <Upload className="w-4 h-4" />
+                 Beam List
+                 <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImportBeamList} className="hidden" />
+               </label>
+               <button 
+                 onClick={handleDownloadBeamListTemplate}
+                 title="Download a beam list template (CSV)"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm"
+               >
+                 <Download className="w-4 h-4" />
+                 Template
+               </button>
+               <label 
+                 title="Import a project file"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm cursor-pointer"
+               >
+                 <Upload className="w-4 h-4" />
+                 Import
+                 <input type="file" accept=".json,application/json" onChange={handleImportProject} className="hidden" />
+               </label>
+               <button 
+                 onClick={handleExportProject}
+                 disabled={projectDesigns.length === 0}
+                 title="Export the project file"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                 <Download className="w-4 h-4" />
+                 JSON
+               </button>
+               <button 
+                 onClick={handleExportCsv}
+                 disabled={projectDesigns.length === 0}
+                 title="Export the schedule as CSV"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                 <Download className="w-4 h-4" />
+                 CSV
+               </button>
+               <button 
+                 onClick={handleExportBarSchedule}
+                 disabled={projectDesigns.length === 0}
+                 title="Export the bar bending schedule of every beam in the project as CSV"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                 <Download className="w-4 h-4" />
+                 BBS
+               </button>
+               <button 
+                 onClick={handleExportQuantities}
+                 disabled={projectDesigns.length === 0}
+                 title="Export the quantities and cost of every beam in the project as CSV"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                 <Download className="w-4 h-4" />
+                 Quantities
+               </button>
+               <button 
+                 onClick={handleExportWorkbook}
+                 disabled={projectDesigns.length === 0}
+                 title="Export the schedule, load breakdown, bar bending schedule and quantities as an Excel workbook"
+                 className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                 <Download className="w-4 h-4" />
+                 Excel
+               </button>
+             </div>
+           </div>
+           {scheduleIssues && (
+             <div className="p-3 mb-4 bg-red-50 text-red-700 text-sm rounded border border-red-200">
+               <div className="flex items-center gap-2 font-bold">
+                 <AlertTriangle size={16} />
+                 {scheduleIssues.title}
+               </div>
+               <ul className="list-disc ml-6 mt-1 text-xs">
+                 {scheduleIssues.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+               </ul>
+             </div>
+           )}
+           <div className="grid grid-cols-2 gap-4 mb-4 max-w-md">
+             <div>
+               <label className="text-xs text-slate-500">Project</label>
+               <input 
+                 type="text" list="schedule-projects"
+                 value={project}
+                 onChange={(e) => setProject(e.target.value)}
+                 className="w-full bg-white border border-slate-200 rounded p-2 text-sm focus:border-blue-500 outline-none"
+               />
+               <datalist id="schedule-projects">
+                 {projects.map(p => <option key={p} value={p} />)}
+               </datalist>
+             </div>
+             <div>
+               <label className="text-xs text-slate-500">Floor (new entries)</label>
+               <input 
+                 type="text" list="schedule-floors"
+                 value={floor}
+                 onChange={(e) => setFloor(e.target.value)}
+                 className="w-full bg-white border border-slate-200 rounded p-2 text-sm focus:border-blue-500 outline-none"
+               />
+               <datalist id="schedule-floors">
+                 {floors.map(f => <option key={f} value={f} />)}
+               </datalist>
+             </div>
+           </div>
            
-           {savedDesigns.length === 0 ? (
+           {projectDesigns.length === 0 ? (
              <div className="bg-slate-50 border-2 border-dashed border-slate-200 rounded-xl p-8 text-center text-slate-500">
-               No designs saved yet. Click "Save to Schedule" to add the current design here.
+               No designs saved in {project || 'this project'} yet. Click "Save to Schedule" to add the current design here.
              </div>
            ) : (
              <div className="overflow-x-auto rounded-lg border border-slate-200 shadow-sm">
                 <table className="min-w-full bg-white text-sm">
                   <thead className="bg-slate-50">
                     <tr>
-                      <th className="py-3 px-4 text-left font-semibold text-slate-600">ID</th>
+                      <th className="py-3 px-4 text-left font-semibold text-slate-600">Floor</th>
+                      <th className="py-3 px-4 text-left font-semibold text-slate-600">Mark</th>
+                      <th className="py-3 px-4 text-left font-semibold text-slate-600">Code</th>
                       <th className="py-3 px-4 text-left font-semibold text-slate-600">Span</th>
                       <th className="py-3 px-4 text-left font-semibold text-slate-600">Size (mm)</th>
                       <th className="py-3 px-4 text-left font-semibold text-slate-600">Reinforcement</th>
+                      <th className="py-3 px-4 text-left font-semibold text-slate-600">Curtailment</th>
                       <th className="py-3 px-4 text-left font-semibold text-slate-600">Stirrups</th>
+                      <th className="py-3 px-4 text-left font-semibold text-slate-600">Crack Width</th>
+                      <th className="py-3 px-4 text-right font-semibold text-slate-600">Cost ({rates.currency})</th>
                       <th className="py-3 px-4 text-left font-semibold text-slate-600">Status</th>
                       <th className="py-3 px-4 text-center font-semibold text-slate-600">Action</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
-                    {savedDesigns.map((d) => (
-                      <tr key={d.id} className="hover:bg-slate-50 transition-colors">
-                        <td className="py-3 px-4 font-bold text-slate-700">{d.name}</td>
-                        <td className="py-3 px-4 text-slate-600">{d.inputs.beamClearSpan}m</td>
-                        <td className="py-3 px-4 text-slate-600">{d.inputs.beamWidth} x {d.inputs.beamDepth}</td>
+                    {projectDesigns.map((d, i) => (
+                      <tr key={d.id} className={`transition-colors ${d.id === openDesignId ? 'bg-blue-50' : 'hover:bg-slate-50'}`}>
+                        <td className="py-3 px-4">
+                          <input 
+                            type="text"
+                            value={d.floor}
+                            onChange={(e) => updateSavedDesign(d.id, 'floor', e.target.value)}
+                            className="w-28 bg-transparent border border-transparent hover:border-slate-200 rounded p-1 text-slate-600 focus:border-blue-500 outline-none"
+                          />
+                        </td>
+                        <td className="py-3 px-4">
+                          <input 
+                            type="text"
+                            value={d.name}
+                            onChange={(e) => updateSavedDesign(d.id, 'name', e.target.value)}
+                            className="w-20 bg-transparent border border-transparent hover:border-slate-200 rounded p-1 font-bold text-slate-700 focus:border-blue-500 outline-none"
+                          />
+                        </td>
+                        <td className="py-3 px-4 text-slate-600">{getDesignCode(d.designCode).name}</td>
+                        <td className="py-3 px-4 text-slate-600">{getSpans(d.inputs).map(s => s.length).join(' + ')}m</td>
+                        <td className="py-3 px-4 text-slate-600">
+                          {d.inputs.beamWidth} x {d.inputs.beamDepth}
+                          {d.design.sectionType !== 'Rectangular' && ` (${d.design.sectionType}, bf ${d.design.flangeWidth.toFixed(0)})`}
+                        </td>
                         <td className="py-3 px-4 text-slate-600">
-                          {d.design.numberOfBars} - T{d.inputs.mainBarDia}
+                          {d.design.barArrangement.description}
+                          {(d.design.isDoublyReinforced || d.design.torsion.me2 > 0) && ` + ${d.design.numberOfCompressionBars} - T${d.inputs.topBarDia} (Top)`}
+                          {d.design.torsion.sideFaceBars > 0 && ` + ${d.design.torsion.sideFaceBars} - T${d.design.torsion.sideFaceBarDia} (Each Face)`}
+                        </td>
+                        <td className="py-3 px-4 text-slate-600 text-xs">
+                          {d.design.curtailment.barGroups.filter(g => g.curtailed).map(g => `${g.count}-T${g.diameter} ${g.face === 'Top' ? 'top' : 'bot'} ${g.start.toFixed(2)}-${g.end.toFixed(2)}m`).join(', ') || 'None'}
+                          <div className="text-slate-400">Ld {d.design.curtailment.developmentLength}mm</div>
                         </td>
                         <td className="py-3 px-4 text-slate-600">
                           {d.design.stirrupSpacing > 0 
-                            ? `T${d.inputs.stirrupBarDia} @ ${d.design.stirrupSpacing}mm` 
+                            ? `T${d.inputs.stirrupBarDia} @ ${d.design.stirrupSpacing}mm${d.design.torsion.tu > 0 ? ' (closed)' : ''}` 
                             : 'Failed'}
+                          {d.design.torsion.tu > 0 && <div className="text-xs text-slate-400">Tu {d.design.torsion.tu.toFixed(1)} kNm</div>}
+                        </td>
+                        <td className={`py-3 px-4 font-mono ${d.design.crackWidthCheckPassed ? 'text-slate-600' : 'text-red-600 font-bold'}`}>
+                          {d.design.crackWidth.toFixed(3)} / {d.design.crackWidthLimit}mm
+                        </td>
+                        <td className="py-3 px-4 text-right font-mono text-slate-600">
+                          {projectCosts[i].cost.total.toFixed(0)}
+                          <div className="text-xs text-slate-400">{projectCosts[i].quantities.totalSteel.toFixed(0)} kg</div>
                         </td>
                         <td className="py-3 px-4">
                            <span className={`px-2 py-1 rounded text-xs font-bold ${
-                             !d.design.isDoublyReinforced && d.design.deflectionCheckPassed && d.design.stirrupSpacing > 0
+                             designPasses(d.design)
                                ? 'bg-green-100 text-green-700' 
                                : 'bg-red-100 text-red-700'
                            }`}>
-                             {!d.design.isDoublyReinforced && d.design.deflectionCheckPassed && d.design.stirrupSpacing > 0 ? 'PASS' : 'FAIL'}
+                             {designPasses(d.design) ? 'PASS' : 'FAIL'}
                            </span>
                         </td>
-                        <td className="py-3 px-4 text-center">
+                        <td className="py-3 px-4 text-center whitespace-nowrap">
+                          <button 
+                            onClick={() => openSavedDesign(d)}
+                            className="text-slate-400 hover:text-blue-500 transition-colors p-1"
+                            title="Open in editor"
+                          >
+                            <FolderOpen size={16} />
+                          </button>
+                          <button 
+                            onClick={() => duplicateSavedDesign(d)}
+                            className="text-slate-400 hover:text-blue-500 transition-colors p-1"
+                            title="Duplicate into editor"
+                          >
+                            <Copy size={16} />
+                          </button>
                           <button 
                             onClick={() => deleteSavedDesign(d.id)}
                             className="text-slate-400 hover:text-red-500 transition-colors p-1"
@@ -710,6 +2364,17 @@ const App: React.FC = () => {
                       </tr>
                     ))}
                   </tbody>
+                  <tfoot className="bg-slate-50 border-t border-slate-200 font-bold text-slate-700">
+                    <tr>
+                      <td className="py-3 px-4" colSpan={9}>
+                        Project total: {projectTotal(c => c.quantities.concreteVolume).toFixed(2)} m³ concrete,{' '}
+                        {projectTotal(c => c.quantities.formworkArea).toFixed(1)} m² formwork,{' '}
+                        {(projectTotal(c => c.quantities.totalSteel) / 1000).toFixed(3)} t steel
+                      </td>
+                      <td className="py-3 px-4 text-right font-mono">{projectTotal(c => c.cost.total).toFixed(0)}</td>
+                      <td colSpan={2}></td>
+                    </tr>
+                  </tfoot>
                 </table>
              </div>
            )}
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+// rcc-beam: the design engine on the command line, for scripts and pipelines.
+//
+//   rcc-beam design <input> [--format json|md|csv] [--code IS456|ACI318|EC2] [--project <name>]
+//
+// The input is design inputs, a project file or a beam list (see utils/designFile.ts). Results go to
+// standard output as JSON, a Markdown calculation report per beam, or the design schedule as CSV.
+//
+// Exit codes:
+//   0  every design passes all checks
+//   1  one or more designs fail a check (listed on standard error)
+//   2  wrong usage, or the input cannot be read or has input errors
+//
+// Input warnings (utils/validation.ts) are written to standard error and do not change the exit code.
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  analyzeBeam, BeamListError, buildCalculationReport, calculateLoads, DESIGN_CODES, DesignCodeId, DesignFile, designPasses,
+  getScheduleRows, getUtilisation, ProjectFileError, readDesignFile, reportToMarkdown, SavedDesign, toCsv, validateInputs
+} from '../engine';
+
+const FORMATS = ['json', 'md', 'csv'] as const;
+type Format = typeof FORMATS[number];
+
+const USAGE = `Usage: rcc-beam design <input> [--format json|md|csv] [--code ${Object.keys(DESIGN_CODES).join('|')}] [--project <name>]
+
+  <input>     Design inputs (.json), a project file (.json) or a beam list (.csv / .json)
+  --format    json (default): inputs and results of every beam
+              md: calculation report of every beam
+              csv: design schedule
+  --code      Design code of beam list rows without one (default IS456)
+  --project   Project name of beam lists and design inputs
+
+Exits with 1 when a design fails a check, 2 when the input cannot be read or has input errors.`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface Options {
+  input: string;
+  format: Format;
+  designCode: DesignCodeId;
+  project: string;
+}
+
+const parseArgs = (args: string[]): Options => {
+  const [command, ...rest] = args;
+  if (command !== 'design') throw new UsageError(command ? `Unknown command "${command}".` : 'No command given.');
+
+  const options: Partial<Options> = { format: 'json', designCode: 'IS456', project: 'Untitled Project' };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      if (options.input) throw new UsageError(`Unexpected argument "${arg}".`);
+      options.input = arg;
+      continue;
+    }
+    const [flag, inline] = arg.split(/=(.*)/s);
+    const value = inline ?? rest[++i];
+    if (value === undefined) throw new UsageError(`${flag} needs a value.`);
+    if (flag === '--format') {
+      if (!FORMATS.includes(value as Format)) throw new UsageError(`Unknown format "${value}". Formats: ${FORMATS.join(', ')}.`);
+      options.format = value as Format;
+    } else if (flag === '--code') {
+      if (!(value in DESIGN_CODES)) throw new UsageError(`Unknown design code "${value}". Codes: ${Object.keys(DESIGN_CODES).join(', ')}.`);
+      options.designCode = value as DesignCodeId;
+    } else if (flag === '--project') {
+      options.project = value;
+    } else {
+      throw new UsageError(`Unknown option "${flag}".`);
+    }
+  }
+  if (!options.input) throw new UsageError('No input file given.');
+  return options as Options;
+};
+
+const label = (d: SavedDesign) => (d.floor ? `${d.name} (${d.floor})` : d.name);
+
+const formatResults = (project: string, designs: SavedDesign[], format: Format): string => {
+  if (format === 'csv') return `${toCsv(getScheduleRows(designs))}\n`;
+
+  if (format === 'md') {
+    return designs.map(d => {
+      const loads = calculateLoads(d.inputs);
+      const report = buildCalculationReport(d.inputs, loads, analyzeBeam(d.inputs, loads), d.design);
+      return reportToMarkdown(report, [d.project, d.floor, d.name].filter(Boolean).join(' / '));
+    }).join('\n');
+  }
+
+  return JSON.stringify({
+    project,
+    passed: designs.every(d => designPasses(d.design)),
+    designs: designs.map(d => ({
+      floor: d.floor,
+      mark: d.name,
+      designCode: d.designCode,
+      passed: designPasses(d.design),
+      utilisation: getUtilisation(d.design),
+      warnings: validateInputs(d.inputs).map(issue => issue.message),
+      loads: d.loads,
+      inputs: d.inputs,
+      design: d.design
+    }))
+  }, null, 2) + '\n';
+};
+
+const main = async (args: string[]): Promise<number> => {
+  let options: Options;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`rcc-beam: ${error.message}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  let text: string;
+  try {
+    text = await readFile(options.input, 'utf8');
+  } catch (error) {
+    process.stderr.write(`rcc-beam: cannot read ${options.input}: ${(error as Error).message}\n`);
+    return 2;
+  }
+
+  let file: DesignFile;
+  try {
+    file = readDesignFile(text, path.basename(options.input), options.designCode, options.project);
+  } catch (error) {
+    if (!(error instanceof ProjectFileError || error instanceof BeamListError)) throw error;
+    process.stderr.write(`rcc-beam: ${options.input} cannot be designed:\n${error.issues.map(issue => `  ${issue}`).join('\n')}\n`);
+    return 2;
+  }
+  const { project, designs } = file;
+
+  process.stdout.write(formatResults(project, designs, options.format));
+
+  designs.forEach(d => validateInputs(d.inputs).forEach(issue => process.stderr.write(`rcc-beam: warning: ${label(d)}: ${issue.message}\n`)));
+  const failed = designs.filter(d => !designPasses(d.design));
+  failed.forEach(d => process.stderr.write(`rcc-beam: ${label(d)} fails one or more checks\n`));
+  return failed.length > 0 ? 1 : 0;
+};
+
+if (process.argv.slice(2).some(arg => arg === '--help' || arg === '-h')) {
+  process.stdout.write(`${USAGE}\n`);
+} else {
+  main(process.argv.slice(2)).then(
+    code => {
+      process.exitCode = code;
+    },
+    error => {
+      process.stderr.write(`rcc-beam: ${error instanceof Error ? error.stack : error}\n`);
+      process.exitCode = 2;
+    }
+  );
+}
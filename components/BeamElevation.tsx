@@ -0,0 +1,94 @@
+import React from 'react';
+import { BarGroup, SupportCondition } from '../types';
+import { SupportSymbol } from './Diagrams';
+
+interface BeamElevationProps {
+  spanLengths: number[]; // m
+  supports: SupportCondition[]; // One per support, left to right
+  barGroups: BarGroup[];
+}
+
+// Bars of one face are stacked in lanes so overlapping groups stay readable
+const assignLanes = (groups: BarGroup[]) => {
+  const laneEnds: number[] = [];
+  return groups.map(g => {
+    let lane = laneEnds.findIndex(end => end <= g.start + 1e-6);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(g.end);
+    } else {
+      laneEnds[lane] = g.end;
+    }
+    return { group: g, lane };
+  });
+};
+
+export const BeamElevation: React.FC<BeamElevationProps> = ({ spanLengths, supports, barGroups }) => {
+  const width = 800;
+  const paddingX = 30;
+  const drawWidth = width - 2 * paddingX;
+  const beamTop = 40;
+  const beamHeight = 80;
+  const laneGap = 9;
+  const totalLength = spanLengths.reduce((sum, l) => sum + l, 0);
+
+  const getX = (dist: number) => paddingX + (dist / totalLength) * drawWidth;
+  const supportXs = spanLengths.reduce((xs, l) => [...xs, xs[xs.length - 1] + l], [0]);
+
+  const sorted = (face: BarGroup['face']) => barGroups.filter(g => g.face === face).sort((a, b) => a.start - b.start);
+  const top = assignLanes(sorted('Top'));
+  const bottom = assignLanes(sorted('Bottom'));
+
+  const renderBar = ({ group }: { group: BarGroup }, y: number, labelBelow: boolean, key: string) => {
+    const x1 = getX(group.start);
+    const x2 = getX(group.end);
+    const color = group.curtailed ? '#f97316' : (group.face === 'Top' ? '#2563eb' : '#dc2626');
+    return (
+      <g key={key}>
+        <line x1={x1} y1={y} x2={x2} y2={y} stroke={color} strokeWidth="2.5" />
+        <line x1={x1} y1={y - 3} x2={x1} y2={y + 3} stroke={color} strokeWidth="1.5" />
+        <line x1={x2} y1={y - 3} x2={x2} y2={y + 3} stroke={color} strokeWidth="1.5" />
+        <text x={(x1 + x2) / 2} y={labelBelow ? y + 8 : y - 3} textAnchor="middle" className="text-[8px] fill-slate-600 font-mono">
+          {group.count}-T{group.diameter}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <div className="w-full bg-white p-4 rounded-lg shadow-sm border border-slate-200">
+      <h3 className="text-sm font-semibold text-slate-500 mb-2">Reinforcement Elevation</h3>
+      <svg width="100%" viewBox={`0 0 ${width} 200`} preserveAspectRatio="xMidYMid meet">
+        {/* Beam */}
+        <rect x={paddingX} y={beamTop} width={drawWidth} height={beamHeight} fill="#f1f5f9" stroke="#64748b" strokeWidth="2" />
+
+        {/* Supports */}
+        {supportXs.map((sx, i) => (
+          <SupportSymbol
+            key={`support-${i}`}
+            x={getX(sx)}
+            y={beamTop + beamHeight}
+            type={supports[i]}
+            side={i === 0 ? 'left' : (i === supportXs.length - 1 ? 'right' : 'middle')}
+          />
+        ))}
+
+        {/* Top bars hang from the top face, bottom bars sit on the soffit */}
+        {top.map((bar, i) => renderBar(bar, beamTop + 8 + bar.lane * laneGap, false, `top-${i}`))}
+        {bottom.map((bar, i) => renderBar(bar, beamTop + beamHeight - 8 - bar.lane * laneGap, true, `bottom-${i}`))}
+
+        {/* Span dimensions */}
+        {spanLengths.map((l, i) => (
+          <text key={`span-${i}`} x={(getX(supportXs[i]) + getX(supportXs[i + 1])) / 2} y={beamTop + beamHeight + 45} textAnchor="middle" className="text-xs fill-slate-500">
+            {spanLengths.length > 1 ? `L${i + 1}` : 'L'} = {l} m
+          </text>
+        ))}
+      </svg>
+      <div className="flex gap-4 text-[10px] text-slate-500 justify-center">
+        <span><span className="inline-block w-3 h-0.5 bg-red-600 align-middle mr-1"></span>Bottom, continuing</span>
+        <span><span className="inline-block w-3 h-0.5 bg-blue-600 align-middle mr-1"></span>Top, continuing</span>
+        <span><span className="inline-block w-3 h-0.5 bg-orange-500 align-middle mr-1"></span>Curtailed</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { AnalysisResult, CalculationReport, DesignInputs, DesignResult, LoadResult } from '../types';
+import { getSupportConditions, getSpans } from '../utils/rccCalculations';
+import { MomentDiagram, ShearDiagram, BeamLoadDiagram } from './Diagrams';
+import { CrossSection } from './CrossSection';
+import { BeamElevation } from './BeamElevation';
+
+interface CalculationReportProps {
+  report: CalculationReport;
+  subtitle: string; // Project, floor and beam mark
+  inputs: DesignInputs;
+  loads: LoadResult;
+  analysis: AnalysisResult;
+  design: DesignResult;
+}
+
+// Calculation sheet laid out for A4 printing: figures first, then one table of steps per section
+export const CalculationReportView: React.FC<CalculationReportProps> = ({ report, subtitle, inputs, loads, analysis, design }) => {
+  const supports = getSupportConditions(inputs);
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-8 print:p-0 text-slate-900 text-sm">
+      <div className="border-b-2 border-slate-800 pb-3 mb-6 flex justify-between items-end">
+        <div>
+          <h1 className="text-2xl font-bold">{report.title}</h1>
+          <p className="text-slate-600">{subtitle}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-slate-600">{report.designCode}</p>
+          <p className={`font-bold ${report.passed ? 'text-emerald-700' : 'text-red-700'}`}>
+            {report.passed ? 'ALL CHECKS PASS' : 'DESIGN FAILS ONE OR MORE CHECKS'}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-4 mb-8 break-inside-avoid">
+        <BeamLoadDiagram spans={loads.spanLoads} supports={supports} />
+        <div className="grid grid-cols-2 gap-4">
+          <MomentDiagram data={analysis.momentData} envelope={analysis.momentEnvelope} />
+          <ShearDiagram data={analysis.shearData} envelope={analysis.shearEnvelope} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-8 items-center break-inside-avoid">
+        <CrossSection
+          width={inputs.beamWidth}
+          depth={inputs.beamDepth}
+          bottomLayers={design.barArrangement.layers}
+          layerGap={design.barArrangement.layerGap}
+          numTopBars={design.numberOfCompressionBars}
+          topBarDia={inputs.topBarDia}
+          isDoublyReinforced={design.isDoublyReinforced}
+          sectionType={design.sectionType}
+          flangeWidth={design.flangeWidth}
+          flangeDepth={design.flangeDepth}
+          flangeSide={inputs.rightSlab.enabled && !inputs.leftSlab.enabled ? 'right' : 'left'}
+          stirrupDia={inputs.stirrupBarDia}
+          cover={inputs.clearCover}
+        />
+        <div className="col-span-2">
+          <BeamElevation
+            spanLengths={getSpans(inputs).map(s => s.length)}
+            supports={supports}
+            barGroups={design.curtailment.barGroups}
+          />
+        </div>
+      </div>
+
+      {report.sections.map((section, s) => (
+        <section key={section.title} className="mb-6">
+          <h2 className="text-base font-bold bg-slate-100 px-2 py-1 mb-2 break-after-avoid">{s + 1}. {section.title}</h2>
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr className="border-b border-slate-400 text-left">
+                <th className="py-1 pr-2 w-8">No.</th>
+                <th className="py-1 pr-2">Step</th>
+                <th className="py-1 pr-2">Formula / Substitution</th>
+                <th className="py-1 pr-2">Result</th>
+                <th className="py-1 w-32">Reference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {section.steps.map((step, i) => (
+                <tr key={i} className="border-b border-slate-200 align-top break-inside-avoid">
+                  <td className="py-1 pr-2 text-slate-500">{s + 1}.{i + 1}</td>
+                  <td className="py-1 pr-2">{step.description}</td>
+                  <td className="py-1 pr-2 font-mono">
+                    {step.formula && <div>{step.formula}</div>}
+                    {step.substitution && <div className="text-slate-500">= {step.substitution}</div>}
+                  </td>
+                  <td className={`py-1 pr-2 font-mono ${step.passed === false ? 'text-red-700 font-bold' : ''}`}>{step.result}</td>
+                  <td className="py-1 text-slate-500">{step.reference}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -1,10 +1,18 @@
 import React from 'react';
+import { BarLayer, SectionType } from '../types';
 
 interface CrossSectionProps {
   width: number; // mm
   depth: number; // mm
-  numBars: number;
-  barDia: number; // mm
+  bottomLayers: BarLayer[]; // Tension bars, layer 1 at the soffit
+  layerGap: number; // mm, spacer bar between layers
+  numTopBars: number;
+  topBarDia: number; // mm
+  isDoublyReinforced: boolean;
+  sectionType: SectionType;
+  flangeWidth: number; // mm
+  flangeDepth: number; // mm
+  flangeSide: 'left' | 'right'; // L-beams only
   stirrupDia: number;
   cover: number;
 }
@@ -12,48 +20,102 @@ interface CrossSectionProps {
 export const CrossSection: React.FC<CrossSectionProps> = ({
   width,
   depth,
-  numBars,
-  barDia,
+  bottomLayers,
+  layerGap,
+  numTopBars,
+  topBarDia,
+  isDoublyReinforced,
+  sectionType,
+  flangeWidth,
+  flangeDepth,
+  flangeSide,
   stirrupDia,
   cover,
 }) => {
+  // Wide flanges are drawn at most 3x the web width so the web stays legible
+  const isFlanged = sectionType !== 'Rectangular';
+  const drawnFlangeWidth = isFlanged ? Math.min(flangeWidth, 3 * width) : width;
+
   // Scaling factor to fit in viewBox
-  const scale = 250 / Math.max(width, depth);
+  const scale = 250 / Math.max(drawnFlangeWidth, depth);
   const scaledW = width * scale;
   const scaledH = depth * scale;
+  const scaledFlangeW = drawnFlangeWidth * scale;
+  const scaledFlangeD = flangeDepth * scale;
   
   const cx = 150; // Center of SVG
   const cy = 150;
   
-  const x = cx - scaledW / 2;
+  const flangeX = cx - scaledFlangeW / 2;
+  let x = cx - scaledW / 2;
+  if (sectionType === 'L') x = flangeSide === 'left' ? flangeX + scaledFlangeW - scaledW : flangeX;
   const y = cy - scaledH / 2;
+
+  // T/L outline, clockwise from the top-left corner of the flange
+  const flangedOutline = [
+    [flangeX, y], [flangeX + scaledFlangeW, y], [flangeX + scaledFlangeW, y + scaledFlangeD],
+    [x + scaledW, y + scaledFlangeD], [x + scaledW, y + scaledH], [x, y + scaledH],
+    [x, y + scaledFlangeD], [flangeX, y + scaledFlangeD]
+  ].map(([px, py]) => `${px},${py}`).join(' ');
   
-  // Bars logic
-  // Simple layout: assume single layer for visualization for simplicity, max 6 bars per row
-  const renderBars = () => {
-    const bars = [];
-    const sidePadding = (cover + stirrupDia) * scale;
-    const availableWidth = scaledW - 2 * sidePadding;
-    
-    // Safety check for calculation issues
-    if (numBars <= 0) return null;
+  // Bars logic: every bar at its true position, corner bars tight against the stirrup
+  const sidePadding = (cover + stirrupDia) * scale;
+  const innerLeft = x + sidePadding;
+  const soffit = y + scaledH;
+
+  const renderBars = () => bottomLayers.flatMap((layer, li) => {
+    let offset = 0;
+    return layer.bars.map((dia, i) => {
+      const cxBar = innerLeft + (offset + dia / 2 + i * layer.clearSpacing) * scale;
+      offset += dia;
+      return (
+        <circle 
+            key={`${li}-${i}`} 
+            cx={cxBar} 
+            cy={soffit - layer.y * scale} 
+            r={Math.max((dia * scale) / 2, 2)} 
+            fill="#dc2626" 
+            stroke="#7f1d1d" 
+            strokeWidth="1"
+        />
+      );
+    });
+  });
+
+  // Spacer bars run across the section between successive layers
+  const renderSpacers = () => bottomLayers.slice(1).map((layer, li) => {
+    const below = bottomLayers[li];
+    const spacerY = soffit - ((below.y + Math.max(...below.bars) / 2 + layer.y - Math.max(...layer.bars) / 2) / 2) * scale;
+    return (
+      <g key={`spacer-${li}`}>
+        <line x1={innerLeft} y1={spacerY} x2={x + scaledW - sidePadding} y2={spacerY} stroke="#64748b" strokeWidth={Math.max(layerGap * scale, 1)} strokeOpacity="0.5" />
+        <text x={x + scaledW + 6} y={spacerY + 3} className="text-[9px] fill-slate-400 font-mono">spacer Ø{layerGap}</text>
+      </g>
+    );
+  });
 
-    const spacing = numBars > 1 ? availableWidth / (numBars - 1) : 0;
-    const barRadius = (barDia * scale) / 2;
-    const bottomY = y + scaledH - sidePadding - barRadius;
+  const bottomBars = bottomLayers.flatMap(l => l.bars);
+  const bottomLabel = [...new Set(bottomBars)]
+    .sort((a, b) => b - a)
+    .map(dia => `${bottomBars.filter(bar => bar === dia).length} - T${dia}`)
+    .join(' + ');
 
-    for (let i = 0; i < numBars; i++) {
-        // If too many bars, visualize max 5 to avoid clutter, add text +
-        if(i > 4) break; 
-        
+  // Top bars: compression steel when doubly reinforced, otherwise hangers
+  const renderTopBars = () => {
+    const bars = [];
+    const barRadius = (topBarDia * scale) / 2;
+    const spacing = numTopBars > 1 ? (scaledW - 2 * sidePadding - 2 * barRadius) / (numTopBars - 1) : 0;
+    const topY = y + sidePadding + barRadius;
+
+    for (let i = 0; i < numTopBars; i++) {
         bars.push(
             <circle 
                 key={i} 
-                cx={x + sidePadding + (i * spacing)} 
-                cy={bottomY} 
+                cx={innerLeft + barRadius + (i * spacing)} 
+                cy={topY} 
                 r={Math.max(barRadius, 2)} 
-                fill="#dc2626" 
-                stroke="#7f1d1d" 
+                fill={isDoublyReinforced ? '#2563eb' : '#94a3b8'} 
+                stroke={isDoublyReinforced ? '#1e3a8a' : '#475569'} 
                 strokeWidth="1"
             />
         );
@@ -66,15 +128,19 @@ export const CrossSection: React.FC<CrossSectionProps> = ({
         <h3 className="text-sm font-semibold text-slate-500 mb-2">Cross Section</h3>
         <svg width="300" height="300" viewBox="0 0 300 300" className="w-full h-full">
             {/* Concrete Face */}
-            <rect 
-                x={x} 
-                y={y} 
-                width={scaledW} 
-                height={scaledH} 
-                fill="#e2e8f0" 
-                stroke="#64748b" 
-                strokeWidth="2" 
-            />
+            {isFlanged ? (
+              <polygon points={flangedOutline} fill="#e2e8f0" stroke="#64748b" strokeWidth="2" />
+            ) : (
+              <rect 
+                  x={x} 
+                  y={y} 
+                  width={scaledW} 
+                  height={scaledH} 
+                  fill="#e2e8f0" 
+                  stroke="#64748b" 
+                  strokeWidth="2" 
+              />
+            )}
             
             {/* Stirrup (approximate inset) */}
             <rect 
@@ -88,19 +154,24 @@ export const CrossSection: React.FC<CrossSectionProps> = ({
                 rx="4"
             />
             
-            {/* Top Hanger Bars (Dummy, usually 2-10mm) */}
-            <circle cx={x + (cover + stirrupDia)*scale + 2} cy={y + (cover + stirrupDia)*scale + 2} r={3} fill="#94a3b8" />
-            <circle cx={x + scaledW - ((cover + stirrupDia)*scale + 2)} cy={y + (cover + stirrupDia)*scale + 2} r={3} fill="#94a3b8" />
+            {/* Top Bars */}
+            {renderTopBars()}
 
             {/* Main Bars */}
+            {renderSpacers()}
             {renderBars()}
             
             {/* Labels */}
-            <text x={x - 10} y={cy} textAnchor="end" className="text-xs fill-slate-500 font-mono">{depth}mm</text>
+            <text x={Math.min(x, flangeX) - 10} y={cy} textAnchor="end" className="text-xs fill-slate-500 font-mono">{depth}mm</text>
+            {isFlanged && (
+              <text x={flangeX + scaledFlangeW / 2} y={y - 8} textAnchor="middle" className="text-xs fill-slate-500 font-mono">
+                bf = {flangeWidth.toFixed(0)}mm{flangeWidth > drawnFlangeWidth ? ' (not to scale)' : ''}
+              </text>
+            )}
             <text x={cx} y={y + scaledH + 20} textAnchor="middle" className="text-xs fill-slate-500 font-mono">{width}mm</text>
         </svg>
         <div className="text-xs text-slate-500 mt-2">
-            {numBars} - T{barDia} Bottom Reinf.
+            {bottomLabel} Bottom{bottomLayers.length > 1 ? ` (${bottomLayers.length} layers)` : ''}, {numTopBars} - T{topBarDia} Top {isDoublyReinforced ? '(Comp.)' : '(Hanger)'}
         </div>
     </div>
   );
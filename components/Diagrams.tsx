@@ -1,57 +1,140 @@
 import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ComposedChart, Area, LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { SpanLoadResult, SupportCondition } from '../types';
 
 interface DiagramProps {
-  data: { x: number; val: number }[];
+  data: { x: number; val: number }[]; // Governing combination
+  envelope: { x: number; max: number; min: number }[]; // Over all combinations, at the same points as data
   color: string;
   fill: string;
   title: string;
   yLabel: string;
 }
 
-export const GenericDiagram: React.FC<DiagramProps> = ({ data, color, fill, title, yLabel }) => {
+// Envelope band (maximum and minimum) with the governing combination drawn over it
+export const GenericDiagram: React.FC<DiagramProps> = ({ data, envelope, color, fill, title, yLabel }) => {
   // Format data for Recharts (x needs to be string/number that Recharts likes)
-  const chartData = data.map(d => ({ x: d.x.toFixed(2), value: d.val }));
+  const chartData = data.map((d, k) => ({ x: d.x.toFixed(2), value: d.val, max: envelope[k].max, min: envelope[k].min }));
 
   return (
     <div className="h-64 w-full bg-white p-4 rounded-lg shadow-sm border border-slate-200">
       <h3 className="text-sm font-semibold text-slate-500 mb-2">{title}</h3>
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={chartData}>
+        <ComposedChart data={chartData}>
           <CartesianGrid strokeDasharray="3 3" vertical={false} />
           <XAxis dataKey="x" label={{ value: 'Span (m)', position: 'insideBottomRight', offset: -5 }} />
           <YAxis label={{ value: yLabel, angle: -90, position: 'insideLeft' }} />
           <Tooltip formatter={(value: number) => value.toFixed(2)} />
+          <Legend verticalAlign="top" height={24} />
           <ReferenceLine y={0} stroke="#000" />
-          <Area type="monotone" dataKey="value" stroke={color} fill={fill} />
-        </AreaChart>
+          <Area type="monotone" dataKey="max" name="Envelope max" stroke={color} fill={fill} />
+          <Area type="monotone" dataKey="min" name="Envelope min" stroke={color} fill={fill} strokeDasharray="2 2" />
+          <Line type="monotone" dataKey="value" name="Governing" stroke="#334155" dot={false} strokeDasharray="5 3" />
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export const MomentDiagram: React.FC<{ data: {x:number, val:number}[] }> = ({ data }) => {
-  return <GenericDiagram data={data} color="#3b82f6" fill="#bfdbfe" title="Bending Moment Diagram (kNm)" yLabel="Moment" />;
+type ChartProps = { data: { x: number; val: number }[]; envelope: { x: number; max: number; min: number }[] };
+
+export const MomentDiagram: React.FC<ChartProps> = ({ data, envelope }) => {
+  return <GenericDiagram data={data} envelope={envelope} color="#3b82f6" fill="#bfdbfe" title="Bending Moment Envelope (kNm)" yLabel="Moment" />;
+};
+
+export const ShearDiagram: React.FC<ChartProps> = ({ data, envelope }) => {
+  return <GenericDiagram data={data} envelope={envelope} color="#ef4444" fill="#fca5a5" title="Shear Force Envelope (kN)" yLabel="Shear" />;
 };
 
-export const ShearDiagram: React.FC<{ data: {x:number, val:number}[] }> = ({ data }) => {
-  return <GenericDiagram data={data} color="#ef4444" fill="#fca5a5" title="Shear Force Diagram (kN)" yLabel="Shear" />;
+// Deflected shape, drawn downward (values are downward-positive mm)
+export const DeflectionDiagram: React.FC<{ data: { x: number; shortTerm: number; longTerm: number }[] }> = ({ data }) => {
+  const chartData = data.map(d => ({ x: d.x.toFixed(2), shortTerm: -d.shortTerm, longTerm: -d.longTerm }));
+
+  return (
+    <div className="h-64 w-full bg-white p-4 rounded-lg shadow-sm border border-slate-200">
+      <h3 className="text-sm font-semibold text-slate-500 mb-2">Deflected Shape (mm, Service Loads)</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="x" label={{ value: 'Span (m)', position: 'insideBottomRight', offset: -5 }} />
+          <YAxis label={{ value: 'Deflection', angle: -90, position: 'insideLeft' }} />
+          <Tooltip formatter={(value: number) => Math.abs(value).toFixed(2)} />
+          <Legend verticalAlign="top" height={24} />
+          <ReferenceLine y={0} stroke="#000" />
+          <Line type="monotone" dataKey="shortTerm" name="Short-term" stroke="#8b5cf6" dot={false} />
+          <Line type="monotone" dataKey="longTerm" name="Long-term (creep + shrinkage)" stroke="#db2777" dot={false} strokeDasharray="5 3" />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
 };
 
 interface BeamLoadProps {
-  span: number;
-  udl: number;
-  pointLoads: { value: number; distance: number }[];
+  spans: SpanLoadResult[];
+  supports: SupportCondition[]; // One per support, left to right
 }
 
-export const BeamLoadDiagram: React.FC<BeamLoadProps> = ({ span, udl, pointLoads }) => {
+// Draws the support symbol whose top sits on the beam soffit at (x, y)
+export const SupportSymbol: React.FC<{ x: number; y: number; type: SupportCondition; side: 'left' | 'right' | 'middle' }> = ({ x, y, type, side }) => {
+  if (type === 'Free') return null;
+
+  if (type === 'Fixed') {
+    // Wall at the beam end with hatching on the outside face
+    const dir = side === 'right' ? 1 : -1;
+    return (
+      <g>
+        <line x1={x} y1={y - 30} x2={x} y2={y + 15} stroke="#475569" strokeWidth="3" />
+        {Array.from({ length: 6 }).map((_, i) => (
+          <line key={i} x1={x} y1={y - 26 + i * 8} x2={x + dir * 8} y2={y - 32 + i * 8} stroke="#475569" strokeWidth="1" />
+        ))}
+      </g>
+    );
+  }
+
+  return (
+    <g>
+      <path d={`M${x} ${y} L${x-10} ${y+15} L${x+10} ${y+15} Z`} fill="#94a3b8" stroke="#475569" strokeWidth="2" />
+      {type === 'Pinned' ? (
+        <circle cx={x} cy={y+18} r="3" fill="none" stroke="#475569" strokeWidth="1" />
+      ) : (
+        <>
+          <circle cx={x-7} cy={y+20} r="3" fill="none" stroke="#475569" strokeWidth="1" />
+          <circle cx={x+7} cy={y+20} r="3" fill="none" stroke="#475569" strokeWidth="1" />
+        </>
+      )}
+    </g>
+  );
+};
+
+export const BeamLoadDiagram: React.FC<BeamLoadProps> = ({ spans, supports }) => {
   // SVG drawing logic
   const width = 400;
   const beamY = 80;
   const paddingX = 20;
   const drawWidth = width - 2 * paddingX;
+  const totalLength = spans.reduce((sum, s) => sum + s.length, 0);
   
-  const getX = (dist: number) => paddingX + (dist / span) * drawWidth;
+  const getX = (dist: number) => paddingX + (dist / totalLength) * drawWidth;
+
+  // Global position of each span's left support
+  const starts = spans.map((_, i) => spans.slice(0, i).reduce((sum, s) => sum + s.length, 0));
+  const supportXs = [...starts, totalLength].map(getX);
+
+  // Factored line load profile, sampled just inside each span so segment ends are not double counted
+  const samplesPerSpan = 40;
+  const intensityAt = (span: SpanLoadResult, x: number) => span.factoredLoads.reduce((w, seg) => {
+    if (x < seg.start || x >= seg.end) return w;
+    return w + seg.wStart + (seg.wEnd - seg.wStart) * (x - seg.start) / (seg.end - seg.start);
+  }, 0);
+  const profiles = spans.map(span => Array.from({ length: samplesPerSpan + 1 }, (_, i) => {
+    const x = Math.min(Math.max((i / samplesPerSpan) * span.length, 1e-6), span.length - 1e-6);
+    return { x, w: intensityAt(span, x) };
+  }));
+  const maxIntensity = Math.max(0.001, ...profiles.flat().map(p => p.w));
+
+  const loadTop = 20;
+  const loadBase = beamY - 5;
+  const getLoadY = (w: number) => loadBase - (w / maxIntensity) * (loadBase - loadTop);
 
   return (
     <div className="h-40 w-full bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col justify-between">
@@ -61,14 +144,16 @@ export const BeamLoadDiagram: React.FC<BeamLoadProps> = ({ span, udl, pointLoads
            {/* Beam */}
            <rect x={paddingX} y={beamY} width={drawWidth} height="15" fill="#cbd5e1" stroke="#475569" strokeWidth="2" />
            
-           {/* Left Support (Hinge) */}
-           <path d={`${paddingX+5} ${beamY+15} L${paddingX-5} ${beamY+30} L${paddingX+15} ${beamY+30} Z`} fill="#94a3b8" stroke="#475569" strokeWidth="2" />
-           <circle cx={paddingX+5} cy={beamY+33} r="3" fill="none" stroke="#475569" strokeWidth="1" />
-           
-           {/* Right Support (Roller) */}
-           <path d={`${width-paddingX-5} ${beamY+15} L${width-paddingX-15} ${beamY+30} L${width-paddingX+5} ${beamY+30} Z`} fill="#94a3b8" stroke="#475569" strokeWidth="2" />
-           <circle cx={width-paddingX-12} cy={beamY+35} r="3" fill="none" stroke="#475569" strokeWidth="1" />
-           <circle cx={width-paddingX+2} cy={beamY+35} r="3" fill="none" stroke="#475569" strokeWidth="1" />
+           {/* Supports */}
+           {supportXs.map((sx, i) => (
+             <SupportSymbol
+               key={`support-${i}`}
+               x={sx}
+               y={beamY + 15}
+               type={supports[i]}
+               side={i === 0 ? 'left' : (i === supportXs.length - 1 ? 'right' : 'middle')}
+             />
+           ))}
            
            {/* UDL Arrows & Label */}
            <defs>
@@ -78,54 +163,97 @@ export const BeamLoadDiagram: React.FC<BeamLoadProps> = ({ span, udl, pointLoads
               <marker id="arrowheadBlue" markerWidth="6" markerHeight="4" refX="0" refY="2" orient="auto">
                 <polygon points="0 0, 6 2, 0 4" fill="#3b82f6" />
               </marker>
+              <marker id="arrowheadPurple" markerWidth="6" markerHeight="4" refX="0" refY="2" orient="auto">
+                <polygon points="0 0, 6 2, 0 4" fill="#9333ea" />
+              </marker>
            </defs>
            
-           {/* UDL Line */}
-           <line x1={paddingX} y1="20" x2={width-paddingX} y2="20" stroke="#ef4444" strokeWidth="2" />
-           <text x={width/2} y="15" textAnchor="middle" className="text-xs fill-red-600 font-bold">
-             UDL = {udl.toFixed(2)} kN/m
-           </text>
-           
-           {/* UDL Individual Arrows */}
-           {Array.from({ length: 9 }).map((_, i) => (
-             <line 
-                key={i} 
-                x1={paddingX + (i * (drawWidth/8))} 
-                y1="20" 
-                x2={paddingX + (i * (drawWidth/8))} 
-                y2={beamY - 5} 
-                stroke="#ef4444" 
-                strokeWidth="1.5" 
-                markerEnd="url(#arrowhead)" 
-             />
-           ))}
-
-           {/* Point Loads */}
-           {pointLoads.map((pl, idx) => {
-             const xPos = getX(pl.distance);
+           {spans.map((span, si) => {
+             const x1 = supportXs[si];
+             const x2 = supportXs[si + 1];
+             const profile = profiles[si];
+             const peak = Math.max(...profile.map(p => p.w));
+             const arrowStep = Math.max(1, Math.round(samplesPerSpan / Math.max(2, Math.round(8 * span.length / totalLength))));
+             const outline = [
+               `${x1},${loadBase}`,
+               ...profile.map(p => `${getX(starts[si] + p.x)},${getLoadY(p.w)}`),
+               `${x2},${loadBase}`
+             ].join(' ');
              return (
-               <g key={idx}>
-                 <line 
-                   x1={xPos} y1="35" 
-                   x2={xPos} y2={beamY - 5} 
-                   stroke="#3b82f6" 
-                   strokeWidth="3" 
-                   markerEnd="url(#arrowheadBlue)" 
-                 />
-                 <text x={xPos} y="30" textAnchor="middle" className="text-xs fill-blue-600 font-bold">
-                   {pl.value.toFixed(1)} kN
+               <g key={`span-${si}`}>
+                 {/* Load Profile */}
+                 <polygon points={outline} fill="#fecaca" fillOpacity="0.5" stroke="#ef4444" strokeWidth="2" />
+                 <text x={(x1 + x2) / 2} y="15" textAnchor="middle" className="text-xs fill-red-600 font-bold">
+                   {spans.length > 1 ? peak.toFixed(1) : `w,max = ${peak.toFixed(2)}`} kN/m
+                 </text>
+
+                 {/* Load Arrows, scaled to the local intensity */}
+                 {profile.filter((_, i) => i % arrowStep === 0 || i === samplesPerSpan).map((p, i) => (
+                   loadBase - getLoadY(p.w) > 6 && (
+                     <line 
+                        key={i} 
+                        x1={getX(starts[si] + p.x)} 
+                        y1={getLoadY(p.w)} 
+                        x2={getX(starts[si] + p.x)} 
+                        y2={loadBase} 
+                        stroke="#ef4444" 
+                        strokeWidth="1.5" 
+                        markerEnd="url(#arrowhead)" 
+                     />
+                   )
+                 ))}
+
+                 {/* Point Loads */}
+                 {span.factoredPointLoads.map((pl, idx) => {
+                   const xPos = getX(starts[si] + pl.distance);
+                   return (
+                     <g key={idx}>
+                       <line 
+                         x1={xPos} y1="35" 
+                         x2={xPos} y2={beamY - 5} 
+                         stroke="#3b82f6" 
+                         strokeWidth="3" 
+                         markerEnd="url(#arrowheadBlue)" 
+                       />
+                       <text x={xPos} y="30" textAnchor="middle" className="text-xs fill-blue-600 font-bold">
+                         {pl.value.toFixed(1)} kN
+                       </text>
+                     </g>
+                   );
+                 })}
+
+                 {/* Applied Moments: arc drawn over the top, arrow shows the sense */}
+                 {span.factoredPointMoments.map((pm, idx) => {
+                   const xPos = getX(starts[si] + pm.distance);
+                   const r = 10;
+                   const cy = beamY + 7;
+                   const [from, to] = pm.value >= 0 ? [xPos - r, xPos + r] : [xPos + r, xPos - r];
+                   return (
+                     <g key={`m-${idx}`}>
+                       <path
+                         d={`M ${from} ${cy} A ${r} ${r} 0 0 ${pm.value >= 0 ? 1 : 0} ${to} ${cy}`}
+                         fill="none"
+                         stroke="#9333ea"
+                         strokeWidth="2"
+                         markerEnd="url(#arrowheadPurple)"
+                       />
+                       <text x={xPos} y={cy - r - 4} textAnchor="middle" className="text-[10px] fill-purple-600 font-bold">
+                         {Math.abs(pm.value).toFixed(1)} kNm
+                       </text>
+                     </g>
+                   );
+                 })}
+
+                 {/* Span Label */}
+                 <line x1={x1} y1={beamY+35} x2={x1} y2={beamY+45} stroke="#94a3b8" />
+                 <line x1={x2} y1={beamY+35} x2={x2} y2={beamY+45} stroke="#94a3b8" />
+                 <line x1={x1} y1={beamY+40} x2={x2} y2={beamY+40} stroke="#94a3b8" />
+                 <text x={(x1 + x2) / 2} y={beamY+55} textAnchor="middle" className="text-xs fill-slate-500">
+                   {spans.length > 1 ? `L${si + 1}` : 'L'} = {span.length} m
                  </text>
                </g>
              );
            })}
-
-           {/* Span Label */}
-           <line x1={paddingX} y1={beamY+35} x2={paddingX} y2={beamY+45} stroke="#94a3b8" />
-           <line x1={width-paddingX} y1={beamY+35} x2={width-paddingX} y2={beamY+45} stroke="#94a3b8" />
-           <line x1={paddingX} y1={beamY+40} x2={width-paddingX} y2={beamY+40} stroke="#94a3b8" />
-           <text x={width/2} y={beamY+55} textAnchor="middle" className="text-xs fill-slate-500">
-             L = {span} m
-           </text>
         </svg>
       </div>
     </div>
@@ -0,0 +1,34 @@
+// Design engine without the user interface: loads, analysis and design of a beam, and the reports,
+// schedules and files built from them. Nothing here uses React or the browser, so scripts and
+// other tools can import it directly or run it through the rcc-beam command (cli/rcc-beam.ts).
+//
+//   const inputs = { ...DEFAULT_INPUTS, beamClearSpan: 5.5, beamDepth: 500 };
+//   const loads = calculateLoads(inputs);
+//   const design = designBeam(inputs, analyzeBeam(inputs, loads));
+//   if (!designPasses(design)) ...
+//
+// A cantilever is in tension at the top, so its span / depth ratio, shear and deflection use the
+// support steel, and design.tensionFace is 'Top':
+//
+//   const cantilever = { ...DEFAULT_INPUTS, beamClearSpan: 2.5, leftSupport: 'Fixed', rightSupport: 'Free' } as const;
+//   const result = designBeam(cantilever, analyzeBeam(cantilever, calculateLoads(cantilever)));
+//   console.log(result.supportSteel?.barArrangement.description, result.actualLbyD, result.allowableLbyD);
+
+export type * from './types';
+
+export { analyzeBeam, calculateLoads, designBeam, getSpans, getSupportConditions, CONCRETE_DENSITY } from './utils/rccCalculations';
+export { DEFAULT_INPUTS } from './utils/defaultInputs';
+export { DESIGN_CODES, getDesignCode } from './utils/designCodes';
+export { designPasses, getUtilisation, getScheduleRows, getLoadRows, getScheduleSheets, toCsv, parseCsv } from './utils/schedule';
+export { buildCalculationReport, reportToMarkdown } from './utils/calculationReport';
+export { getBarBendingSchedule, getBarBendingRows } from './utils/barBendingSchedule';
+export { DEFAULT_RATES, getBeamQuantities, getBeamCost, getQuantityRows } from './utils/quantities';
+export { getDefaultOptimiserOptions, optimiseSection } from './utils/optimiser';
+export { createProjectFile, parseProjectFile, ProjectFileError } from './utils/projectFile';
+export { parseBeamList, designBeamList, BeamListError } from './utils/beamList';
+export type { BeamListRow, BeamListResult } from './utils/beamList';
+export { validateInputs, hasErrors, getFieldIssues } from './utils/validation';
+export { readDesignFile } from './utils/designFile';
+export type { DesignFile } from './utils/designFile';
+export { createWorkbook } from './utils/xlsx';
+export type { CellValue, Sheet } from './utils/xlsx';
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
 import { DesignInputs, LoadResult, AnalysisResult, DesignResult } from '../types';
+import { getDesignCode } from '../utils/designCodes';
 
 export const generateDesignReport = async (
   inputs: DesignInputs,
@@ -12,6 +13,7 @@ export const generateDesignReport = async (
     if (!apiKey) throw new Error("API Key not found");
 
     const ai = new GoogleGenAI({ apiKey });
+    const code = getDesignCode(inputs.designCode);
     
     // Helper to describe slab config
     const describeSlab = (side: string, config: typeof inputs.leftSlab) => {
@@ -21,34 +23,56 @@ export const generateDesignReport = async (
     };
 
     const pointLoadsDesc = inputs.pointLoads.length > 0 
-      ? inputs.pointLoads.map(p => `${p.value}kN at ${p.distance}m`).join(', ')
+      ? inputs.pointLoads.map(p => `${p.value}kN (${p.loadCase}) at ${p.distance}m`).join(', ')
+      : "None";
+
+    const lineLoadsDesc = inputs.lineLoads.length > 0
+      ? inputs.lineLoads.map(l => `${l.wStart}-${l.wEnd}kN/m (${l.loadCase}) from ${l.start}m to ${l.end}m`).join(', ')
+      : "None";
+
+    const pointMomentsDesc = inputs.pointMoments.length > 0
+      ? inputs.pointMoments.map(m => `${m.value}kNm clockwise (${m.loadCase}) at ${m.distance}m`).join(', ')
       : "None";
 
     const context = `
-    You are a Senior Structural Engineer. Review the following Reinforced Concrete Beam design.
+    You are a Senior Structural Engineer. Review the following Reinforced Concrete Beam design to ${code.name}.
     
     **Input Parameters:**
-    - Beam Clear Span: ${inputs.beamClearSpan}m
+    - Beam Clear Span: ${inputs.beamClearSpan}m${inputs.additionalSpans.length > 0 ? ` (continuous beam, further spans: ${inputs.additionalSpans.map(s => `${s.length}m`).join(', ')})` : ''}
     - Beam Size: ${inputs.beamWidth}mm x ${inputs.beamDepth}mm
+    - End Conditions: Left ${inputs.leftSupport}, Right ${inputs.rightSupport}
     - Slab Config:
       - ${describeSlab('Left', inputs.leftSlab)}
       - ${describeSlab('Right', inputs.rightSlab)}
     - Point Loads: ${pointLoadsDesc}
+    - Partial/Varying Loads: ${lineLoadsDesc}
+    - Applied Moments: ${pointMomentsDesc}
     - Slab Loads: Thickness=${inputs.slabThickness}mm, Live=${inputs.liveLoad}kN/m2, Finish=${inputs.floorFinish}kN/m2
+    - Lateral End Moments: Wind=${inputs.windMoment}kNm, Seismic=${inputs.seismicMoment}kNm
+    - Live Load Arrangement: ${inputs.liveLoadPatterning ? 'Patterned (all, alternate and adjacent spans, half spans)' : 'All spans loaded'}, Moving Point Load=${inputs.movingPointLoad > 0 ? `${inputs.movingPointLoad}kN (influence lines)` : 'None'}
     - Wall Load: Height=${inputs.wallHeight}m, Thick=${inputs.wallThickness}mm, Density=${inputs.masonryDensity}kN/m3
-    - Materials: Concrete M${inputs.fck}, Steel Fe${inputs.fy}
+    - Materials: Concrete ${code.gradeLabel(inputs.fck)}, Steel fy ${inputs.fy} N/mm2
     
     **Calculated Results:**
-    - Total Design UDL: ${loads.totalDesignUDL.toFixed(2)} kN/m (Factored)
-    - Max Moment (Mu): ${analysis.maxMoment.toFixed(2)} kNm
+    - Total Design UDL: ${loads.totalDesignUDL.toFixed(2)} kN/m (Factored, ${loads.primaryCombination})
+    - Governing Load Combination: ${analysis.governingCombination} (${analysis.governingLiveLoadArrangement})
+    - Max Moment (Mu): ${analysis.maxMoment.toFixed(2)} kNm (Sagging ${analysis.maxSaggingMoment.toFixed(2)}, Hogging ${analysis.maxHoggingMoment.toFixed(2)})
     - Max Shear (Vu): ${analysis.maxShear.toFixed(2)} kN
+    - Section: ${design.sectionType === 'Rectangular' ? 'Rectangular' : `${design.sectionType}-Beam, bf=${design.flangeWidth.toFixed(0)}mm, Df=${design.flangeDepth}mm, neutral axis in ${design.neutralAxisInFlange ? 'flange' : 'web'}`}
     - Limiting Moment (Mu,lim): ${design.muLim.toFixed(2)} kNm
-    - Status: ${design.isDoublyReinforced ? 'OVER-REINFORCED / DOUBLY REQUIRED' : 'Singly Reinforced'}
+    - Status: ${!design.flexureCheckPassed ? 'FLEXURE CHECK FAILED (steel exceeds 0.04bD, bars do not fit or too little compression steel)' : (design.isDoublyReinforced ? 'Doubly Reinforced' : 'Singly Reinforced')}
     - Required Ast: ${design.astRequired.toFixed(0)} mm2
-    - Provided: ${design.numberOfBars} bars of ${inputs.mainBarDia}mm dia (Total ${design.astProvided.toFixed(0)} mm2)
+    - Compression Steel: ${design.isDoublyReinforced ? `Asc ${design.ascRequired.toFixed(0)} mm2 at fsc ${design.fsc.toFixed(0)} N/mm2, provided ${design.numberOfCompressionBars} bars of ${inputs.topBarDia}mm dia` : `None (${design.numberOfCompressionBars} hanger bars of ${inputs.topBarDia}mm dia)`}
+    - Provided: ${design.barArrangement.description} in ${design.barArrangement.layers.length} layer(s) (Total ${design.astProvided.toFixed(0)} mm2, d = ${design.effectiveDepth.toFixed(0)}mm, clear spacing ${design.barArrangement.spacingCheckPassed ? 'OK' : 'INSUFFICIENT'})
+    - Top Steel over Supports: ${design.supportSteel ? `${design.supportSteel.barArrangement.description} (Required ${design.supportSteel.astRequired.toFixed(0)} mm2 for hogging ${design.supportSteel.moment.toFixed(2)} kNm, ${design.supportSteel.isDoublyReinforced ? 'doubly' : 'singly'} reinforced)` : 'None (no hogging moment)'}
     - Shear Stress (Tv): ${design.tauV} N/mm2
-    - Concrete Shear Capacity (Tc): ${design.tauC} N/mm2
-    - Stirrups: 2-legged ${inputs.stirrupBarDia}mm @ ${design.stirrupSpacing}mm c/c
+    - Concrete Shear Capacity (Tc): ${design.tauC} N/mm2 (${design.tauCReference}), Tc,max: ${design.tauCMax} N/mm2
+    - Stirrups: 2-legged ${design.torsion.tu > 0 ? 'closed ' : ''}${inputs.stirrupBarDia}mm @ ${design.stirrupSpacing}mm c/c
+    - Torsion (Cl 41): ${design.torsion.tu > 0 ? `Tu ${design.torsion.tu.toFixed(2)} kNm, Mt ${design.torsion.mt.toFixed(2)} kNm, Ve ${design.torsion.ve.toFixed(2)} kN (tau_ve ${design.torsion.tauVe.toFixed(2)} N/mm2), Me1 ${design.torsion.me1.toFixed(2)} kNm, Me2 ${design.torsion.me2.toFixed(2)} kNm, side face bars ${design.torsion.sideFaceBars} per face` : 'None'}
+    - Computed Deflection (Annex C): ${design.computedDeflection.spans.map((sd, i) => `Span ${i + 1} total ${sd.total.toFixed(1)}mm (limit ${sd.totalLimit.toFixed(1)}mm), after partitions ${sd.afterPartitions.toFixed(1)}mm (limit ${sd.afterPartitionsLimit.toFixed(1)}mm)`).join('; ')}
+    - Crack Width (Annex F): ${design.crackWidthChecks.map(c => `${c.face} face ${c.crackWidth.toFixed(3)}mm at service moment ${c.serviceMoment.toFixed(2)} kNm (fs ${c.serviceSteelStress.toFixed(0)} N/mm2)`).join('; ')}, limit ${design.crackWidthLimit}mm
+    - Development Length: Ld ${design.curtailment.developmentLength}mm (tau_bd ${design.curtailment.bondStress} N/mm2), anchorage checks ${design.curtailment.passed ? 'satisfied' : 'NOT satisfied'}
+    - Bar Curtailment: ${design.curtailment.barGroups.map(g => `${g.label} ${g.count}-T${g.diameter} from ${g.start.toFixed(2)}m to ${g.end.toFixed(2)}m`).join('; ')}
     
     **Task:**
     1. Provide a professional summary of the design adequacy.
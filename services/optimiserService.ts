@@ -0,0 +1,53 @@
+// Runs the section optimiser in a Web Worker so a long search does not freeze the page. The search
+// reports its progress and can be cancelled, which stops the worker.
+
+import { DesignInputs, OptimiserOptions, OptimiserResult, RateTable } from '../types';
+
+export interface OptimiserRequest {
+  inputs: DesignInputs;
+  options: OptimiserOptions;
+  rates: RateTable;
+}
+
+export type OptimiserMessage =
+  | { type: 'progress'; searched: number; total: number }
+  | { type: 'result'; result: OptimiserResult };
+
+export interface OptimiserRun {
+  result: Promise<OptimiserResult | null>; // null when cancelled
+  cancel: () => void;
+}
+
+export const runOptimiser = (
+  request: OptimiserRequest,
+  onProgress: (fraction: number) => void
+): OptimiserRun => {
+  const worker = new Worker(new URL('./optimiserWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: OptimiserResult | null) => void = () => {};
+
+  const result = new Promise<OptimiserResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<OptimiserMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.total > 0 ? message.searched / message.total : 1);
+        return;
+      }
+      worker.terminate();
+      resolve(message.result);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The section optimiser stopped with an error'));
+    };
+  });
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    }
+  };
+};
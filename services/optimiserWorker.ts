@@ -0,0 +1,12 @@
+// Web Worker running the section optimiser off the page thread (started by services/optimiserService.ts)
+
+import { optimiseSection } from '../utils/optimiser';
+import { OptimiserMessage, OptimiserRequest } from './optimiserService';
+
+const send = (message: OptimiserMessage) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<OptimiserRequest>) => {
+  const { inputs, options, rates } = event.data;
+  const result = optimiseSection(inputs, options, rates, (searched, total) => send({ type: 'progress', searched, total }));
+  send({ type: 'result', result });
+});
@@ -0,0 +1,119 @@
+// Browser persistence of the design schedule. Saved designs are kept in IndexedDB, falling back to
+// localStorage where IndexedDB cannot be opened (e.g. some private browsing modes). The rate table for
+// cost estimates is a single small record and always lives in localStorage.
+//
+// Failures to read, save or delete designs are thrown as ScheduleStorageError for the page to show.
+
+import { RateTable, SavedDesign } from '../types';
+import { restoreSavedDesigns } from '../utils/projectFile';
+
+const DB_NAME = 'rcc-beam-designer';
+const DB_VERSION = 1;
+const STORE_NAME = 'savedDesigns';
+const LOCAL_STORAGE_KEY = 'rcc-beam-designer.savedDesigns';
+const RATES_KEY = 'rcc-beam-designer.rates';
+
+export class ScheduleStorageError extends Error {
+  constructor(message: string, cause: unknown) {
+    super(`${message}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ScheduleStorageError';
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return database;
+};
+
+const hasIndexedDb = async () => {
+  try {
+    await openDatabase();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Runs one request in its own transaction and resolves with the result once it commits
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const readLocal = (): SavedDesign[] => JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) ?? '[]');
+const writeLocal = (designs: SavedDesign[]) => localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(designs));
+
+// Stored designs are checked, completed with inputs added since they were saved and recalculated;
+// designs that cannot be read are left out and reported in issues
+export const loadSchedule = async (): Promise<{ designs: SavedDesign[]; issues: string[] }> => {
+  let stored: SavedDesign[];
+  try {
+    stored = await hasIndexedDb()
+      ? await withStore('readonly', store => store.getAll() as IDBRequest<SavedDesign[]>)
+      : readLocal();
+  } catch (error) {
+    console.error("Schedule Storage Error:", error);
+    throw new ScheduleStorageError('Saved designs could not be read', error);
+  }
+  return restoreSavedDesigns(Array.isArray(stored) ? stored : []);
+};
+
+// Adds the design to the schedule, or replaces the entry with the same id
+export const saveScheduleEntry = async (design: SavedDesign): Promise<void> => {
+  try {
+    if (await hasIndexedDb()) {
+      await withStore('readwrite', store => store.put(design));
+    } else {
+      writeLocal([...readLocal().filter(d => d.id !== design.id), design]);
+    }
+  } catch (error) {
+    console.error("Schedule Storage Error:", error);
+    throw new ScheduleStorageError(`${design.name} could not be saved`, error);
+  }
+};
+
+export const deleteScheduleEntry = async (id: string): Promise<void> => {
+  try {
+    if (await hasIndexedDb()) {
+      await withStore('readwrite', store => store.delete(id));
+    } else {
+      writeLocal(readLocal().filter(d => d.id !== id));
+    }
+  } catch (error) {
+    console.error("Schedule Storage Error:", error);
+    throw new ScheduleStorageError('The design could not be deleted', error);
+  }
+};
+
+export const loadRateTable = (): Partial<RateTable> => {
+  try {
+    return JSON.parse(localStorage.getItem(RATES_KEY) ?? '{}');
+  } catch (error) {
+    console.error("Schedule Storage Error:", error);
+    return {};
+  }
+};
+
+export const saveRateTable = (rates: RateTable) => {
+  try {
+    localStorage.setItem(RATES_KEY, JSON.stringify(rates));
+  } catch (error) {
+    console.error("Schedule Storage Error:", error);
+  }
+};
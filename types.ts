@@ -9,9 +9,27 @@ export enum ConcreteGrade {
   M25 = 25,
   M30 = 30,
   M35 = 35,
+  M40 = 40,
+  M45 = 45,
+  M50 = 50,
+  M55 = 55,
+  M60 = 60,
 }
 
+export type DesignCodeId = 'IS456' | 'ACI318' | 'EC2';
 export type SlabType = 'OneWay' | 'TwoWay';
+export type SupportCondition = 'Pinned' | 'Roller' | 'Fixed' | 'Free';
+export type SectionType = 'Rectangular' | 'T' | 'L';
+export type LoadCase = 'Dead' | 'Live';
+
+// Partial safety factors applied to each load component (IS 456 Table 18)
+export interface LoadCombination {
+  id: string;
+  name: string;
+  dead: number;
+  live: number;
+  lateral: number; // Applied to wind or seismic moments, considered in both directions
+}
 export type BeamSupportEdge = 'Short' | 'Long'; // For TwoWay: Short Edge -> Triangular Load, Long Edge -> Trapezoidal
 
 export interface SlabSideConfig {
@@ -26,9 +44,57 @@ export interface PointLoad {
   id: string;
   value: number; // kN (Characteristic)
   distance: number; // m from left support
+  loadCase: LoadCase;
+}
+
+// Partial UDL (wStart = wEnd) or linearly varying load over part of the span
+export interface LineLoad {
+  id: string;
+  start: number; // m from left support
+  end: number; // m from left support
+  wStart: number; // kN/m (Characteristic) at start
+  wEnd: number; // kN/m (Characteristic) at end
+  loadCase: LoadCase;
+}
+
+// Concentrated moment, e.g. from an eccentric connection
+export interface PointMoment {
+  id: string;
+  value: number; // kNm (Characteristic), clockwise positive
+  distance: number; // m from left support
+  loadCase: LoadCase;
+}
+
+// Cantilever slab (chajja) projecting from one face along the full length of the beam
+export interface CantileverSlabConfig {
+  enabled: boolean;
+  projection: number; // m, from the beam face
+  thickness: number; // mm
+}
+
+// Torsion (IS 456 Cl 41): a torque applied directly, and / or derived from a cantilever slab
+export interface TorsionInputs {
+  torsionalMoment: number; // kNm (Characteristic) at the supports, e.g. from an eccentric connection
+  loadCase: LoadCase;
+  cantileverSlab: CantileverSlabConfig;
+}
+
+// One span of a continuous beam. Field names mirror the primary span fields on DesignInputs.
+export interface BeamSpan {
+  id: string;
+  length: number; // m
+  leftSlab: SlabSideConfig;
+  rightSlab: SlabSideConfig;
+  pointLoads: PointLoad[];
+  lineLoads: LineLoad[];
+  pointMoments: PointMoment[];
+  wallHeight: number; // m
+  wallThickness: number; // mm
 }
 
 export interface DesignInputs {
+  designCode: DesignCodeId;
+
   // Slab Config
   slabThickness: number; // mm
   liveLoad: number; // kN/m2
@@ -37,30 +103,89 @@ export interface DesignInputs {
   leftSlab: SlabSideConfig;
   rightSlab: SlabSideConfig;
   
-  // Point Loads
+  // Point Loads, Partial / Varying Loads and Applied Moments
   pointLoads: PointLoad[];
+  lineLoads: LineLoad[];
+  pointMoments: PointMoment[];
 
   // Beam
   beamWidth: number; // mm
   beamDepth: number; // mm
   beamClearSpan: number; // m (Length of beam)
-  effectiveCover: number; // mm
+  effectiveCover: number; // mm, assumed for the analysis; the design uses the actual bar centroid
+  clearCover: number; // mm, nominal cover to the stirrups (IS 456 Cl 26.4)
+  supportWidth: number; // mm, width of the supporting columns / walls (for anchorage)
+  crackWidthLimit: number; // mm, 0.3 general, 0.2 / 0.1 for aggressive exposure and liquid-retaining structures
+  leftSupport: SupportCondition;
+  rightSupport: SupportCondition; // Intermediate supports of a continuous beam are always rollers
+  designAsFlanged: boolean; // Use monolithic slabs as flanges (T-beam both sides, L-beam one side)
   
+  // Torsion
+  torsion: TorsionInputs;
+
   // Wall
   wallHeight: number; // m
   wallThickness: number; // mm
   masonryDensity: number; // kN/m3
+
+  // Lateral Loads: beam end moments from the frame analysis (kNm, reversible)
+  windMoment: number;
+  seismicMoment: number;
+  loadCombinations: LoadCombination[];
+
+  // Live Load Arrangement
+  liveLoadPatterning: boolean; // Also load alternate / adjacent spans and half spans (IS 456 Cl 22.4.1)
+  movingPointLoad: number; // kN, characteristic live point load at any position along the beam (influence lines), 0 for none
+
+  // Continuous Beam: spans continuing to the right of the primary span above
+  additionalSpans: BeamSpan[];
   
   // Materials
   fck: ConcreteGrade;
   fy: SteelGrade;
   mainBarDia: number; // mm
+  topBarDia: number; // mm (hanger / compression bars)
   stirrupBarDia: number; // mm
 }
 
+// Linearly varying line load over part of a span
+export interface DistributedLoadSegment {
+  start: number; // m from left support of the span
+  end: number; // m from left support of the span
+  wStart: number; // kN/m at start
+  wEnd: number; // kN/m at end
+}
+
+export interface SpanLoadResult {
+  length: number; // m
+  udlFromLeftSlab: number; // kN/m (Equivalent UDL, for reporting)
+  udlFromRightSlab: number; // kN/m (Equivalent UDL, for reporting)
+  wallLoad: number; // kN/m
+  deadUDL: number; // kN/m (Service, equivalent UDL): slab self weight, finishes, beam and wall
+  liveUDL: number; // kN/m (Service, equivalent UDL): slab imposed load
+  deadLoads: DistributedLoadSegment[]; // Service, actual slab shapes plus partial / varying loads
+  liveLoads: DistributedLoadSegment[]; // Service
+  factoredLoads: DistributedLoadSegment[]; // Dead and live segments factored by the primary combination
+  pointLoads: { value: number; distance: number; loadCase: LoadCase }[]; // kN (Service), m from left support of the span
+  totalDesignUDL: number; // kN/m (Equivalent UDL, factored by the primary combination)
+  factoredPointLoads: { value: number; distance: number }[]; // kN, m from left support of the span (Factored)
+  pointMoments: { value: number; distance: number; loadCase: LoadCase }[]; // kNm (Service), clockwise positive
+  factoredPointMoments: { value: number; distance: number }[]; // kNm (Factored)
+}
+
+// Cantilever slab loads per metre run of beam (Service)
+export interface CantileverSlabLoad {
+  deadUDL: number; // kN/m, self weight and finishes
+  liveUDL: number; // kN/m
+  deadTorsion: number; // kNm/m, about the beam centreline
+  liveTorsion: number; // kNm/m
+}
+
 export interface LoadResult {
   slabSelfWeight: number; // kN/m2
   totalSlabLoadArea: number; // kN/m2
+  slabDeadLoadArea: number; // kN/m2 (self weight + finishes)
+  primaryCombination: string; // Combination used for the factored loads shown on the loading diagram
   udlFromLeftSlab: number; // kN/m
   udlFromRightSlab: number; // kN/m
   udlTotalSlab: number; // kN/m
@@ -68,42 +193,357 @@ export interface LoadResult {
   wallLoad: number; // kN/m
   totalDesignUDL: number; // kN/m (Factored)
   factoredPointLoads: { value: number; distance: number }[]; // kN, m (Factored)
+  cantileverSlab: CantileverSlabLoad;
+  spanLoads: SpanLoadResult[]; // All spans, primary span first
+}
+
+// End actions are envelope values over all load combinations
+export interface SpanAnalysisResult {
+  start: number; // m, global position of left support
+  length: number; // m
+  leftMoment: number; // kNm (sagging positive, hogging negative)
+  rightMoment: number; // kNm
+  maxSaggingMoment: number; // kNm
+  leftShear: number; // kN
+  rightShear: number; // kN
+}
+
+export interface CombinationResult {
+  name: string;
+  maxSaggingMoment: number; // kNm
+  maxHoggingMoment: number; // kNm (magnitude)
+  maxShear: number; // kN
 }
 
 export interface AnalysisResult {
-  maxMoment: number; // kNm
+  maxMoment: number; // kNm (absolute, sagging or hogging)
   maxShear: number; // kN
+  maxTorsion: number; // kNm, factored torque at the supports (envelope)
+  maxSaggingMoment: number; // kNm
+  maxHoggingMoment: number; // kNm (magnitude)
+  spans: SpanAnalysisResult[];
+  supportReactions: number[]; // kN, maximum over all combinations, one per support from left to right
+  supportMoments: number[]; // kNm, one per support (hogging negative; non-zero at fixed and interior supports)
+  isStable: boolean; // false when the support conditions form a mechanism
   effectiveDepth: number; // mm
-  momentData: { x: number; val: number }[]; // For charts
-  shearData: { x: number; val: number }[]; // For charts
+  momentData: { x: number; val: number }[]; // For charts (governing combination and live load arrangement)
+  shearData: { x: number; val: number }[]; // For charts (governing combination and live load arrangement)
+  momentEnvelope: { x: number; max: number; min: number }[]; // Over all combinations, live load arrangements and moving load positions
+  shearEnvelope: { x: number; max: number; min: number }[];
+  combinationResults: CombinationResult[];
+  governingCombination: string;
+  governingLiveLoadArrangement: string; // Live load pattern of the governing combination
+  serviceMomentData: { x: number; val: number }[]; // Unfactored DL + LL
+  serviceMoment: number; // kNm (absolute), unfactored DL + LL
+  permanentMomentData: { x: number; val: number }[]; // Unfactored DL (sustained load for creep)
+}
+
+// One horizontal row of tension bars
+export interface BarLayer {
+  bars: number[]; // mm, diameters left to right
+  y: number; // mm, bar centres above the soffit
+  clearSpacing: number; // mm, clear gap between adjacent bars
+}
+
+export interface BarArrangement {
+  description: string; // e.g. 2-T16 + 2-T12
+  bars: number[]; // mm, diameters with the corner bars first
+  layers: BarLayer[];
+  area: number; // mm2
+  centroid: number; // mm above the soffit
+  minClearSpacing: number; // mm, IS 456 Cl 26.3.2 (a)
+  layerGap: number; // mm, clear gap between layers (spacer bar diameter), Cl 26.3.2 (b)
+  spacingCheckPassed: boolean;
+}
+
+export type BarFace = 'Top' | 'Bottom';
+
+// A set of identical bars running between two points along the beam
+export interface BarGroup {
+  label: string;
+  face: BarFace;
+  count: number;
+  diameter: number; // mm
+  start: number; // m, global x
+  end: number; // m, global x
+  curtailed: boolean; // Cut off within the span rather than run support to support
+  theoreticalStart: number | null; // m, where the bars are first required
+  theoreticalEnd: number | null; // m, where the bars are last required
+  leftAnchorage: string;
+  rightAnchorage: string;
+}
+
+// IS 456 Cl 26.2.3.3 (c): Ld <= k * M1/V + L0 at simple supports and points of inflection
+export interface AnchorageCheck {
+  location: string;
+  x: number; // m, global x
+  m1: number; // kNm, moment of resistance of the bars continuing to the section
+  v: number; // kN, shear at the section
+  l0: number; // mm, anchorage available beyond the section
+  factor: number; // 1.3 where the bar ends are confined by a compressive reaction
+  available: number; // mm, k * M1/V + L0
+  ld: number; // mm, development length required
+  passed: boolean;
+}
+
+export interface CurtailmentResult {
+  bondStress: number; // N/mm2, tau_bd for deformed bars in tension
+  developmentLength: number; // mm, Ld of the main bars
+  extension: number; // mm, greater of d and 12 bar diameters (Cl 26.2.3.1)
+  barGroups: BarGroup[];
+  anchorageChecks: AnchorageCheck[];
+  passed: boolean;
+}
+
+export interface SpanDeflection {
+  shortTerm: number; // mm, DL + LL with Ec
+  shrinkage: number; // mm
+  creep: number; // mm
+  total: number; // mm
+  totalLimit: number; // mm, span / 250
+  afterPartitions: number; // mm, live load + shrinkage + creep
+  afterPartitionsLimit: number; // mm, lesser of span / 350 and 20 mm
+  passed: boolean;
+}
+
+export interface ComputedDeflectionResult {
+  ec: number; // N/mm2, short-term modulus 5000 sqrt(fck)
+  creepCoefficient: number;
+  crackingMoment: number; // kNm
+  igr: number; // mm4
+  icr: number; // mm4
+  ieff: number; // mm4, under the service moment
+  spans: SpanDeflection[];
+  shape: { x: number; shortTerm: number; longTerm: number }[]; // mm, downward positive
+  passed: boolean;
+}
+
+// IS 456 Cl 41: equivalent shear and moment, closed stirrups and side face steel
+export interface TorsionResult {
+  tu: number; // kNm, factored torque
+  mt: number; // kNm, Tu (1 + D/b) / 1.7
+  me1: number; // kNm, Mu + Mt, designed on the tension face
+  me2: number; // kNm, Mt - Mu on the compression face (0 when Mt <= Mu)
+  ve: number; // kN, Vu + 1.6 Tu / b
+  tauVe: number; // N/mm2
+  b1: number; // mm, centre-to-centre distance between corner bars across the width
+  d1: number; // mm, centre-to-centre distance between corner bars over the depth
+  astCompressionFace: number; // mm2, for Me2
+  sideFaceBars: number; // per face, Cl 26.5.1.3 (beams deeper than 450 mm)
+  sideFaceBarDia: number; // mm
+}
+
+// Crack width at one tension face under the unfactored service moment, IS 456 Annex F
+export interface CrackWidthCheck {
+  face: BarFace; // Bottom under sagging, top over the supports under hogging
+  serviceMoment: number; // kNm
+  serviceSteelStress: number; // N/mm2
+  neutralAxisDepthService: number; // mm, from the compression face
+  crackWidth: number; // mm
+  passed: boolean;
+}
+
+// Top steel over the supports, designed for the largest hogging moment on the web width
+export interface SupportSteelResult {
+  moment: number; // kNm, hogging moment (Me1 = Mu + Mt under torsion)
+  muLim: number; // kNm
+  isDoublyReinforced: boolean;
+  effectiveDepth: number; // mm, from the top face to the centroid of the bars provided
+  astRequired: number; // mm2
+  ascRequired: number; // mm2, bottom steel in compression at the support
+  ascProvided: number; // mm2, bottom bars running into the supports
+  astProvided: number; // mm2
+  barArrangement: BarArrangement; // Layers measured down from the top face
 }
 
 export interface DesignResult {
   muLim: number; // kNm
   isDoublyReinforced: boolean;
+  flexureCheckPassed: boolean; // Bottom and support steel within 0.04bD and fitting at the Cl 26.3.2 spacing
+  sectionType: SectionType;
+  flangeWidth: number; // mm, effective bf (equals web width for rectangular)
+  flangeDepth: number; // mm, Df (0 for rectangular)
+  neutralAxisInFlange: boolean;
+  neutralAxisDepth: number; // mm, xu
+  ast1: number; // mm2, tension steel for min(Mu, MuLim)
+  ast2: number; // mm2, additional tension steel balancing Asc
+  fsc: number; // N/mm2, compression steel design stress
+  ascRequired: number; // mm2
+  numberOfCompressionBars: number; // Top bars (hangers when singly reinforced)
+  ascProvided: number; // mm2
   astRequired: number; // mm2
   ptProvided: number; // %
   numberOfBars: number;
   astProvided: number; // mm2
+  barArrangement: BarArrangement;
+  effectiveDepth: number; // mm, from the centroid of the bars provided
+  supportSteel: SupportSteelResult | null; // null when no support carries a hogging moment
+  tensionFace: BarFace; // Face whose steel the shear and deflection checks use: Top where hogging governs
   
   tauV: number; // N/mm2
   tauC: number; // N/mm2
+  tauCMax: number; // N/mm2, IS 456 Table 20
+  tauCReference: string; // Table 19 row/column used for tauC
   shearReinforcementRequired: boolean;
-  stirrupSpacing: number; // mm
+  stirrupSpacing: number; // mm, closed stirrups designed for shear and torsion
+
+  // Torsion (IS 456 Cl 41)
+  torsion: TorsionResult;
 
   // Deflection Check
   actualLbyD: number;
   basicLbyD: number;
   modificationFactorKt: number;
+  modificationFactorKc: number;
+  reductionFactorKf: number; // Flanged beams (1.0 for rectangular)
   allowableLbyD: number;
   deflectionCheckPassed: boolean;
+  deflectionReference: string; // Clause used, and whether the ratio is on d or the overall depth
+
+  // Crack Width (IS 456 Annex F), of the face with the widest crack
+  serviceSteelStress: number; // N/mm2, under the unfactored service moment
+  neutralAxisDepthService: number; // mm, elastic cracked section
+  crackWidth: number; // mm
+  crackWidthLimit: number; // mm
+  crackWidthCheckPassed: boolean; // Every face checked
+  crackWidthChecks: CrackWidthCheck[]; // Bottom face, then the top face when a support carries a hogging moment
+
+  // Computed Deflection (IS 456 Annex C)
+  computedDeflection: ComputedDeflectionResult;
+
+  // Curtailment & Anchorage
+  curtailment: CurtailmentResult;
 }
 
 export interface SavedDesign {
   id: string;
-  name: string;
+  project: string;
+  floor: string;
+  name: string; // Beam mark, unique within its floor (e.g. B1)
   date: string;
+  updatedAt: number; // ms since epoch, last save or rename
+  designCode: DesignCodeId;
   inputs: DesignInputs;
   design: DesignResult;
   loads: { totalDesignUDL: number };
 }
+
+// Project file (JSON) exchanged between users, see utils/projectFile.ts
+export interface ProjectFile {
+  format: 'rcc-beam-designer-project';
+  version: number; // Schema version, raised whenever the stored inputs change shape
+  exportedAt: string; // ISO 8601
+  project: string;
+  designs: SavedDesign[];
+}
+
+// Calculation report: every step with its formula, substituted values, result and clause
+export interface CalculationStep {
+  description: string;
+  formula?: string;
+  substitution?: string;
+  result: string;
+  reference?: string; // Code clause or table
+  passed?: boolean; // Checks only
+}
+
+export interface CalculationSection {
+  title: string;
+  steps: CalculationStep[];
+}
+
+export interface CalculationReport {
+  title: string;
+  designCode: string;
+  sections: CalculationSection[];
+  passed: boolean;
+}
+
+// Input validation, see utils/validation.ts
+export type ValidationSeverity = 'error' | 'warning'; // Errors block saving; warnings are reported
+
+export interface ValidationIssue {
+  field: string; // Path of the input: a DesignInputs field, or spans.<i>.<field> for the fields of span i + 1 (e.g. spans.0.pointLoads.1.distance)
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// Bar bending schedule, see utils/barBendingSchedule.ts
+export type BarShape = 'Straight' | 'L-bar' | 'U-bar' | 'Closed stirrup';
+
+export interface BarScheduleEntry {
+  mark: string; // Bar mark within the beam (e.g. 01)
+  description: string;
+  category: BarCategory;
+  diameter: number; // mm
+  shapeCode: string; // Shape code of the schedule's sketch (utils/barBendingSchedule.ts)
+  shape: BarShape; // Name of the shape, the description of the shape code
+  dimensions: string; // Segment lengths in mm, as on the shape sketch (A = straight run, B / C = bent legs)
+  count: number;
+  cuttingLength: number; // mm, including hooks and bends less the bend deductions
+  unitWeight: number; // kg/m, d² / 162
+  weight: number; // kg
+}
+
+export interface BarBendingSchedule {
+  entries: BarScheduleEntry[];
+  totalWeight: number; // kg
+}
+
+// Material quantities and cost, see utils/quantities.ts
+export type BarCategory = 'Main' | 'Hanger' | 'Side face' | 'Stirrup';
+
+export interface RateTable {
+  currency: string; // Symbol or code shown with costs
+  concrete: number; // per m3 of the lowest grade
+  gradePremium: number; // per m3 for each 5 N/mm2 of fck above 20
+  formwork: number; // per m2
+  reinforcement: number; // per kg, cut, bent and placed
+}
+
+export interface BeamQuantities {
+  fck: number; // N/mm2, grade of the concrete priced
+  concreteVolume: number; // m3, below the slab for flanged beams
+  formworkArea: number; // m2, soffit and sides
+  steel: Record<BarCategory, number>; // kg, including hooks and bends
+  totalSteel: number; // kg
+}
+
+export interface BeamCost {
+  concrete: number;
+  formwork: number;
+  reinforcement: number;
+  total: number;
+}
+
+// Section optimiser, see utils/optimiser.ts
+export type OptimiserObjective = 'cost' | 'depth';
+
+export interface OptimiserOptions {
+  objective: OptimiserObjective; // Cheapest first, or shallowest first (cheapest among equal depths)
+  widths: number[]; // mm
+  minDepth: number; // mm
+  maxDepth: number; // mm
+  depthStep: number; // mm, 25 or 50
+  barDiameters: number[]; // mm, main bars
+  grades: number[]; // fck, N/mm2
+  maxResults: number;
+}
+
+export interface SectionCandidate {
+  beamWidth: number; // mm
+  beamDepth: number; // mm
+  mainBarDia: number; // mm
+  fck: number; // N/mm2
+  reinforcement: string; // Bottom bars provided
+  stirrups: string;
+  utilisation: number; // Largest demand / capacity ratio
+  totalSteel: number; // kg
+  cost: number;
+}
+
+export interface OptimiserResult {
+  candidates: SectionCandidate[]; // Ranked, best first
+  evaluated: number;
+  passing: number;
+}
@@ -0,0 +1,132 @@
+// Bar arrangement: picks bar diameters for the tension steel and places them in layers, IS 456 Cl 26.3.2
+
+import { BarArrangement, BarLayer } from '../types';
+
+export const STANDARD_BAR_DIAMETERS = [10, 12, 16, 20, 25, 32]; // mm
+const NOMINAL_AGGREGATE_SIZE = 20; // mm
+const MAX_LAYERS = 3;
+const MAX_BARS = 40;
+
+const barArea = (dia: number) => (Math.PI / 4) * dia * dia;
+
+// Cl 26.3.2 (a): horizontal clear distance not less than the largest bar diameter or aggregate size + 5 mm
+export const minHorizontalSpacing = (maxDia: number) => Math.max(maxDia, NOMINAL_AGGREGATE_SIZE + 5);
+
+// Cl 26.3.2 (b): vertical clear distance between layers not less than 15 mm, 2/3 aggregate size or the largest bar diameter
+export const minVerticalSpacing = (maxDia: number) => Math.max(15, (2 / 3) * NOMINAL_AGGREGATE_SIZE, maxDia);
+
+// Larger bars go to the corners (ends of the row), smaller ones fill the middle
+const orderInLayer = (bars: number[]) => {
+  const sorted = [...bars].sort((a, b) => b - a);
+  const left: number[] = [];
+  const right: number[] = [];
+  sorted.forEach((dia, i) => (i % 2 === 0 ? left : right).push(dia));
+  return [...left, ...right.reverse()];
+};
+
+const clearSpacingOf = (bars: number[], innerWidth: number) =>
+  bars.length > 1 ? (innerWidth - bars.reduce((sum, dia) => sum + dia, 0)) / (bars.length - 1) : innerWidth - bars[0];
+
+// Fills layers from the soffit up, corner bars first; every layer takes at least two bars
+const layoutBars = (bars: number[], innerWidth: number, bottomCover: number): BarLayer[] => {
+  const rows: number[][] = [];
+  let row: number[] = [];
+  bars.forEach(dia => {
+    const trial = [...row, dia];
+    const fits = clearSpacingOf(trial, innerWidth) >= minHorizontalSpacing(Math.max(...trial));
+    if (row.length >= 2 && !fits) {
+      rows.push(row);
+      row = [dia];
+    } else {
+      row = trial;
+    }
+  });
+  if (row.length > 0) rows.push(row);
+
+  let y = 0;
+  return rows.map((bars, i) => {
+    const maxDia = Math.max(...bars);
+    if (i === 0) {
+      y = bottomCover + maxDia / 2;
+    } else {
+      const below = Math.max(...rows[i - 1]);
+      y += below / 2 + minVerticalSpacing(Math.max(below, maxDia)) + maxDia / 2;
+    }
+    return { bars: orderInLayer(bars), y, clearSpacing: clearSpacingOf(bars, innerWidth) };
+  });
+};
+
+const describe = (bars: number[]) =>
+  [...new Set(bars)]
+    .sort((a, b) => b - a)
+    .map(dia => `${bars.filter(x => x === dia).length}-T${dia}`)
+    .join(' + ');
+
+const buildArrangement = (bars: number[], innerWidth: number, bottomCover: number): BarArrangement => {
+  const layers = layoutBars(bars, innerWidth, bottomCover);
+  const area = bars.reduce((sum, dia) => sum + barArea(dia), 0);
+  const centroid = layers.reduce((sum, l) => sum + l.bars.reduce((s, dia) => s + barArea(dia), 0) * l.y, 0) / area;
+  const maxDia = Math.max(...bars);
+  const minClearSpacing = minHorizontalSpacing(maxDia);
+
+  return {
+    description: describe(bars),
+    bars,
+    layers,
+    area,
+    centroid,
+    minClearSpacing,
+    layerGap: minVerticalSpacing(maxDia),
+    spacingCheckPassed: layers.length <= MAX_LAYERS
+      && layers.every(l => l.bars.length === 1 || l.clearSpacing >= minHorizontalSpacing(Math.max(...l.bars))),
+  };
+};
+
+// Searches n1 corner/main bars of mainDia plus n2 bars of one of the next two smaller sizes.
+// Preference: fewest layers, then least steel, then fewest bars.
+export const arrangeBars = (
+  astRequired: number,
+  beamWidth: number,
+  clearCover: number,
+  stirrupDia: number,
+  mainDia: number
+): BarArrangement => {
+  const innerWidth = beamWidth - 2 * (clearCover + stirrupDia);
+  const bottomCover = clearCover + stirrupDia;
+  const secondaries = STANDARD_BAR_DIAMETERS.filter(dia => dia < mainDia).slice(-2);
+
+  let best: BarArrangement | null = null;
+  const better = (a: BarArrangement, b: BarArrangement) =>
+    a.layers.length !== b.layers.length ? a.layers.length < b.layers.length
+      : Math.abs(a.area - b.area) > 1 ? a.area < b.area
+        : a.bars.length < b.bars.length;
+
+  for (let n1 = 2; n1 <= MAX_BARS; n1++) {
+    const mainArea = n1 * barArea(mainDia);
+    const options: number[][] = [Array(n1).fill(mainDia)];
+    if (mainArea < astRequired) {
+      secondaries.forEach(dia => {
+        const n2 = Math.ceil((astRequired - mainArea) / barArea(dia));
+        if (n2 <= n1) options.push([...Array(n1).fill(mainDia), ...Array(n2).fill(dia)]);
+      });
+    }
+
+    options.forEach(bars => {
+      const area = bars.reduce((sum, dia) => sum + barArea(dia), 0);
+      if (area < astRequired) return;
+      const candidate = buildArrangement(bars, innerWidth, bottomCover);
+      if (!candidate.spacingCheckPassed) return;
+      if (!best || better(candidate, best)) best = candidate;
+    });
+
+    // More main bars only add steel once they alone provide Ast
+    if (mainArea >= astRequired) break;
+  }
+
+  // Nothing fits within the layer limit: report the plain arrangement so the failure is visible
+  return best ?? buildArrangement(
+    Array(Math.max(2, Math.ceil(astRequired / barArea(mainDia)))).fill(mainDia),
+    innerWidth,
+    bottomCover
+  );
+};
@@ -0,0 +1,161 @@
+// Bar bending schedule: bar marks, shapes and cutting lengths of the bars of a design, and the steel weight.
+// Bars follow the curtailment groups, with x measured from the centre of the first support.
+//
+// Bends and hooks (IS 2502):
+//   90° bend  anchorage leg of 8 d where the bar is bent into the support, 2 d deducted from the cutting length
+//   135° hook  on stirrups, 10 d (at least 75 mm) extension, 3 d deducted
+// Unit weight of steel: d² / 162 kg/m
+
+import { BarBendingSchedule, BarCategory, BarFace, BarScheduleEntry, BarShape, DesignInputs, DesignResult, SavedDesign } from '../types';
+import { getDevelopmentLength } from './curtailment';
+import { getSpans, getSupportConditions } from './rccCalculations';
+import { CellValue } from './xlsx';
+
+const BEND_DEDUCTION_90 = 2; // bar diameters
+const BEND_DEDUCTION_135 = 3;
+const HOOK_135 = 10;
+
+export const getUnitWeight = (diameter: number) => (diameter * diameter) / 162;
+
+// Straight length and bent leg (mm) added to a bar beyond its end point
+type EndDetail = { straight: number; leg: number };
+
+type BarPosition = BarFace | 'Side';
+
+// Shapes by the number of bent legs
+const SHAPES: BarShape[] = ['Straight', 'L-bar', 'U-bar'];
+
+// Shape codes of this schedule, one per sketch, with the dimension letters of the entries (A straight run,
+// B and C bent legs or the stirrup sides). They are not the shape codes of the IS 2502 tables; only the
+// bend and hook dimensions above follow IS 2502.
+const SHAPE_CODES: Record<BarShape, string> = {
+  'Straight': 'A',
+  'L-bar': 'B',
+  'U-bar': 'C',
+  'Closed stirrup': 'D',
+};
+
+export const getBarBendingSchedule = (inputs: DesignInputs, design: DesignResult): BarBendingSchedule => {
+  const { supportWidth, clearCover: cover, fy } = inputs;
+  const fck = inputs.fck as number;
+  const supports = getSupportConditions(inputs);
+  const spans = getSpans(inputs);
+  const nodes = spans.reduce<number[]>((x, s) => [...x, x[x.length - 1] + s.length], [0]);
+  const straightInSupport = supportWidth / 2 - cover; // Centre of the support to the far face cover
+
+  // Ld beyond the support face, bent down once the far face is reached
+  const anchorBeyondFace = (length: number): EndDetail => {
+    const required = length - supportWidth / 2;
+    return required <= straightInSupport
+      ? { straight: required, leg: 0 }
+      : { straight: straightInSupport, leg: required - straightInSupport };
+  };
+
+  // Extension of a bar ending at x, following the anchorage rules of utils/curtailment.ts.
+  // Side face bars run straight into the end supports.
+  const endDetail = (x: number, face: BarPosition, diameter: number): EndDetail => {
+    const j = nodes.findIndex(node => Math.abs(node - x) < 1e-3);
+    if (j < 0) return { straight: 0, leg: 0 }; // Cut off within the span
+    const ld = getDevelopmentLength(diameter, fy, fck);
+    const isBeamEnd = j === 0 || j === nodes.length - 1;
+    // Bottom bars of neighbouring spans pass each other over an interior support
+    if (!isBeamEnd) return { straight: face === 'Bottom' ? ld / 3 - supportWidth / 2 : 0, leg: 0 };
+    if (supports[j] === 'Free') return { straight: -cover, leg: 0 };
+    if (face === 'Side') return { straight: straightInSupport, leg: 0 };
+    if (supports[j] === 'Fixed') return anchorBeyondFace(face === 'Bottom' ? ld / 3 : ld);
+    // Simple end support: 90° bend into the support, top bars bent down far enough to develop Ld
+    const leg = face === 'Bottom' ? 8 * diameter : Math.max(8 * diameter, ld - supportWidth / 2 - straightInSupport);
+    return { straight: straightInSupport, leg };
+  };
+
+  const entries: Omit<BarScheduleEntry, 'mark'>[] = [];
+
+  const addBar = (
+    description: string, category: BarCategory, count: number, diameter: number, start: number, end: number, face: BarPosition
+  ) => {
+    const left = endDetail(start, face, diameter);
+    const right = endDetail(end, face, diameter);
+    const straight = (end - start) * 1000 + left.straight + right.straight;
+    const legs = [left.leg, right.leg].filter(leg => leg > 0);
+    const cuttingLength = straight + legs.reduce((sum, leg) => sum + leg, 0) - legs.length * BEND_DEDUCTION_90 * diameter;
+    entries.push({
+      description,
+      category,
+      diameter,
+      shapeCode: SHAPE_CODES[SHAPES[legs.length]],
+      shape: SHAPES[legs.length],
+      dimensions: [`A = ${straight.toFixed(0)}`, ...legs.map((leg, i) => `${i === 0 ? 'B' : 'C'} = ${leg.toFixed(0)}`)].join(', '),
+      count,
+      cuttingLength: Math.ceil(cuttingLength),
+      unitWeight: getUnitWeight(diameter),
+      weight: 0
+    });
+  };
+
+  // The full length top bars are hangers unless they carry compression (doubly reinforced, or Me2 from torsion)
+  const hangers = !design.isDoublyReinforced && design.torsion.me2 <= 0;
+  design.curtailment.barGroups.forEach(g => addBar(
+    g.label, hangers && g.label.startsWith('Top hangers') ? 'Hanger' : 'Main', g.count, g.diameter, g.start, g.end, g.face
+  ));
+
+  if (design.torsion.sideFaceBars > 0) {
+    addBar('Side face bars, full length', 'Side face', 2 * design.torsion.sideFaceBars, design.torsion.sideFaceBarDia, 0, nodes[nodes.length - 1], 'Side');
+  }
+
+  // Closed two-legged stirrups over each span, outer dimensions inside the cover
+  if (design.stirrupSpacing > 0) {
+    const dia = inputs.stirrupBarDia;
+    const width = inputs.beamWidth - 2 * cover;
+    const height = inputs.beamDepth - 2 * cover;
+    const hook = Math.max(HOOK_135 * dia, 75);
+    const count = spans.reduce((sum, s) => sum + Math.ceil((s.length * 1000) / design.stirrupSpacing) + 1, 0);
+    entries.push({
+      description: `Stirrups @ ${design.stirrupSpacing} mm c/c`,
+      category: 'Stirrup',
+      diameter: dia,
+      shapeCode: SHAPE_CODES['Closed stirrup'],
+      shape: 'Closed stirrup',
+      dimensions: `A = ${width}, B = ${height}, hooks ${hook.toFixed(0)}`,
+      count,
+      cuttingLength: Math.ceil(2 * (width + height) + 2 * hook - 3 * BEND_DEDUCTION_90 * dia - 2 * BEND_DEDUCTION_135 * dia),
+      unitWeight: getUnitWeight(dia),
+      weight: 0
+    });
+  }
+
+  const schedule = entries.map((e, i) => ({
+    ...e,
+    mark: String(i + 1).padStart(2, '0'),
+    weight: (e.count * e.cuttingLength * e.unitWeight) / 1000
+  }));
+  return { entries: schedule, totalWeight: schedule.reduce((sum, e) => sum + e.weight, 0) };
+};
+
+type ScheduledBeam = Pick<SavedDesign, 'project' | 'floor' | 'name' | 'inputs' | 'design'>;
+
+const round = (value: number, decimals = 2) => Number(value.toFixed(decimals));
+
+// One row per bar mark of every beam, then the steel weight by diameter and in total
+export const getBarBendingRows = (beams: ScheduledBeam[]): CellValue[][] => {
+  const byDiameter = new Map<number, number>();
+  const rows = beams.flatMap(beam => getBarBendingSchedule(beam.inputs, beam.design).entries.map(e => {
+    byDiameter.set(e.diameter, (byDiameter.get(e.diameter) ?? 0) + e.weight);
+    return [
+      beam.project, beam.floor, beam.name, e.mark, e.description, e.diameter, e.shapeCode, e.shape, e.dimensions,
+      e.count, e.cuttingLength, round(e.count * e.cuttingLength / 1000), round(e.unitWeight, 3), round(e.weight)
+    ];
+  }));
+  const totalWeight = [...byDiameter.values()].reduce((sum, w) => sum + w, 0);
+
+  return [
+    [
+      'Project', 'Floor', 'Beam', 'Bar Mark', 'Description', 'Dia (mm)', 'Shape Code', 'Shape', 'Dimensions (mm)',
+      'No. of Bars', 'Cutting Length (mm)', 'Total Length (m)', 'Unit Weight (kg/m)', 'Weight (kg)'
+    ],
+    ...rows,
+    ...[...byDiameter.entries()].sort(([a], [b]) => a - b).map(([dia, weight]) =>
+      ['', '', '', '', `Total T${dia}`, dia, '', '', '', '', '', '', '', round(weight)]
+    ),
+    ['', '', '', '', `Total steel (${round(totalWeight / 1000, 3)} t)`, '', '', '', '', '', '', '', '', round(totalWeight)],
+  ];
+};
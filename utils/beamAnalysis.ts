@@ -0,0 +1,241 @@
+// Direct stiffness solver for continuous beams.
+// Each span is a single beam element with 2 DOF per node (vertical deflection, rotation).
+// Sign convention: loads act downward, sagging moments are positive.
+
+import { DistributedLoadSegment, SupportCondition } from '../types';
+
+export interface SpanLoading {
+  distributed: DistributedLoadSegment[];
+  pointLoads: { value: number; distance: number }[]; // kN, m from left end of span
+  moments: { value: number; distance: number }[]; // kNm clockwise, m from left end of span
+}
+
+export interface SpanEndForces {
+  leftMoment: number; // kNm (sagging positive)
+  rightMoment: number; // kNm (sagging positive)
+  leftShear: number; // kN
+  rightShear: number; // kN
+}
+
+export interface ContinuousBeamSolution {
+  spanStarts: number[]; // m, global x of each span's left support
+  endForces: SpanEndForces[];
+  reactions: number[]; // kN, one per support (upward positive)
+  momentData: { x: number; val: number }[];
+  shearData: { x: number; val: number }[];
+}
+
+// Hermite cubic shape functions for an element of length L
+const shapeFunctions = (x: number, L: number): number[] => {
+  const s = x / L;
+  return [
+    1 - 3 * s * s + 2 * s * s * s,
+    L * (s - 2 * s * s + s * s * s),
+    3 * s * s - 2 * s * s * s,
+    L * (-s * s + s * s * s),
+  ];
+};
+
+// Slopes of the shape functions (d/dx), used for applied moments
+const shapeFunctionSlopes = (x: number, L: number): number[] => {
+  const s = x / L;
+  return [
+    (-6 * s + 6 * s * s) / L,
+    1 - 4 * s + 3 * s * s,
+    (6 * s - 6 * s * s) / L,
+    -2 * s + 3 * s * s,
+  ];
+};
+
+const intensityAt = (seg: DistributedLoadSegment, x: number): number => {
+  const len = seg.end - seg.start;
+  if (len <= 0) return seg.wStart;
+  return seg.wStart + (seg.wEnd - seg.wStart) * (x - seg.start) / len;
+};
+
+// Equivalent nodal loads [Fy1, M1, Fy2, M2] (upward / anticlockwise positive)
+const equivalentNodalLoads = (L: number, loading: SpanLoading): number[] => {
+  const f = [0, 0, 0, 0];
+
+  loading.pointLoads.forEach(p => {
+    const N = shapeFunctions(p.distance, L);
+    for (let i = 0; i < 4; i++) f[i] -= p.value * N[i];
+  });
+
+  // A clockwise moment does work against the anticlockwise rotation DOFs
+  loading.moments.forEach(m => {
+    const dN = shapeFunctionSlopes(m.distance, L);
+    for (let i = 0; i < 4; i++) f[i] -= m.value * dN[i];
+  });
+
+  // Simpson's rule over each distributed segment
+  const n = 40;
+  loading.distributed.forEach(seg => {
+    const a = Math.max(0, seg.start);
+    const b = Math.min(L, seg.end);
+    if (b <= a) return;
+    const h = (b - a) / n;
+    for (let k = 0; k <= n; k++) {
+      const x = a + k * h;
+      const weight = (k === 0 || k === n) ? 1 : (k % 2 === 1 ? 4 : 2);
+      const w = intensityAt(seg, x);
+      const N = shapeFunctions(x, L);
+      for (let i = 0; i < 4; i++) f[i] -= (h / 3) * weight * w * N[i];
+    }
+  });
+
+  return f;
+};
+
+// Resultant force and moment (about x) of the span loads lying left of x
+const loadsLeftOf = (loading: SpanLoading, x: number, inclusive: boolean) => {
+  let force = 0;
+  let moment = 0;
+
+  loading.pointLoads.forEach(p => {
+    if (p.distance < x || (inclusive && Math.abs(p.distance - x) < 0.001)) {
+      force += p.value;
+      moment += p.value * (x - p.distance);
+    }
+  });
+
+  // A clockwise couple left of the section increases the sagging moment
+  loading.moments.forEach(m => {
+    if (m.distance < x) moment -= m.value;
+  });
+
+  loading.distributed.forEach(seg => {
+    const a = seg.start;
+    const b = Math.min(seg.end, x);
+    if (b <= a) return;
+    const len = b - a;
+    const wa = intensityAt(seg, a);
+    const wb = intensityAt(seg, b);
+    // Split into a uniform block and a triangle
+    const fUniform = wa * len;
+    const fTriangle = (wb - wa) * len / 2;
+    force += fUniform + fTriangle;
+    moment += fUniform * (x - (a + len / 2)) + fTriangle * (x - (a + 2 * len / 3));
+  });
+
+  return { force, moment };
+};
+
+// Gaussian elimination with partial pivoting
+const solveLinearSystem = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) throw new Error('Beam is unstable: check support conditions');
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= factor * M[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
+
+export const solveContinuousBeam = (
+  lengths: number[],
+  loadings: SpanLoading[],
+  supports: SupportCondition[], // One per node, left to right
+  segmentsPerSpan: number = 100,
+  swayMoment: number = 0 // kNm, lateral load moment from frame analysis: +Me at left end, -Me at right end of every span
+): ContinuousBeamSolution => {
+  const nodes = lengths.length + 1;
+  const dof = 2 * nodes;
+
+  // EI is uniform along the beam, so unit stiffness gives the correct force distribution
+  const K: number[][] = Array.from({ length: dof }, () => new Array(dof).fill(0));
+  const F: number[] = new Array(dof).fill(0);
+  const elementK: number[][][] = [];
+  const elementF: number[][] = [];
+
+  lengths.forEach((L, e) => {
+    const k = [
+      [12 / L ** 3, 6 / L ** 2, -12 / L ** 3, 6 / L ** 2],
+      [6 / L ** 2, 4 / L, -6 / L ** 2, 2 / L],
+      [-12 / L ** 3, -6 / L ** 2, 12 / L ** 3, -6 / L ** 2],
+      [6 / L ** 2, 2 / L, -6 / L ** 2, 4 / L],
+    ];
+    const f = equivalentNodalLoads(L, loadings[e]);
+    const map = [2 * e, 2 * e + 1, 2 * e + 2, 2 * e + 3];
+    for (let i = 0; i < 4; i++) {
+      F[map[i]] += f[i];
+      for (let j = 0; j < 4; j++) K[map[i]][map[j]] += k[i][j];
+    }
+    elementK.push(k);
+    elementF.push(f);
+  });
+
+  // Pinned/roller supports restrain deflection, fixed supports also restrain rotation
+  const restrained = new Set<number>();
+  supports.forEach((support, n) => {
+    if (support !== 'Free') restrained.add(2 * n);
+    if (support === 'Fixed') restrained.add(2 * n + 1);
+  });
+  const free = Array.from({ length: dof }, (_, i) => i).filter(i => !restrained.has(i));
+
+  const u = new Array(dof).fill(0);
+  if (free.length > 0) {
+    const Kff = free.map(i => free.map(j => K[i][j]));
+    const Ff = free.map(i => F[i]);
+    const uf = solveLinearSystem(Kff, Ff);
+    free.forEach((i, idx) => { u[i] = uf[idx]; });
+  }
+
+  // Element end forces acting on each element: k * u - f
+  const reactions = new Array(nodes).fill(0);
+  const endForces: SpanEndForces[] = [];
+  const spanStarts: number[] = [];
+  const momentData: { x: number; val: number }[] = [];
+  const shearData: { x: number; val: number }[] = [];
+
+  let start = 0;
+  lengths.forEach((L, e) => {
+    const map = [2 * e, 2 * e + 1, 2 * e + 2, 2 * e + 3];
+    const ue = map.map(i => u[i]);
+    const end = elementK[e].map((row, i) => row.reduce((s, kij, j) => s + kij * ue[j], 0) - elementF[e][i]);
+
+    // Sway moments come from the frame analysis, so they are superposed directly on the span
+    const swayShear = (2 * swayMoment) / L;
+    const Fy1 = end[0] - swayShear;
+    const M1 = end[1] - swayMoment;
+    const Fy2 = end[2] + swayShear;
+    const M2 = end[3] - swayMoment;
+
+    reactions[e] += Fy1;
+    reactions[e + 1] += Fy2;
+    endForces.push({ leftMoment: -M1, rightMoment: M2, leftShear: Fy1, rightShear: -Fy2 });
+    spanStarts.push(start);
+
+    const loading = loadings[e];
+    for (let i = 0; i <= segmentsPerSpan; i++) {
+      // Interior supports get two points (end of previous span, start of this one) to show the shear step
+      const x = (i / segmentsPerSpan) * L;
+      const left = loadsLeftOf(loading, x, true);
+      const leftForMoment = loadsLeftOf(loading, x, false);
+      const Vx = Fy1 - left.force;
+      const Mx = -M1 + Fy1 * x - leftForMoment.moment;
+      shearData.push({ x: start + x, val: Vx });
+      momentData.push({ x: start + x, val: Mx });
+    }
+    start += L;
+  });
+
+  return { spanStarts, endForces, reactions, momentData, shearData };
+};
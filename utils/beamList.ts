@@ -0,0 +1,266 @@
+// Beam lists: many beams of a building in one CSV or JSON file, designed in one go and added to the
+// design schedule. Each row (CSV) or object (JSON array) is one beam:
+//
+//   mark            Beam mark, required
+//   floor           Floor of the beam
+//   spans           Span lengths in m, required; several spans separated by ";" (e.g. "3.5;4.2")
+//   width, depth    Section in mm
+//   leftSupport, rightSupport      Pinned, Roller, Fixed or Free
+//   slabThickness, liveLoad, floorFinish        mm, kN/m2, kN/m2
+//   leftSlab, rightSlab            None, OneWay or TwoWay
+//   leftSlabLx, leftSlabLy, leftSlabEdge        Panel spans in m and the edge carried (Short or Long),
+//   rightSlabLx, rightSlabLy, rightSlabEdge     likewise for the right slab
+//   wallHeight, wallThickness      m, mm
+//   pointLoads      "value@distance" in kN and m from the left end of the beam, ";" between loads and
+//                   ":Live" after imposed loads (e.g. "40@1.5;25@4:Live")
+//   designCode      IS456, ACI318 or EC2
+//   fck, fy, mainBarDia, topBarDia, stirrupBarDia, clearCover, supportWidth
+//
+// Columns left out or left blank take the values of a new design. Every span of a row carries the
+// same slabs and wall.
+
+import { ConcreteGrade, DesignCodeId, DesignInputs, PointLoad, SavedDesign, SlabSideConfig, SteelGrade } from '../types';
+import { DEFAULT_INPUTS, newId } from './defaultInputs';
+import { DESIGN_CODES, getDesignCode } from './designCodes';
+import { analyzeBeam, calculateLoads, designBeam } from './rccCalculations';
+import { parseCsv, toCsv } from './schedule';
+import { validateInputs } from './validation';
+
+// The file as a whole cannot be read (rows with errors are reported per row instead)
+export class BeamListError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join('\n'));
+    this.name = 'BeamListError';
+    this.issues = issues;
+  }
+}
+
+type NumberField = 'beamWidth' | 'beamDepth' | 'slabThickness' | 'liveLoad' | 'floorFinish' | 'wallHeight' | 'wallThickness'
+  | 'fck' | 'fy' | 'mainBarDia' | 'topBarDia' | 'stirrupBarDia' | 'clearCover' | 'supportWidth';
+
+// Numeric columns: the input they set, and the values allowed (a list, or the lowest value)
+const NUMBER_COLUMNS: Record<string, { field: NumberField; allowed: number[] | number }> = {
+  width: { field: 'beamWidth', allowed: 100 },
+  depth: { field: 'beamDepth', allowed: 150 },
+  slabThickness: { field: 'slabThickness', allowed: 0 },
+  liveLoad: { field: 'liveLoad', allowed: 0 },
+  floorFinish: { field: 'floorFinish', allowed: 0 },
+  wallHeight: { field: 'wallHeight', allowed: 0 },
+  wallThickness: { field: 'wallThickness', allowed: 0 },
+  fck: { field: 'fck', allowed: Object.values(ConcreteGrade).filter((v): v is number => typeof v === 'number') },
+  fy: { field: 'fy', allowed: Object.values(SteelGrade).filter((v): v is number => typeof v === 'number') },
+  mainBarDia: { field: 'mainBarDia', allowed: [10, 12, 16, 20, 25, 32] },
+  topBarDia: { field: 'topBarDia', allowed: [10, 12, 16, 20] },
+  stirrupBarDia: { field: 'stirrupBarDia', allowed: [6, 8, 10] },
+  clearCover: { field: 'clearCover', allowed: 15 },
+  supportWidth: { field: 'supportWidth', allowed: 0 },
+};
+
+const SUPPORTS = ['Pinned', 'Roller', 'Fixed', 'Free'];
+const SLABS = ['None', 'OneWay', 'TwoWay'];
+const EDGES = ['Short', 'Long'];
+
+const COLUMNS = [
+  'mark', 'floor', 'spans', 'leftSupport', 'rightSupport', 'designCode', 'pointLoads',
+  'leftSlab', 'leftSlabLx', 'leftSlabLy', 'leftSlabEdge', 'rightSlab', 'rightSlabLx', 'rightSlabLy', 'rightSlabEdge',
+  ...Object.keys(NUMBER_COLUMNS),
+];
+
+export interface BeamListRow {
+  row: number; // Row of the CSV file (the header is row 1), or position in the JSON array from 1
+  mark: string;
+  floor: string;
+  inputs: DesignInputs;
+}
+
+export interface BeamListResult {
+  rows: BeamListRow[];
+  issues: string[]; // One message per problem, prefixed with the row
+}
+
+type RawRow = Record<string, string>;
+
+// CSV with a header row, or a JSON array of objects, as rows of text keyed by the column names
+const readRows = (text: string, fileName: string): { rows: RawRow[]; firstRow: number } => {
+  const canonical = new Map(COLUMNS.map(c => [c.toLowerCase(), c]));
+  const columnName = (name: string) => {
+    const column = canonical.get(name.trim().toLowerCase());
+    if (!column) throw new BeamListError([`Unknown column "${name}". Columns: ${COLUMNS.join(', ')}.`]);
+    return column;
+  };
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new BeamListError(['The file is not valid JSON.']);
+    }
+    if (!Array.isArray(json)) throw new BeamListError(['A JSON beam list must be an array of beams.']);
+    return {
+      rows: json.map(item => Object.fromEntries(
+        Object.entries(typeof item === 'object' && item !== null ? item : {}).map(([key, value]) => [
+          columnName(key),
+          Array.isArray(value) ? value.join(';') : value === null || value === undefined ? '' : String(value)
+        ])
+      )),
+      firstRow: 1
+    };
+  }
+
+  const [header, ...lines] = parseCsv(text).filter(line => line.some(cell => cell.trim() !== ''));
+  if (!header) throw new BeamListError(['The file is empty.']);
+  const columns = header.map(columnName);
+  return {
+    rows: lines.map(line => Object.fromEntries(columns.map((c, i) => [c, line[i] ?? '']))),
+    firstRow: 2
+  };
+};
+
+// Inputs of one beam; problems are added to issues
+const rowToInputs = (raw: RawRow, designCode: DesignCodeId, issues: string[]): DesignInputs => {
+  const value = (column: string) => (raw[column] ?? '').trim();
+  const number = (column: string, fallback: number, min = 0) => {
+    if (value(column) === '') return fallback;
+    const n = Number(value(column));
+    if (!Number.isFinite(n) || n < min) issues.push(`${column} must be a number of at least ${min} (found "${value(column)}")`);
+    return n;
+  };
+  const choice = <T extends string>(column: string, allowed: string[], fallback: T): T => {
+    if (value(column) === '') return fallback;
+    const match = allowed.find(a => a.toLowerCase() === value(column).toLowerCase());
+    if (!match) issues.push(`${column} must be one of ${allowed.join(', ')} (found "${value(column)}")`);
+    return (match ?? fallback) as T;
+  };
+
+  const code = choice<DesignCodeId>('designCode', Object.keys(DESIGN_CODES), designCode);
+  const inputs: DesignInputs = { ...DEFAULT_INPUTS, designCode: code, loadCombinations: getDesignCode(code).loadCombinations };
+
+  Object.entries(NUMBER_COLUMNS).forEach(([column, { field, allowed }]) => {
+    const n = number(column, inputs[field] as number, Array.isArray(allowed) ? 0 : allowed);
+    if (Array.isArray(allowed) && value(column) !== '' && Number.isFinite(n) && !allowed.includes(n)) {
+      issues.push(`${column} must be one of ${allowed.join(', ')} (found ${value(column)})`);
+    }
+    (inputs[field] as number) = n;
+  });
+  inputs.leftSupport = choice('leftSupport', SUPPORTS, inputs.leftSupport);
+  inputs.rightSupport = choice('rightSupport', SUPPORTS, inputs.rightSupport);
+
+  const slab = (side: 'leftSlab' | 'rightSlab'): SlabSideConfig => {
+    const defaults = DEFAULT_INPUTS[side];
+    const type = choice(side, SLABS, defaults.enabled ? defaults.type : 'None');
+    return {
+      enabled: type !== 'None',
+      type: type === 'None' ? defaults.type : type,
+      lx: number(`${side}Lx`, defaults.lx, 0.5),
+      ly: number(`${side}Ly`, defaults.ly, 0.5),
+      supportEdge: choice(`${side}Edge`, EDGES, defaults.supportEdge),
+    };
+  };
+  inputs.leftSlab = slab('leftSlab');
+  inputs.rightSlab = slab('rightSlab');
+
+  const spans = value('spans').split(';').map(s => s.trim()).filter(s => s !== '').map(Number);
+  if (spans.length === 0) {
+    issues.push('spans is missing');
+  } else if (spans.some(s => !Number.isFinite(s) || s <= 0)) {
+    issues.push(`spans must be lengths in m separated by ; (found "${value('spans')}")`);
+  }
+
+  // Point loads are given from the left end of the beam and placed on the span they fall in
+  const starts = spans.reduce<number[]>((x, s) => [...x, x[x.length - 1] + s], [0]);
+  const pointLoads: PointLoad[][] = spans.map(() => []);
+  value('pointLoads').split(';').map(s => s.trim()).filter(s => s !== '').forEach(entry => {
+    const match = /^(-?[\d.]+)\s*@\s*([\d.]+)\s*(?::\s*(dead|live))?$/i.exec(entry);
+    const load = match ? Number(match[1]) : NaN;
+    const x = match ? Number(match[2]) : NaN;
+    if (!match || !Number.isFinite(load) || !Number.isFinite(x)) {
+      issues.push(`pointLoads entry "${entry}" must be value@distance, optionally followed by :Live`);
+      return;
+    }
+    const span = spans.findIndex((_, i) => x <= starts[i + 1] + 1e-9);
+    if (span < 0) {
+      issues.push(`pointLoads entry "${entry}" is beyond the end of the beam (${starts[spans.length]} m)`);
+      return;
+    }
+    pointLoads[span].push({
+      id: newId(),
+      value: load,
+      distance: Number((x - starts[span]).toFixed(3)),
+      loadCase: match[3]?.toLowerCase() === 'live' ? 'Live' : 'Dead'
+    });
+  });
+
+  if (spans.length > 0) {
+    inputs.beamClearSpan = spans[0];
+    inputs.pointLoads = pointLoads[0];
+    inputs.additionalSpans = spans.slice(1).map((length, i) => ({
+      id: newId(),
+      length,
+      leftSlab: inputs.leftSlab,
+      rightSlab: inputs.rightSlab,
+      pointLoads: pointLoads[i + 1],
+      lineLoads: [],
+      pointMoments: [],
+      wallHeight: inputs.wallHeight,
+      wallThickness: inputs.wallThickness
+    }));
+  }
+  return inputs;
+};
+
+// Reads and checks a beam list. Rows with problems are left out and reported; a file that cannot be
+// read at all throws a BeamListError.
+export const parseBeamList = (text: string, fileName: string, designCode: DesignCodeId): BeamListResult => {
+  const { rows, firstRow } = readRows(text, fileName);
+  if (rows.length === 0) throw new BeamListError(['The beam list has no beams.']);
+
+  const issues: string[] = [];
+  const beams = rows.flatMap((raw, i): BeamListRow[] => {
+    const row = firstRow + i;
+    const mark = (raw.mark ?? '').trim();
+    const rowIssues: string[] = [];
+    if (!mark) rowIssues.push('mark is missing');
+    const inputs = rowToInputs(raw, designCode, rowIssues);
+    if (rowIssues.length === 0) {
+      validateInputs(inputs)
+        .filter(issue => issue.severity === 'error')
+        .forEach(issue => rowIssues.push(`${issue.message[0].toLowerCase()}${issue.message.slice(1)}`));
+    }
+    if (rowIssues.length === 0 && !analyzeBeam(inputs, calculateLoads(inputs)).isStable) {
+      rowIssues.push('the supports form a mechanism (a cantilever needs a fixed end)');
+    }
+    issues.push(...rowIssues.map(issue => `Row ${row}${mark ? ` (${mark})` : ''}: ${issue}`));
+    return rowIssues.length === 0 ? [{ row, mark, floor: (raw.floor ?? '').trim(), inputs }] : [];
+  });
+
+  return { rows: beams, issues };
+};
+
+// Designs every beam of the list as a schedule entry of the project
+export const designBeamList = (rows: BeamListRow[], project: string): SavedDesign[] =>
+  rows.map(({ mark, floor, inputs }) => {
+    const loads = calculateLoads(inputs);
+    return {
+      id: newId(),
+      project,
+      floor,
+      name: mark,
+      date: new Date().toLocaleDateString(),
+      updatedAt: Date.now(),
+      designCode: inputs.designCode,
+      inputs,
+      design: designBeam(inputs, analyzeBeam(inputs, loads)),
+      loads: { totalDesignUDL: loads.totalDesignUDL }
+    };
+  });
+
+// Header and two example beams, as a starting point for a beam list
+export const getBeamListTemplate = () => toCsv([
+  ['mark', 'floor', 'spans', 'width', 'depth', 'leftSupport', 'rightSupport', 'leftSlab', 'leftSlabLx', 'leftSlabLy', 'leftSlabEdge',
+    'rightSlab', 'wallHeight', 'wallThickness', 'pointLoads', 'fck', 'fy', 'mainBarDia'],
+  ['B1', 'First Floor', '4.2', 230, 450, 'Pinned', 'Roller', 'TwoWay', 3.6, 4.2, 'Long', 'None', 3, 230, '', 25, 500, 16],
+  ['B2', 'First Floor', '3.5;4.2', 230, 450, 'Pinned', 'Roller', 'OneWay', 3, '', '', 'OneWay', 0, '', '40@5:Live', 25, 500, 16],
+]);
@@ -0,0 +1,629 @@
+// Deterministic calculation sheet for submission to checking authorities: every step of the load,
+// analysis and design calculations with its formula, substituted values, result and clause.
+// The report depends only on its inputs, so the same design always gives the same sheet.
+
+import {
+  AnalysisResult, CalculationReport, CalculationSection, CalculationStep, DesignInputs, DesignResult, LoadResult, SlabSideConfig,
+  ValidationIssue
+} from '../types';
+import { getDesignCode } from './designCodes';
+import { CONCRETE_DENSITY, getSpans, getSupportConditions } from './rccCalculations';
+import { designPasses } from './schedule';
+import { hasErrors, validateInputs } from './validation';
+
+const f = (value: number, decimals = 2) => value.toFixed(decimals);
+
+const checkResult = (value: string, limit: string, passed: boolean, relation = '≤') =>
+  `${value} ${passed ? relation : (relation === '≤' ? '>' : '<')} ${limit}  ${passed ? 'OK' : 'NOT OK'}`;
+
+// The design engine details the bars to IS 456 (maximum steel, bar spacing, development length and
+// curtailment) whatever the design code, so these clauses say so when another code is selected
+const detailingReference = (inputs: DesignInputs, clauses: string) =>
+  inputs.designCode === 'IS456' ? `IS 456 ${clauses}` : `IS 456 ${clauses} (detailing to IS 456 for every code)`;
+
+// Equivalent UDL of a slab panel on the beam (IS 456 Cl 24.5 load distribution)
+const slabStep = (side: string, slab: SlabSideConfig, w: number, udl: number): CalculationStep => {
+  if (slab.type === 'OneWay') {
+    return {
+      description: `${side} slab, one-way`,
+      formula: 'w lx / 2',
+      substitution: `${f(w)} × ${slab.lx} / 2`,
+      result: `${f(udl)} kN/m`,
+      reference: 'IS 456 Cl 24.5'
+    };
+  }
+  if (slab.supportEdge === 'Short') {
+    return {
+      description: `${side} slab, two-way, short edge (triangular load)`,
+      formula: 'w lx / 3',
+      substitution: `${f(w)} × ${slab.lx} / 3`,
+      result: `${f(udl)} kN/m`,
+      reference: 'IS 456 Cl 24.5'
+    };
+  }
+  const beta = slab.ly / slab.lx;
+  return {
+    description: `${side} slab, two-way, long edge (trapezoidal load)`,
+    formula: '(w lx / 2) (1 − 1 / 3β²), β = ly / lx',
+    substitution: `(${f(w)} × ${slab.lx} / 2) × (1 − 1 / (3 × ${f(beta, 3)}²))`,
+    result: `${f(udl)} kN/m`,
+    reference: 'IS 456 Cl 24.5'
+  };
+};
+
+const designDataSection = (inputs: DesignInputs): CalculationSection => {
+  const code = getDesignCode(inputs.designCode);
+  const supports = getSupportConditions(inputs);
+  const combinations = inputs.loadCombinations.length > 0 ? inputs.loadCombinations : code.loadCombinations;
+  return {
+    title: 'Design Data',
+    steps: [
+      { description: 'Design code', result: code.name },
+      { description: 'Materials', result: `Concrete ${code.gradeLabel(inputs.fck)}, steel fy = ${inputs.fy} N/mm²` },
+      {
+        description: 'Section',
+        result: `b × D = ${inputs.beamWidth} × ${inputs.beamDepth} mm, clear cover ${inputs.clearCover} mm, stirrups T${inputs.stirrupBarDia}`
+      },
+      {
+        description: 'Spans and supports',
+        result: `${getSpans(inputs).map(s => `${s.length} m`).join(' + ')}; supports ${supports.join(' – ')}`
+      },
+      {
+        description: 'Load combinations',
+        result: combinations.map(c => `${c.name} (${c.dead} DL + ${c.live} LL + ${c.lateral} EL)`).join('; '),
+        reference: code.references.loadCombinations
+      },
+    ]
+  };
+};
+
+// Errors and warnings of utils/validation.ts, so the checker sees every input the designer was warned about
+const inputCheckSection = (issues: ValidationIssue[]): CalculationSection => ({
+  title: 'Input Checks',
+  steps: issues.length === 0
+    ? [{ description: 'Design inputs', result: 'No errors or warnings' }]
+    : issues.map(issue => ({
+      description: issue.message,
+      result: issue.severity === 'error' ? 'Error' : 'Warning',
+      passed: issue.severity === 'error' ? false : undefined
+    }))
+});
+
+const loadSection = (inputs: DesignInputs, loads: LoadResult): CalculationSection => {
+  const spans = getSpans(inputs);
+  const primary = inputs.loadCombinations[0] ?? getDesignCode(inputs.designCode).loadCombinations[0];
+  const slabTotal = loads.totalSlabLoadArea;
+  const cantilever = inputs.torsion.cantileverSlab;
+
+  const steps: CalculationStep[] = [
+    {
+      description: 'Slab self weight',
+      formula: 't γc',
+      substitution: `${f(inputs.slabThickness / 1000, 3)} × ${CONCRETE_DENSITY}`,
+      result: `${f(loads.slabSelfWeight)} kN/m²`
+    },
+    {
+      description: 'Slab load (dead + imposed)',
+      formula: 'gs + finishes + q',
+      substitution: `${f(loads.slabSelfWeight)} + ${f(inputs.floorFinish)} + ${f(inputs.liveLoad)}`,
+      result: `${f(slabTotal)} kN/m²`
+    },
+    {
+      description: 'Beam self weight',
+      formula: 'b D γc',
+      substitution: `${f(inputs.beamWidth / 1000, 3)} × ${f(inputs.beamDepth / 1000, 3)} × ${CONCRETE_DENSITY}`,
+      result: `${f(loads.beamSelfWeight)} kN/m`
+    },
+  ];
+
+  if (cantilever.enabled && loads.cantileverSlab.deadUDL > 0) {
+    const leverArm = cantilever.projection / 2 + inputs.beamWidth / 2000;
+    steps.push(
+      {
+        description: 'Cantilever slab, dead load',
+        formula: '(t γc + finishes) × projection',
+        substitution: `(${f(cantilever.thickness / 1000, 3)} × ${CONCRETE_DENSITY} + ${f(inputs.floorFinish)}) × ${cantilever.projection}`,
+        result: `${f(loads.cantileverSlab.deadUDL)} kN/m`
+      },
+      {
+        description: 'Cantilever slab, imposed load',
+        formula: 'q × projection',
+        substitution: `${f(inputs.liveLoad)} × ${cantilever.projection}`,
+        result: `${f(loads.cantileverSlab.liveUDL)} kN/m`
+      },
+      {
+        description: 'Cantilever slab torque per metre (dead / imposed)',
+        formula: 'w (projection / 2 + b / 2)',
+        substitution: `${f(loads.cantileverSlab.deadUDL)} / ${f(loads.cantileverSlab.liveUDL)} × ${f(leverArm, 3)}`,
+        result: `${f(loads.cantileverSlab.deadTorsion)} / ${f(loads.cantileverSlab.liveTorsion)} kNm/m`
+      },
+    );
+  }
+
+  loads.spanLoads.forEach((s, i) => {
+    const span = spans[i];
+    const label = spans.length > 1 ? `Span ${i + 1}: ` : '';
+    const slabs = [
+      ...(span.leftSlab.enabled ? [slabStep('Left', span.leftSlab, slabTotal, s.udlFromLeftSlab)] : []),
+      ...(span.rightSlab.enabled ? [slabStep('Right', span.rightSlab, slabTotal, s.udlFromRightSlab)] : []),
+    ];
+    slabs.forEach(step => steps.push({ ...step, description: `${label}${step.description}` }));
+    if (s.wallLoad > 0) {
+      steps.push({
+        description: `${label}Wall`,
+        formula: 't h γm',
+        substitution: `${f(span.wallThickness / 1000, 3)} × ${span.wallHeight} × ${inputs.masonryDensity}`,
+        result: `${f(s.wallLoad)} kN/m`
+      });
+    }
+    span.lineLoads.forEach(l => steps.push({
+      description: `${label}Partial / varying load (${l.loadCase})`,
+      result: `${l.wStart} to ${l.wEnd} kN/m from ${l.start} m to ${l.end} m`
+    }));
+    s.pointLoads.forEach(p => steps.push({ description: `${label}Point load (${p.loadCase})`, result: `${p.value} kN at ${p.distance} m` }));
+    s.pointMoments.forEach(m => steps.push({ description: `${label}Applied moment (${m.loadCase})`, result: `${m.value} kNm at ${m.distance} m` }));
+    steps.push({
+      description: `${label}Factored equivalent UDL (${primary.name})`,
+      formula: 'γD gk + γL qk',
+      substitution: `${primary.dead} × ${f(s.deadUDL)} + ${primary.live} × ${f(s.liveUDL)}`,
+      result: `${f(s.totalDesignUDL)} kN/m`,
+      reference: getDesignCode(inputs.designCode).references.loadCombinations
+    });
+  });
+
+  return { title: 'Loads', steps };
+};
+
+const analysisSection = (inputs: DesignInputs, analysis: AnalysisResult): CalculationSection => {
+  const arrangement = inputs.liveLoadPatterning ? ` with live load on ${analysis.governingLiveLoadArrangement.replace(/^LL on /, '')}` : '';
+  const steps: CalculationStep[] = [
+    {
+      description: 'Method',
+      result: `Stiffness method, envelope of all load combinations${inputs.liveLoadPatterning ? ' and live load arrangements' : ''}`
+        + `${inputs.movingPointLoad > 0 ? `, moving point load ${inputs.movingPointLoad} kN (influence lines)` : ''}`,
+      reference: inputs.liveLoadPatterning ? 'IS 456 Cl 22.4.1' : undefined
+    },
+    ...analysis.combinationResults.map(c => ({
+      description: `Combination ${c.name}`,
+      result: `M+ ${f(c.maxSaggingMoment)} kNm, M− ${f(c.maxHoggingMoment)} kNm, V ${f(c.maxShear)} kN`
+    })),
+    { description: 'Governing combination', result: `${analysis.governingCombination}${arrangement}` },
+    { description: 'Maximum sagging moment', result: `${f(analysis.maxSaggingMoment)} kNm` },
+    { description: 'Maximum hogging moment', result: `${f(analysis.maxHoggingMoment)} kNm` },
+    { description: 'Design moment Mu', result: `${f(analysis.maxMoment)} kNm` },
+    { description: 'Design shear Vu', result: `${f(analysis.maxShear)} kN` },
+    { description: 'Support reactions', result: analysis.supportReactions.map(r => `${f(r, 1)} kN`).join(', ') },
+  ];
+  if (analysis.maxTorsion > 0) steps.push({ description: 'Design torque Tu', result: `${f(analysis.maxTorsion)} kNm` });
+  return { title: 'Analysis', steps };
+};
+
+const flexureSection = (inputs: DesignInputs, analysis: AnalysisResult, design: DesignResult): CalculationSection => {
+  const code = getDesignCode(inputs.designCode);
+  const { fck, fy, beamWidth: b, beamDepth: D } = inputs;
+  const rules = code.flexure(fck as number, fy);
+  const d = design.effectiveDepth;
+  const phi = rules.capacityFactor;
+  const mu = design.torsion.me1;
+  const xuMax = rules.maxNeutralAxisRatio * d;
+  const k1 = f(rules.blockForce, 3);
+  const k2 = f(rules.blockCentroid, 3);
+  const isRectangularBlock = design.sectionType === 'Rectangular' || design.neutralAxisInFlange;
+  const bc = design.sectionType === 'Rectangular' ? b : design.flangeWidth;
+
+  const steps: CalculationStep[] = [
+    {
+      description: 'Effective depth (centroid of the bars provided)',
+      formula: 'd = D − ȳ',
+      substitution: `${D} − ${f(D - d, 1)}`,
+      result: `${f(d, 1)} mm`
+    },
+    {
+      description: 'Stress block',
+      result: `C = k1 b x with k1 = ${k1} N/mm², lever arm d − k2 x with k2 = ${k2}, fyd = ${f(rules.steelStress, 1)} N/mm²${phi < 1 ? `, φ = ${phi}` : ''}`,
+      reference: code.references.flexure
+    },
+  ];
+
+  if (design.torsion.tu > 0) {
+    steps.push({
+      description: 'Equivalent moment',
+      formula: 'Me1 = Mu + Mt',
+      substitution: `${f(analysis.maxSaggingMoment)} + ${f(design.torsion.mt)}`,
+      result: `${f(mu)} kNm`,
+      reference: 'IS 456 Cl 41.4.2'
+    });
+  }
+
+  steps.push(
+    {
+      description: 'Limiting neutral axis depth',
+      formula: 'xu,max = (xu,max / d) d',
+      substitution: `${f(rules.maxNeutralAxisRatio, 3)} × ${f(d, 1)}`,
+      result: `${f(xuMax, 1)} mm`,
+      reference: code.references.flexure
+    },
+    design.sectionType === 'Rectangular'
+      ? {
+        description: 'Limiting moment of resistance',
+        formula: 'Mu,lim = φ k1 b xu,max (d − k2 xu,max)',
+        substitution: `${phi} × ${k1} × ${b} × ${f(xuMax, 1)} × (${f(d, 1)} − ${k2} × ${f(xuMax, 1)}) × 10⁻⁶`,
+        result: `${f(design.muLim)} kNm`,
+        reference: code.references.flexure
+      }
+      : {
+        description: `Limiting moment of resistance, ${design.sectionType}-beam (bf = ${f(design.flangeWidth, 0)} mm, Df = ${design.flangeDepth} mm)`,
+        formula: 'Mu,lim = φ [k1 bw xu,max (d − k2 xu,max) + fcf (bf − bw) yf (d − yf / 2)]',
+        result: `${f(design.muLim)} kNm`,
+        reference: code.references.flexure
+      },
+    {
+      description: design.isDoublyReinforced ? 'Mu > Mu,lim: doubly reinforced' : 'Mu ≤ Mu,lim: singly reinforced',
+      result: `${f(mu)} kNm ${design.isDoublyReinforced ? '>' : '≤'} ${f(design.muLim)} kNm`
+    },
+  );
+
+  if (isRectangularBlock) {
+    steps.push({
+      description: design.isDoublyReinforced
+        ? 'Tension steel for Mu,lim'
+        : `Neutral axis depth and tension steel${design.sectionType !== 'Rectangular' ? ' (neutral axis in the flange, b = bf)' : ''}`,
+      formula: 'k1 b xu (d − k2 xu) = Mu / φ;  Ast1 = k1 b xu / fyd',
+      substitution: `${k1} × ${f(bc, 0)} × ${f(design.neutralAxisDepth, 1)} / ${f(rules.steelStress, 1)}`,
+      result: `xu = ${f(design.neutralAxisDepth, 1)} mm, Ast1 = ${f(design.ast1, 0)} mm²`,
+      reference: code.references.flexure
+    });
+  } else {
+    steps.push({
+      description: 'Neutral axis in the web: tension steel balancing web and flange compression',
+      formula: 'Ast1 = [k1 bw xu + fcf (bf − bw) yf] / fyd',
+      result: `xu = ${f(design.neutralAxisDepth, 1)} mm, Ast1 = ${f(design.ast1, 0)} mm²`,
+      reference: code.references.flexure
+    });
+  }
+
+  if (design.isDoublyReinforced) {
+    steps.push(
+      {
+        description: 'Compression steel for Mu − Mu,lim',
+        formula: "Asc = (Mu − Mu,lim) / φ / [(fsc − fcc) (d − d')]",
+        result: `fsc = ${f(design.fsc, 1)} N/mm², Asc = ${f(design.ascRequired, 0)} mm²`,
+        reference: code.references.flexure
+      },
+      {
+        description: 'Additional tension steel',
+        formula: 'Ast2 = Asc (fsc − fcc) / fyd',
+        result: `${f(design.ast2, 0)} mm²`
+      },
+    );
+  }
+
+  const astMin = code.minTensionSteel(b, d, fck as number, fy);
+  const astMax = 0.04 * b * D;
+  const support = design.supportSteel;
+  const maxSteel = Math.max(design.astProvided, design.ascProvided, support ? support.astProvided : 0);
+  steps.push(
+    {
+      description: 'Minimum tension steel',
+      result: `${f(astMin, 0)} mm²`,
+      reference: code.references.minTensionSteel
+    },
+    {
+      description: 'Tension steel required',
+      formula: 'Ast = max(Ast1 + Ast2, Ast,min)',
+      substitution: `max(${f(design.ast1 + design.ast2, 0)}, ${f(astMin, 0)})`,
+      result: `${f(design.astRequired, 0)} mm²`
+    },
+    {
+      description: 'Tension steel provided',
+      result: checkResult(
+        `${design.barArrangement.description} = ${f(design.astProvided, 0)} mm²`,
+        `${f(design.astRequired, 0)} mm²`,
+        design.astProvided >= design.astRequired,
+        '≥'
+      ),
+      passed: design.astProvided >= design.astRequired
+    },
+    {
+      description: 'Maximum steel',
+      formula: '0.04 b D',
+      substitution: `0.04 × ${b} × ${D}`,
+      result: checkResult(`${f(maxSteel, 0)} mm²`, `${f(astMax, 0)} mm²`, maxSteel <= astMax),
+      reference: detailingReference(inputs, 'Cl 26.5.1.1 (b), 26.5.1.2'),
+      passed: maxSteel <= astMax
+    },
+    {
+      description: 'Clear spacing between bars',
+      result: checkResult(`${f(Math.min(...design.barArrangement.layers.map(l => l.clearSpacing)), 0)} mm`, `${f(design.barArrangement.minClearSpacing, 0)} mm`, design.barArrangement.spacingCheckPassed, '≥'),
+      reference: detailingReference(inputs, 'Cl 26.3.2'),
+      passed: design.barArrangement.spacingCheckPassed
+    },
+    {
+      description: 'Top bars',
+      result: `${design.numberOfCompressionBars} - T${inputs.topBarDia} = ${f(design.ascProvided, 0)} mm²${design.isDoublyReinforced || design.torsion.me2 > 0 ? '' : ' (hangers)'}`
+    },
+  );
+
+  // Top steel over the supports, designed on the web width for the largest hogging moment
+  if (support) {
+    const spacing = support.barArrangement;
+    steps.push(
+      {
+        description: design.torsion.tu > 0 ? 'Hogging moment at the supports, with torsion' : 'Hogging moment at the supports',
+        formula: design.torsion.tu > 0 ? 'Me1 = Mu + Mt' : undefined,
+        substitution: design.torsion.tu > 0 ? `${f(analysis.maxHoggingMoment)} + ${f(design.torsion.mt)}` : undefined,
+        result: `${f(support.moment)} kNm`
+      },
+      {
+        description: `Support section (b = ${b} mm, d = ${f(support.effectiveDepth, 1)} mm): ${support.isDoublyReinforced ? 'Mu > Mu,lim, doubly reinforced' : 'Mu ≤ Mu,lim, singly reinforced'}`,
+        result: `${f(support.moment)} kNm ${support.isDoublyReinforced ? '>' : '≤'} ${f(support.muLim)} kNm`,
+        reference: code.references.flexure
+      },
+      {
+        description: 'Top steel provided over the supports',
+        result: checkResult(
+          `${spacing.description} = ${f(support.astProvided, 0)} mm²`,
+          `${f(support.astRequired, 0)} mm²`,
+          support.astProvided >= support.astRequired,
+          '≥'
+        ),
+        reference: code.references.flexure,
+        passed: support.astProvided >= support.astRequired
+      },
+    );
+    if (support.isDoublyReinforced) {
+      steps.push({
+        description: 'Bottom bars running into the supports, in compression',
+        result: checkResult(`${f(support.ascProvided, 0)} mm²`, `${f(support.ascRequired, 0)} mm²`, support.ascProvided >= support.ascRequired, '≥'),
+        passed: support.ascProvided >= support.ascRequired
+      });
+    }
+    steps.push({
+      description: 'Clear spacing between the support bars',
+      result: checkResult(`${f(Math.min(...spacing.layers.map(l => l.clearSpacing)), 0)} mm`, `${f(spacing.minClearSpacing, 0)} mm`, spacing.spacingCheckPassed, '≥'),
+      reference: detailingReference(inputs, 'Cl 26.3.2'),
+      passed: spacing.spacingCheckPassed
+    });
+  }
+
+  return { title: 'Flexure', steps };
+};
+
+const shearSection = (inputs: DesignInputs, analysis: AnalysisResult, design: DesignResult): CalculationSection => {
+  const { beamWidth: b, stirrupBarDia } = inputs;
+  const tension = design.tensionFace === 'Top' && design.supportSteel ? design.supportSteel : design;
+  const d = tension.effectiveDepth;
+  const hasTorsion = design.torsion.tu > 0;
+  const asv = 2 * (Math.PI / 4) * stirrupBarDia * stirrupBarDia;
+  const tauDesign = hasTorsion ? design.torsion.tauVe : design.tauV;
+
+  const steps: CalculationStep[] = [
+    {
+      description: 'Nominal shear stress',
+      formula: 'τv = Vu / (b d)',
+      substitution: `${f(analysis.maxShear)} × 10³ / (${b} × ${f(d, 1)})`,
+      result: `${f(design.tauV)} N/mm²`,
+      reference: 'IS 456 Cl 40.1'
+    },
+    {
+      description: design.tensionFace === 'Top' ? 'Tension steel at the section (top bars over the support)' : 'Tension steel at the section',
+      formula: 'pt = 100 Ast / (b d)',
+      substitution: `100 × ${f(tension.astProvided, 0)} / (${b} × ${f(d, 1)})`,
+      result: `${f(design.ptProvided, 3)} %`
+    },
+    { description: 'Design shear strength of concrete τc', result: `${f(design.tauC)} N/mm²`, reference: design.tauCReference },
+  ];
+
+  if (hasTorsion) {
+    steps.push(
+      {
+        description: 'Equivalent shear',
+        formula: 'Ve = Vu + 1.6 Tu / b',
+        substitution: `${f(analysis.maxShear)} + 1.6 × ${f(design.torsion.tu)} / ${f(b / 1000, 3)}`,
+        result: `${f(design.torsion.ve)} kN`,
+        reference: 'IS 456 Cl 41.3.1'
+      },
+      {
+        description: 'Equivalent shear stress',
+        formula: 'τve = Ve / (b d)',
+        substitution: `${f(design.torsion.ve)} × 10³ / (${b} × ${f(design.effectiveDepth, 1)})`,
+        result: `${f(design.torsion.tauVe)} N/mm²`,
+        reference: 'IS 456 Cl 41.3.1'
+      },
+    );
+  }
+
+  steps.push(
+    {
+      description: 'Maximum shear stress',
+      result: checkResult(`${f(tauDesign)} N/mm²`, `τc,max = ${f(design.tauCMax)} N/mm²`, tauDesign <= design.tauCMax),
+      passed: tauDesign <= design.tauCMax
+    },
+    {
+      description: hasTorsion ? 'Closed stirrups for shear and torsion' : (design.shearReinforcementRequired ? 'Shear reinforcement' : 'Minimum shear reinforcement'),
+      formula: 'Asv = 2 π φ² / 4',
+      substitution: `2 × π × ${stirrupBarDia}² / 4 = ${f(asv, 1)} mm²`,
+      result: design.stirrupSpacing > 0 ? `2-legged T${stirrupBarDia} @ ${design.stirrupSpacing} mm c/c` : 'Section inadequate in shear',
+      reference: hasTorsion ? 'IS 456 Cl 41.4.3, 26.5.1.7' : undefined,
+      passed: design.stirrupSpacing > 0
+    },
+  );
+
+  return { title: 'Shear', steps };
+};
+
+const torsionSection = (inputs: DesignInputs, analysis: AnalysisResult, design: DesignResult): CalculationSection => {
+  const t = design.torsion;
+  const { beamWidth: b, beamDepth: D } = inputs;
+  const steps: CalculationStep[] = [
+    {
+      description: 'Equivalent moment for torsion',
+      formula: 'Mt = Tu (1 + D / b) / 1.7',
+      substitution: `${f(t.tu)} × (1 + ${D} / ${b}) / 1.7`,
+      result: `${f(t.mt)} kNm`,
+      reference: 'IS 456 Cl 41.4.2'
+    },
+    {
+      description: 'Compression face moment',
+      formula: 'Me2 = Mt − Mu (when Mt > Mu)',
+      substitution: t.me2 > 0 ? `${f(t.mt)} − ${f(analysis.maxSaggingMoment)}` : undefined,
+      result: t.me2 > 0 ? `${f(t.me2)} kNm, Ast = ${f(t.astCompressionFace, 0)} mm² on the compression face` : 'Mt ≤ Mu, not required',
+      reference: 'IS 456 Cl 41.4.2.1'
+    },
+    {
+      description: 'Corner bar distances',
+      result: `b1 = ${f(t.b1, 0)} mm, d1 = ${f(t.d1, 0)} mm`,
+      reference: 'IS 456 Cl 41.4.3'
+    },
+  ];
+  if (t.sideFaceBars > 0) {
+    steps.push({
+      description: 'Side face reinforcement (D > 450 mm)',
+      formula: '0.1% of the web area, spacing ≤ 300 mm',
+      result: `${t.sideFaceBars} - T${t.sideFaceBarDia} each face`,
+      reference: 'IS 456 Cl 26.5.1.3'
+    });
+  }
+  return { title: 'Torsion', steps };
+};
+
+const serviceabilitySection = (design: DesignResult): CalculationSection => {
+  const cd = design.computedDeflection;
+  const steps: CalculationStep[] = [
+    {
+      description: 'Allowable span / depth ratio',
+      formula: 'basic × kt × kc × kf',
+      substitution: `${f(design.basicLbyD)} × ${f(design.modificationFactorKt, 3)} × ${f(design.modificationFactorKc, 3)} × ${f(design.reductionFactorKf, 3)}`,
+      result: `${f(design.allowableLbyD)}`,
+      reference: design.deflectionReference
+    },
+    {
+      description: 'Span / depth check',
+      result: checkResult(f(design.actualLbyD), f(design.allowableLbyD), design.deflectionCheckPassed),
+      passed: design.deflectionCheckPassed
+    },
+    {
+      description: 'Cracked section properties',
+      result: `Ec = ${f(cd.ec, 0)} N/mm², Mcr = ${f(cd.crackingMoment)} kNm, Igr = ${(cd.igr / 1e6).toFixed(0)} × 10⁶ mm⁴, `
+        + `Icr = ${(cd.icr / 1e6).toFixed(0)} × 10⁶ mm⁴, Ieff = ${(cd.ieff / 1e6).toFixed(0)} × 10⁶ mm⁴, θ = ${f(cd.creepCoefficient, 1)}`,
+      reference: 'IS 456 Annex C'
+    },
+    ...cd.spans.flatMap((s, i): CalculationStep[] => {
+      const label = cd.spans.length > 1 ? `Span ${i + 1}: ` : '';
+      return [
+        {
+          description: `${label}Total deflection`,
+          formula: 'a = a(short-term) + a(shrinkage) + a(creep)',
+          substitution: `${f(s.shortTerm)} + ${f(s.shrinkage)} + ${f(s.creep)}`,
+          result: checkResult(`${f(s.total)} mm`, `${f(s.totalLimit)} mm`, s.total <= s.totalLimit),
+          reference: 'IS 456 Cl 23.2 (a), Annex C',
+          passed: s.total <= s.totalLimit
+        },
+        {
+          description: `${label}Deflection after partitions`,
+          result: checkResult(`${f(s.afterPartitions)} mm`, `${f(s.afterPartitionsLimit)} mm`, s.afterPartitions <= s.afterPartitionsLimit),
+          reference: 'IS 456 Cl 23.2 (b)',
+          passed: s.afterPartitions <= s.afterPartitionsLimit
+        },
+      ];
+    }),
+    ...design.crackWidthChecks.flatMap((c): CalculationStep[] => {
+      const face = c.face === 'Bottom' ? 'Bottom face (sagging)' : 'Top face over the supports (hogging)';
+      return [
+        {
+          description: `${face}: steel stress and neutral axis under service moment`,
+          result: `Ms = ${f(c.serviceMoment)} kNm, fs = ${f(c.serviceSteelStress, 1)} N/mm², x = ${f(c.neutralAxisDepthService, 1)} mm`,
+          reference: 'IS 456 Annex F'
+        },
+        {
+          description: `${face}: crack width`,
+          formula: 'wcr = 3 acr εm / [1 + 2 (acr − cmin) / (D − x)]',
+          result: checkResult(`${f(c.crackWidth, 3)} mm`, `${design.crackWidthLimit} mm`, c.passed),
+          reference: 'IS 456 Annex F, Cl 35.3.2',
+          passed: c.passed
+        },
+      ];
+    }),
+  ];
+  return { title: 'Serviceability', steps };
+};
+
+const detailingSection = (inputs: DesignInputs, design: DesignResult): CalculationSection => {
+  const c = design.curtailment;
+  return {
+    title: 'Curtailment and Anchorage',
+    steps: [
+      {
+        description: 'Development length',
+        formula: 'Ld = φ σs / (4 τbd)',
+        substitution: `${inputs.mainBarDia} × 0.87 × ${inputs.fy} / (4 × ${f(c.bondStress)})`,
+        result: `${c.developmentLength} mm`,
+        reference: detailingReference(inputs, 'Cl 26.2.1')
+      },
+      ...c.barGroups.map(g => ({
+        description: `${g.label}`,
+        result: `${g.count} - T${g.diameter} ${g.face === 'Top' ? 'top' : 'bottom'}, ${f(g.start)} m to ${f(g.end)} m`
+          + `${g.curtailed ? ' (curtailed)' : ''}; ${g.leftAnchorage} / ${g.rightAnchorage}`,
+        reference: detailingReference(inputs, 'Cl 26.2.3')
+      })),
+      ...c.anchorageChecks.map(a => ({
+        description: `Anchorage at ${a.location}`,
+        formula: 'k M1 / V + L0 ≥ Ld',
+        substitution: `${a.factor} × ${f(a.m1)} × 10³ / ${f(a.v)} + ${f(a.l0, 0)}`,
+        result: checkResult(`${f(a.available, 0)} mm`, `${a.ld} mm`, a.passed, '≥'),
+        reference: detailingReference(inputs, 'Cl 26.2.3.3 (c)'),
+        passed: a.passed
+      })),
+    ]
+  };
+};
+
+export const buildCalculationReport = (
+  inputs: DesignInputs,
+  loads: LoadResult,
+  analysis: AnalysisResult,
+  design: DesignResult,
+  title = 'Beam Design Calculation'
+): CalculationReport => {
+  const issues = validateInputs(inputs);
+  return {
+    title,
+    designCode: getDesignCode(inputs.designCode).name,
+    sections: [
+      designDataSection(inputs),
+      inputCheckSection(issues),
+      loadSection(inputs, loads),
+      analysisSection(inputs, analysis),
+      flexureSection(inputs, analysis, design),
+      shearSection(inputs, analysis, design),
+      ...(design.torsion.tu > 0 ? [torsionSection(inputs, analysis, design)] : []),
+      serviceabilitySection(design),
+      detailingSection(inputs, design),
+    ],
+    passed: designPasses(design) && !hasErrors(issues)
+  };
+};
+
+const markdownCell = (text = '') => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+// The report as Markdown, one table of steps per section as on the printed sheet
+export const reportToMarkdown = (report: CalculationReport, subtitle: string) => [
+  `# ${report.title}`,
+  '',
+  `${subtitle}  `,
+  `${report.designCode}  `,
+  `**${report.passed ? 'ALL CHECKS PASS' : 'DESIGN FAILS ONE OR MORE CHECKS'}**`,
+  ...report.sections.flatMap((section, s) => [
+    '',
+    `## ${s + 1}. ${section.title}`,
+    '',
+    '| No. | Step | Formula / Substitution | Result | Reference |',
+    '| --- | --- | --- | --- | --- |',
+    ...section.steps.map((step, i) => {
+      const formula = [step.formula, step.substitution && `= ${step.substitution}`].filter(Boolean).join('<br>');
+      const result = step.passed === false ? `**${markdownCell(step.result)}**` : markdownCell(step.result);
+      return `| ${s + 1}.${i + 1} | ${markdownCell(step.description)} | ${markdownCell(formula)} | ${result} | ${markdownCell(step.reference)} |`;
+    }),
+  ]),
+  '',
+].join('\n');
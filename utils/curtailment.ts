@@ -0,0 +1,264 @@
+// Bar curtailment and anchorage of flexural reinforcement, IS 456 Cl 26.2
+// Cut-off points are taken from the moment envelope of all load combinations.
+
+import { AnalysisResult, AnchorageCheck, BarGroup, CurtailmentResult, DesignInputs, SupportCondition } from '../types';
+
+type EnvelopePoint = { x: number; max: number; min: number };
+
+// Design bond stress for plain bars in tension, IS 456 Cl 26.2.1.1 (N/mm2)
+const BOND_STRESS: [number, number][] = [[20, 1.2], [25, 1.4], [30, 1.5], [35, 1.7], [40, 1.9]];
+
+// All the steel grades offered are deformed bars, so tau_bd is increased by 60%
+export const getBondStress = (fck: number): number => {
+  const row = [...BOND_STRESS].reverse().find(([grade]) => fck >= grade) ?? BOND_STRESS[0];
+  return parseFloat((row[1] * 1.6).toFixed(2));
+};
+
+// Ld = phi * sigma_s / (4 * tau_bd), IS 456 Cl 26.2.1
+export const getDevelopmentLength = (dia: number, fy: number, fck: number): number =>
+  Math.ceil((dia * 0.87 * fy) / (4 * getBondStress(fck)));
+
+const barArea = (dia: number) => (Math.PI / 4) * dia * dia;
+
+// Moment of resistance of an under-reinforced rectangular section (IS 456 Annex G-1.1 b), kNm
+const momentCapacity = (ast: number, b: number, d: number, fy: number, fck: number) =>
+  (0.87 * fy * ast * d * (1 - (ast * fy) / (b * d * fck))) / 1000000;
+
+// First x, walking along the points, at which value(p) reaches the limit (interpolated between samples)
+const firstReaching = (points: EnvelopePoint[], value: (p: EnvelopePoint) => number, limit: number): number | null => {
+  for (let i = 0; i < points.length; i++) {
+    const v = value(points[i]);
+    if (v < limit) continue;
+    if (i === 0) return points[0].x;
+    const prev = value(points[i - 1]);
+    return points[i - 1].x + (points[i].x - points[i - 1].x) * (limit - prev) / (v - prev);
+  }
+  return null;
+};
+
+// Largest absolute shear of the span envelope at x
+const shearAt = (points: EnvelopePoint[], x: number) => {
+  const nearest = points.reduce((best, p) => (Math.abs(p.x - x) < Math.abs(best.x - x) ? p : best));
+  return Math.max(Math.abs(nearest.max), Math.abs(nearest.min));
+};
+
+const round = (x: number) => parseFloat(x.toFixed(3));
+
+export const calculateCurtailment = (
+  inputs: DesignInputs,
+  analysis: AnalysisResult,
+  d: number, // mm, effective depth of the bars provided
+  bottomBars: number[], // mm, diameters of the tension bars, corner bars first
+  numberOfTopBars: number, // Hangers, or compression bars when doubly reinforced
+  sectionWidth: number, // mm, flange width for sagging when flanged
+  supports: SupportCondition[],
+  supportBars: (hogging: number) => { bars: number[]; d: number } // mm, top bars designed for a support moment (corner bars first) and their effective depth
+): CurtailmentResult => {
+  const { fck, fy, beamWidth: b, mainBarDia: dia } = inputs;
+  const bondStress = getBondStress(fck as number);
+  const ld = getDevelopmentLength(dia, fy, fck as number);
+  const extension = Math.max(d, 12 * dia); // mm
+
+  const spans = analysis.spans;
+  const totalLength = spans.reduce((sum, s) => sum + s.length, 0);
+  // Envelope points of each span (interior supports appear in both neighbouring spans)
+  const inSpan = (span: { start: number; length: number }) => (p: EnvelopePoint) =>
+    p.x >= span.start - 1e-6 && p.x <= span.start + span.length + 1e-6;
+  const spanPoints = spans.map(span => analysis.momentEnvelope.filter(inSpan(span)));
+  const shearPoints = spans.map(span => analysis.shearEnvelope.filter(inSpan(span)));
+
+  const isContinuous = spans.length > 1 || supports.includes('Fixed');
+  const barGroups: BarGroup[] = [];
+  const anchorageChecks: AnchorageCheck[] = [];
+  const freeEnd = 'Free end: stop at end cover';
+
+  // Ld <= factor * M1/V + L0, skipped where the section carries no shear
+  const checkAnchorage = (location: string, x: number, m1: number, v: number, l0: number, factor: number) => {
+    if (v < 1e-6) return;
+    const available = (factor * m1 * 1000) / v + l0;
+    anchorageChecks.push({ location, x: round(x), m1, v, l0, factor, available, ld, passed: ld <= available });
+  };
+
+  // Simple supports at the ends of the beam: L0 is the straight length past the support centre plus a 90 degree bend (8 phi)
+  const l0Support = inputs.supportWidth / 2 - inputs.clearCover + 8 * dia;
+
+  // 1. Bottom bars: at least 1/3 (simple) or 1/4 (continuous) run into the supports, Cl 26.2.3.3 (a).
+  // The continuing bars are the corner bars; the rest are curtailed in groups of one diameter.
+  const numberOfBars = bottomBars.length;
+  const continuingBottom = Math.min(numberOfBars, Math.max(2, Math.ceil(numberOfBars / (isContinuous ? 4 : 3))));
+  const m1Bottom = momentCapacity(
+    bottomBars.slice(0, continuingBottom).reduce((sum, bar) => sum + barArea(bar), 0), sectionWidth, d, fy, fck as number
+  );
+  const curtailedBars = bottomBars.slice(continuingBottom);
+  const curtailedDiameters = [...new Set(curtailedBars)];
+
+  spans.forEach((span, i) => {
+    const points = spanPoints[i];
+    const spanEnd = span.start + span.length;
+    const ends = [
+      { support: supports[i], x: span.start, side: 'left' as const },
+      { support: supports[i + 1], x: spanEnd, side: 'right' as const },
+    ];
+
+    const anchorage = ends.map(({ support, x, side }) => {
+      if (support === 'Free') return freeEnd;
+      const isEnd = (side === 'left' && i === 0) || (side === 'right' && i === spans.length - 1);
+      if (isEnd && support !== 'Fixed') {
+        checkAnchorage(`Support ${side === 'left' ? i + 1 : i + 2} (simple)`, x, m1Bottom, shearAt(shearPoints[i], x), l0Support, 1.3);
+        return `Extend to support end with 90° bend (L0 = ${l0Support.toFixed(0)} mm)`;
+      }
+      return `Extend Ld/3 = ${Math.ceil(ld / 3)} mm into support`;
+    });
+
+    // Points of inflection of the sagging envelope, where bottom bars lose their moment
+    const inflections = [
+      points[0].max < 0 ? firstReaching(points, p => p.max, 0) : null,
+      points[points.length - 1].max < 0 ? firstReaching([...points].reverse(), p => p.max, 0) : null,
+    ];
+    // L0 at a point of inflection is limited to the greater of d and 12 phi
+    inflections.forEach(x => {
+      if (x !== null && x > span.start + 1e-3 && x < spanEnd - 1e-3) checkAnchorage(`Span ${i + 1} inflection point`, x, m1Bottom, shearAt(shearPoints[i], x), extension, 1);
+    });
+
+    barGroups.push({
+      label: `Span ${i + 1} bottom, continuing`,
+      face: 'Bottom',
+      count: continuingBottom,
+      diameter: dia,
+      start: span.start,
+      end: spanEnd,
+      curtailed: false,
+      theoreticalStart: null,
+      theoreticalEnd: null,
+      leftAnchorage: anchorage[0],
+      rightAnchorage: anchorage[1],
+    });
+
+    // Remaining bars are needed only where the sagging moment exceeds what the continuing bars resist
+    const theoreticalStart = firstReaching(points, p => p.max, m1Bottom);
+    const theoreticalEnd = firstReaching([...points].reverse(), p => p.max, m1Bottom);
+    if (theoreticalStart === null || theoreticalEnd === null) return;
+    curtailedDiameters.forEach(barDia => {
+      const barExtension = Math.max(d, 12 * barDia);
+      const start = Math.max(span.start, theoreticalStart - barExtension / 1000);
+      const end = Math.min(spanEnd, theoreticalEnd + barExtension / 1000);
+      barGroups.push({
+        label: `Span ${i + 1} bottom, curtailed`,
+        face: 'Bottom',
+        count: curtailedBars.filter(bar => bar === barDia).length,
+        diameter: barDia,
+        start: round(start),
+        end: round(end),
+        curtailed: true,
+        theoreticalStart: round(theoreticalStart),
+        theoreticalEnd: round(theoreticalEnd),
+        leftAnchorage: start <= span.start ? anchorage[0] : `Extend ${barExtension.toFixed(0)} mm past theoretical cut-off`,
+        rightAnchorage: end >= spanEnd ? anchorage[1] : `Extend ${barExtension.toFixed(0)} mm past theoretical cut-off`,
+      });
+    });
+  });
+
+  // 2. Top hangers (or compression bars) run the full length
+  barGroups.push({
+    label: 'Top hangers, full length',
+    face: 'Top',
+    count: numberOfTopBars,
+    diameter: inputs.topBarDia,
+    start: 0,
+    end: totalLength,
+    curtailed: false,
+    theoreticalStart: null,
+    theoreticalEnd: null,
+    leftAnchorage: supports[0] === 'Free' ? freeEnd : 'Anchor Ld into support',
+    rightAnchorage: supports[supports.length - 1] === 'Free' ? freeEnd : 'Anchor Ld into support',
+  });
+
+  // 3. Top bars over supports with hogging moment, Cl 26.2.3.4
+  const nodes = [...spans.map(s => s.start), totalLength];
+  nodes.forEach((x, j) => {
+    const adjacent = [j - 1, j].filter(i => i >= 0 && i < spans.length);
+    const hogging = Math.max(0, ...adjacent.map(i => {
+      const points = spanPoints[i];
+      const atSupport = i === j ? points[0] : points[points.length - 1];
+      return -atSupport.min;
+    }));
+    if (hogging < 0.01) return;
+
+    // The continuing bars are the corner bars; the rest are curtailed in groups of one diameter
+    const { bars: topBars, d: dTop } = supportBars(hogging);
+    const count = topBars.length;
+    const continuing = Math.min(count, Math.max(2, Math.ceil(count / 3)));
+    const m1Top = momentCapacity(topBars.slice(0, continuing).reduce((sum, bar) => sum + barArea(bar), 0), b, dTop, fy, fck as number);
+
+    // Extent of the top bars into span i, walking away from the support
+    const extentInto = (i: number) => {
+      const span = spans[i];
+      const direction = i === j ? 1 : -1;
+      const outward = direction > 0 ? spanPoints[i] : [...spanPoints[i]].reverse();
+      const limit = direction > 0 ? span.start + span.length : span.start;
+      const farSupport = supports[direction > 0 ? i + 1 : i];
+      const clamp = (v: number) => (direction > 0 ? Math.min(v, limit) : Math.max(v, limit));
+      const nearer = (a: number, c: number) => (direction > 0 ? Math.min(a, c) : Math.max(a, c));
+
+      // At least 1/3 of the bars go past the point of inflection by d, 12 phi or ln/16
+      const inflection = firstReaching(outward, p => p.min, 0);
+      const anchorLength = Math.max(dTop, 12 * topBars[0], (span.length * 1000) / 16);
+      const continuingEnd = inflection === null ? limit : clamp(inflection + direction * anchorLength / 1000);
+      const continuingAnchorage = inflection !== null
+        ? `Extend ${anchorLength.toFixed(0)} mm past point of inflection`
+        : (farSupport === 'Free' ? freeEnd : 'Run to next support');
+
+      // Curtailed bars extend barExtension past their theoretical cut-off
+      const theoretical = firstReaching(outward, p => p.min, -m1Top);
+      const curtailedEnd = (barExtension: number) => (theoretical === null
+        ? continuingEnd
+        : nearer(clamp(theoretical + direction * barExtension / 1000), continuingEnd));
+      return { continuingEnd, continuingAnchorage, curtailedEnd, theoretical };
+    };
+
+    const left = j > 0 ? extentInto(j - 1) : null;
+    const right = j < spans.length ? extentInto(j) : null;
+    const endAnchorage = supports[j] === 'Fixed' ? `Anchor Ld = ${ld} mm beyond support face` : 'Anchor into support with 90° bend';
+
+    barGroups.push({
+      label: `Support ${j + 1} top, continuing`,
+      face: 'Top',
+      count: continuing,
+      diameter: topBars[0],
+      start: round(left ? left.continuingEnd : x),
+      end: round(right ? right.continuingEnd : x),
+      curtailed: false,
+      theoreticalStart: null,
+      theoreticalEnd: null,
+      leftAnchorage: left ? left.continuingAnchorage : endAnchorage,
+      rightAnchorage: right ? right.continuingAnchorage : endAnchorage,
+    });
+
+    const curtailedTop = topBars.slice(continuing);
+    [...new Set(curtailedTop)].forEach(barDia => {
+      const barExtension = Math.max(dTop, 12 * barDia);
+      barGroups.push({
+        label: `Support ${j + 1} top, curtailed`,
+        face: 'Top',
+        count: curtailedTop.filter(bar => bar === barDia).length,
+        diameter: barDia,
+        start: round(left ? left.curtailedEnd(barExtension) : x),
+        end: round(right ? right.curtailedEnd(barExtension) : x),
+        curtailed: true,
+        theoreticalStart: left && left.theoretical !== null ? round(left.theoretical) : null,
+        theoreticalEnd: right && right.theoretical !== null ? round(right.theoretical) : null,
+        leftAnchorage: left ? `Extend ${barExtension.toFixed(0)} mm past theoretical cut-off` : endAnchorage,
+        rightAnchorage: right ? `Extend ${barExtension.toFixed(0)} mm past theoretical cut-off` : endAnchorage,
+      });
+    });
+  });
+
+  return {
+    bondStress,
+    developmentLength: ld,
+    extension,
+    barGroups,
+    anchorageChecks,
+    passed: anchorageChecks.every(c => c.passed),
+  };
+};
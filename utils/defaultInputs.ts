@@ -0,0 +1,67 @@
+// Inputs of a new design, also used to fill fields missing from imported project files
+
+import { ConcreteGrade, DesignInputs, SteelGrade } from '../types';
+import { DESIGN_CODES } from './designCodes';
+
+export const DEFAULT_INPUTS: DesignInputs = {
+  designCode: 'IS456',
+  slabThickness: 125,
+  liveLoad: 3.0,
+  floorFinish: 1.0,
+  
+  leftSlab: {
+    enabled: true,
+    type: 'TwoWay',
+    lx: 3.0,
+    ly: 4.5,
+    supportEdge: 'Short' // Triangular load
+  },
+  rightSlab: {
+    enabled: false,
+    type: 'TwoWay',
+    lx: 3.0,
+    ly: 4.5,
+    supportEdge: 'Long'
+  },
+  
+  pointLoads: [],
+  lineLoads: [],
+  pointMoments: [],
+
+  beamWidth: 230,
+  beamDepth: 450,
+  beamClearSpan: 3.0,
+  effectiveCover: 50,
+  clearCover: 25,
+  supportWidth: 230,
+  crackWidthLimit: 0.3,
+  leftSupport: 'Pinned',
+  rightSupport: 'Roller',
+  designAsFlanged: false,
+  torsion: {
+    torsionalMoment: 0,
+    loadCase: 'Dead',
+    cantileverSlab: {
+      enabled: false,
+      projection: 0.6,
+      thickness: 100
+    }
+  },
+  wallHeight: 3.0,
+  wallThickness: 230,
+  masonryDensity: 20, // Default 20 kN/m3
+  windMoment: 0,
+  seismicMoment: 0,
+  loadCombinations: DESIGN_CODES.IS456.loadCombinations,
+  liveLoadPatterning: false,
+  movingPointLoad: 0,
+  additionalSpans: [],
+  fck: ConcreteGrade.M20,
+  fy: SteelGrade.Fe500,
+  mainBarDia: 16,
+  topBarDia: 12,
+  stirrupBarDia: 8,
+};
+
+// Id of a new span, load, load combination or saved design
+export const newId = () => Math.random().toString(36).slice(2, 11);
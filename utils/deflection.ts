@@ -0,0 +1,170 @@
+// Computed deflection per IS 456 Annex C: short-term (Ieff), shrinkage and creep
+
+import { AnalysisResult, ComputedDeflectionResult, DesignInputs, SpanDeflection, SupportCondition } from '../types';
+import { STEEL_MODULUS } from './designCodes/designCode';
+
+const SHRINKAGE_STRAIN = 0.0003; // Cl 6.2.4.1, in the absence of test data
+const CREEP_COEFFICIENT = 1.6; // Cl 6.2.5.1, loading at 28 days
+
+type MomentPoint = { x: number; val: number };
+
+interface SectionProperties {
+  igr: number; // mm4
+  yt: number; // mm, centroid to the tension face
+  icr: number; // mm4
+  x: number; // mm, cracked neutral axis depth
+}
+
+// Gross and cracked transformed section; the flange (bf x Df) is in compression, compression steel is ignored
+const sectionProperties = (b: number, D: number, bf: number, Df: number, d: number, As: number, m: number): SectionProperties => {
+  const flangeArea = (bf - b) * Df;
+  const area = b * D + flangeArea;
+  const yTop = (b * D * D / 2 + flangeArea * Df / 2) / area;
+  const igr = b * D ** 3 / 12 + b * D * (D / 2 - yTop) ** 2 + (bf - b) * Df ** 3 / 12 + flangeArea * (yTop - Df / 2) ** 2;
+
+  // bf x^2 / 2 = m As (d - x), with the neutral axis in the flange
+  const x = (-m * As + Math.sqrt((m * As) ** 2 + 2 * bf * m * As * d)) / bf;
+  const icr = bf * x ** 3 / 3 + m * As * (d - x) ** 2;
+  return { igr, yt: D - yTop, icr, x };
+};
+
+// Annex C-2.1: Ieff = Icr / (1.2 - (Mr/M)(z/d)(1 - x/d)(bw/b)), limited to Icr <= Ieff <= Igr
+const effectiveInertia = (section: SectionProperties, mr: number, moment: number, d: number, bw: number, bf: number) => {
+  if (moment <= mr) return section.igr;
+  const z = d - section.x / 3;
+  const ieff = section.icr / (1.2 - (mr / moment) * (z / d) * (1 - section.x / d) * (bw / bf));
+  return Math.min(Math.max(ieff, section.icr), section.igr);
+};
+
+// Deflection (mm, downward positive) by double integration of M / EI along the whole beam.
+// The rigid-body line is fixed by a fixed support, or else by the first two supports.
+const deflectedShape = (moments: MomentPoint[], ei: number, supports: SupportCondition[], nodes: number[]) => {
+  const slope = [0];
+  const rise = [0];
+  for (let k = 1; k < moments.length; k++) {
+    const dx = (moments[k].x - moments[k - 1].x) * 1000;
+    const k0 = (moments[k - 1].val * 1000000) / ei;
+    const k1 = (moments[k].val * 1000000) / ei;
+    rise.push(rise[k - 1] + slope[k - 1] * dx + (2 * k0 + k1) * dx * dx / 6);
+    slope.push(slope[k - 1] + (k0 + k1) * dx / 2);
+  }
+
+  const indexAt = (x: number) => moments.findIndex(p => Math.abs(p.x - x) < 1e-6);
+  let a = 0;
+  let c = 0; // rise = a + c * x (mm) is added so the supports do not move
+  const fixed = supports.findIndex(s => s === 'Fixed');
+  if (fixed >= 0) {
+    const i = indexAt(nodes[fixed]);
+    c = -slope[i];
+    a = -rise[i] - c * nodes[fixed] * 1000;
+  } else {
+    const [i, j] = supports.map((s, n) => (s === 'Free' ? -1 : indexAt(nodes[n]))).filter(i => i >= 0);
+    if (j === undefined) return moments.map(() => 0); // Mechanism: no deflected shape
+    const xi = moments[i].x * 1000;
+    const xj = moments[j].x * 1000;
+    c = -(rise[j] - rise[i]) / (xj - xi);
+    a = -rise[i] - c * xi;
+  }
+
+  return moments.map((p, k) => -(rise[k] + a + c * p.x * 1000));
+};
+
+// Annex C-3: shrinkage deflection coefficient k3 by end conditions of the span
+const shrinkageCoefficient = (left: SupportCondition, right: SupportCondition, leftContinuous: boolean, rightContinuous: boolean) => {
+  if (left === 'Free' || right === 'Free') return 0.5;
+  if (leftContinuous && rightContinuous) return 0.063;
+  if (leftContinuous || rightContinuous) return 0.086;
+  return 0.125;
+};
+
+export const calculateComputedDeflection = (
+  inputs: DesignInputs,
+  analysis: AnalysisResult,
+  d: number, // mm
+  astProvided: number, // mm2
+  ascProvided: number, // mm2, 0 when singly reinforced
+  flangeWidth: number, // mm, equals the web width for rectangular sections
+  flangeDepth: number, // mm, 0 for rectangular sections
+  supports: SupportCondition[]
+): ComputedDeflectionResult => {
+  const { beamWidth: b, beamDepth: D, fck } = inputs;
+  const ec = 5000 * Math.sqrt(fck as number);
+  const ece = ec / (1 + CREEP_COEFFICIENT);
+  const fcr = 0.7 * Math.sqrt(fck as number);
+
+  const shortSection = sectionProperties(b, D, flangeWidth, flangeDepth, d, astProvided, STEEL_MODULUS / ec);
+  const longSection = sectionProperties(b, D, flangeWidth, flangeDepth, d, astProvided, STEEL_MODULUS / ece);
+  const mr = (fcr * shortSection.igr) / shortSection.yt / 1000000; // kNm
+
+  // One Ieff for the beam, taken at the largest moment of each load case
+  const permanentMoment = Math.max(...analysis.permanentMomentData.map(p => Math.abs(p.val)));
+  const ieff = effectiveInertia(shortSection, mr, analysis.serviceMoment, d, b, flangeWidth);
+  const ieffPermanent = effectiveInertia(shortSection, mr, permanentMoment, d, b, flangeWidth);
+  const ieffCreep = effectiveInertia(longSection, mr, permanentMoment, d, b, flangeWidth);
+
+  const nodes = [...analysis.spans.map(s => s.start), analysis.spans.reduce((sum, s) => sum + s.length, 0)];
+  const shortTerm = deflectedShape(analysis.serviceMomentData, ec * ieff, supports, nodes);
+  const permanent = deflectedShape(analysis.permanentMomentData, ec * ieffPermanent, supports, nodes);
+  const permanentLong = deflectedShape(analysis.permanentMomentData, ece * ieffCreep, supports, nodes);
+  const creep = permanentLong.map((v, k) => v - permanent[k]); // Annex C-4
+
+  // Annex C-3: a_cs = k3 psi_cs L^2, psi_cs = k4 eps_cs / D
+  const pt = (astProvided / (b * d)) * 100;
+  const pc = (ascProvided / (b * d)) * 100;
+  const netSteel = Math.max(pt - pc, 0.001);
+  const k4 = Math.min(1, (netSteel < 1 ? 0.72 : 0.65) * netSteel / Math.sqrt(pt));
+  const curvature = (k4 * SHRINKAGE_STRAIN) / D; // 1/mm
+
+  const spanMaxima = analysis.spans.map((span, i) => {
+    const inSpan = analysis.serviceMomentData
+      .map((p, k) => ({ x: p.x, k }))
+      .filter(p => p.x >= span.start - 1e-6 && p.x <= span.start + span.length + 1e-6)
+      .map(p => p.k);
+    const peak = (shape: number[]) => Math.max(0, ...inSpan.map(k => shape[k]));
+
+    const left = supports[i];
+    const right = supports[i + 1];
+    const k3 = shrinkageCoefficient(left, right, i > 0 || left === 'Fixed', i < analysis.spans.length - 1 || right === 'Fixed');
+    const L = span.length * 1000;
+    const shrinkage = k3 * curvature * L * L;
+
+    const shortTermPeak = peak(shortTerm);
+    const creepPeak = peak(creep);
+    const total = shortTermPeak + shrinkage + creepPeak;
+    const afterPartitions = Math.max(0, shortTermPeak - peak(permanent)) + shrinkage + creepPeak;
+    const totalLimit = L / 250;
+    const afterPartitionsLimit = Math.min(L / 350, 20);
+
+    const result: SpanDeflection = {
+      shortTerm: shortTermPeak,
+      shrinkage,
+      creep: creepPeak,
+      total,
+      totalLimit,
+      afterPartitions,
+      afterPartitionsLimit,
+      passed: total <= totalLimit && afterPartitions <= afterPartitionsLimit,
+    };
+    return { result, inSpan, shrinkage, shortTermPeak };
+  });
+
+  // Long-term shape: short-term + creep, with the shrinkage deflection distributed like the short-term shape of each span
+  const longTerm = shortTerm.map((v, k) => v + creep[k]);
+  spanMaxima.forEach(({ inSpan, shrinkage, shortTermPeak }) => {
+    if (shortTermPeak <= 0) return;
+    inSpan.forEach(k => { longTerm[k] += shrinkage * Math.max(0, shortTerm[k]) / shortTermPeak; });
+  });
+
+  const spans = spanMaxima.map(s => s.result);
+  return {
+    ec,
+    creepCoefficient: CREEP_COEFFICIENT,
+    crackingMoment: mr,
+    igr: shortSection.igr,
+    icr: shortSection.icr,
+    ieff,
+    spans,
+    shape: analysis.serviceMomentData.map((p, k) => ({ x: p.x, shortTerm: shortTerm[k], longTerm: longTerm[k] })),
+    passed: spans.every(s => s.passed),
+  };
+};
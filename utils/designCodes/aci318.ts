@@ -0,0 +1,110 @@
+// ACI 318-19 strength design (SI units). The concrete grade is taken as the specified cylinder strength f'c.
+
+import { LoadCombination } from '../../types';
+import { DesignCode, ShearDesignInput, SpanDepthInput, SpanEndCondition, STEEL_MODULUS } from './designCode';
+
+// Cl 5.3.1, Eq (5.3.1a)-(5.3.1g). EL = wind (strength level) or seismic.
+const LOAD_COMBINATIONS: LoadCombination[] = [
+  { id: 'aci-d', name: '1.4D', dead: 1.4, live: 0, lateral: 0 },
+  { id: 'aci-d-l', name: '1.2D+1.6L', dead: 1.2, live: 1.6, lateral: 0 },
+  { id: 'aci-d-l-el', name: '1.2D+1.0L+1.0(W/E)', dead: 1.2, live: 1.0, lateral: 1.0 },
+  { id: 'aci-min-el', name: '0.9D+1.0(W/E)', dead: 0.9, live: 0, lateral: 1.0 },
+];
+
+const SHEAR_STRENGTH_FACTOR = 0.75; // Table 21.2.1 (b)
+const MAX_STIRRUP_YIELD = 420; // N/mm2, Table 20.2.2.4 (a)
+
+// Table 22.2.2.4.3: beta1 = 0.85 up to 28 MPa, reducing by 0.05 per 7 MPa to 0.65
+const getBeta1 = (fc: number) => Math.min(0.85, Math.max(0.65, 0.85 - (0.05 * (fc - 28)) / 7));
+
+// Cl 22.2.2: 0.85 f'c over a = beta1 c, steel at fy. Sections are kept tension-controlled
+// (net tensile strain 0.005, Table 21.2.2) so phi = 0.9; compression steel beyond that.
+const flexure = (fc: number, fy: number) => {
+  const beta1 = getBeta1(fc);
+  return {
+    ultimateStrain: 0.003,
+    blockForce: 0.85 * fc * beta1,
+    blockCentroid: beta1 / 2,
+    flangeStress: 0.85 * fc,
+    flangeDepth: (c: number, hf: number) => Math.min(beta1 * c, hf),
+    steelStress: fy,
+    compressionSteelStress: (strain: number) => Math.min(strain * STEEL_MODULUS, fy),
+    displacedConcreteStress: 0.85 * fc,
+    maxNeutralAxisRatio: 0.003 / (0.003 + 0.005),
+    capacityFactor: 0.9
+  };
+};
+
+// Cl 22.5.5.1 (a): Vc = 0.17 sqrt(f'c) bw d; Vs = Av fyt d / s with Vs <= 0.66 sqrt(f'c) bw d (Cl 22.5.1.2).
+// Minimum Av / s per Cl 9.6.3.4, maximum spacing per Table 9.7.6.2.2.
+const designShear = ({ vu, b, d, fck: fc, fy, asv }: ShearDesignInput) => {
+  const phi = SHEAR_STRENGTH_FACTOR;
+  const fyt = Math.min(fy, MAX_STIRRUP_YIELD);
+  const rootFc = Math.sqrt(fc);
+  const vc = 0.17 * rootFc * b * d; // N
+  const vuN = vu * 1000;
+
+  const tauC = parseFloat(((phi * vc) / (b * d)).toFixed(2));
+  const tauCMax = parseFloat((phi * (0.17 + 0.66) * rootFc).toFixed(2));
+  const reference = `ACI 318-19 Cl 22.5.5.1, phi Vc = ${phi} x 0.17 sqrt(f'c) bw d`;
+
+  if (vuN / (b * d) > tauCMax) {
+    return { tauC, tauCMax, reference, shearReinforcementRequired: false, stirrupSpacing: 0 };
+  }
+
+  const vs = Math.max(0, vuN / phi - vc);
+  const minimumSpacing = (asv * fyt) / (Math.max(0.062 * rootFc, 0.35) * b);
+  const designSpacing = vs > 0 ? (asv * fyt * d) / vs : Infinity;
+  const maxSpacing = vs > 0.33 * rootFc * b * d ? Math.min(d / 4, 300) : Math.min(d / 2, 600);
+
+  return {
+    tauC,
+    tauCMax,
+    reference,
+    shearReinforcementRequired: vs > 0,
+    stirrupSpacing: Math.min(minimumSpacing, designSpacing, maxSpacing)
+  };
+};
+
+// Table 9.3.1.1: minimum overall depth h, multiplied by (0.4 + fy / 700) for fy other than 420 MPa
+const MIN_DEPTH_DIVISOR: Record<SpanEndCondition, number> = {
+  Cantilever: 8,
+  SimplySupported: 16,
+  OneEndContinuous: 18.5,
+  BothEndsContinuous: 21,
+};
+
+const checkSpanDepth = ({ span, D, fy, endCondition }: SpanDepthInput) => {
+  const basicLbyD = MIN_DEPTH_DIVISOR[endCondition];
+  const kt = 1 / (0.4 + fy / 700);
+  const allowableLbyD = basicLbyD * kt;
+  const actualLbyD = (span * 1000) / D;
+
+  return {
+    actualLbyD,
+    basicLbyD,
+    modificationFactorKt: kt,
+    modificationFactorKc: 1,
+    reductionFactorKf: 1,
+    allowableLbyD,
+    deflectionCheckPassed: actualLbyD <= allowableLbyD,
+    deflectionReference: 'ACI 318-19 Table 9.3.1.1 (span / overall depth h)'
+  };
+};
+
+export const ACI_318: DesignCode = {
+  id: 'ACI318',
+  name: 'ACI 318-19',
+  references: {
+    loadCombinations: 'ACI 318-19 Cl 5.3.1',
+    flexure: 'ACI 318-19 Cl 22.2, Table 21.2.2',
+    minTensionSteel: 'ACI 318-19 Cl 9.6.1.2'
+  },
+  gradeLabel: (fc: number) => `f'c ${fc} MPa`,
+  loadCombinations: LOAD_COMBINATIONS,
+  flexure,
+  // Cl 9.6.1.2: greater of 0.25 sqrt(f'c) / fy and 1.4 / fy times bw d
+  minTensionSteel: (b: number, d: number, fc: number, fy: number) => (Math.max(0.25 * Math.sqrt(fc), 1.4) * b * d) / fy,
+  designShear,
+  checkSpanDepth,
+};
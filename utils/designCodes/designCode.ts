@@ -0,0 +1,86 @@
+// Clauses that differ between design codes: load factors, the flexural stress block, minimum steel,
+// shear and the span / depth deflection check. Analysis, torsion, crack width, computed deflection
+// and detailing are common to every code and follow IS 456.
+
+import { DesignCodeId, LoadCombination } from '../../types';
+
+export const STEEL_MODULUS = 200000; // N/mm2
+
+// Rectangular stress block and design steel stresses at the ultimate limit state
+export interface FlexureRules {
+  ultimateStrain: number; // Concrete strain at the compression face
+  blockForce: number; // N/mm2, compressive force = blockForce * b * x
+  blockCentroid: number; // Depth of the compressive force below the compression face, as a fraction of x
+  flangeStress: number; // N/mm2, uniform stress on the flange outstand of a T / L beam
+  flangeDepth: (x: number, Df: number, d: number) => number; // mm, depth of the outstand in compression
+  steelStress: number; // N/mm2, design yield stress of the tension steel
+  compressionSteelStress: (strain: number) => number; // N/mm2
+  displacedConcreteStress: number; // N/mm2, deducted from fsc for the concrete displaced by the bars
+  maxNeutralAxisRatio: number; // x_max / d
+  capacityFactor: number; // Strength reduction factor on the nominal moment (1 where partial material factors apply)
+}
+
+export interface ShearDesignInput {
+  vu: number; // kN
+  b: number; // mm
+  d: number; // mm
+  pt: number; // %, tension steel at the section
+  fck: number;
+  fy: number;
+  asv: number; // mm2, area of all stirrup legs
+}
+
+export interface ShearDesign {
+  tauC: number; // N/mm2 on bd, shear resisted without design stirrups
+  tauCMax: number; // N/mm2 on bd, limiting shear stress
+  reference: string; // Clause / table used for tauC
+  shearReinforcementRequired: boolean;
+  stirrupSpacing: number; // mm, 0 when the section fails in shear
+}
+
+export type SpanEndCondition = 'Cantilever' | 'SimplySupported' | 'OneEndContinuous' | 'BothEndsContinuous';
+
+export interface SpanDepthInput {
+  span: number; // m
+  d: number; // mm
+  D: number; // mm
+  b: number; // mm, web width
+  flangeWidth: number; // mm, equals b for rectangular sections
+  flangeDepth: number; // mm, 0 for rectangular sections
+  fck: number;
+  fy: number;
+  astRequired: number; // mm2
+  astProvided: number; // mm2
+  ascProvided: number; // mm2, 0 when singly reinforced
+  endCondition: SpanEndCondition;
+}
+
+export interface SpanDepthCheck {
+  actualLbyD: number;
+  basicLbyD: number;
+  modificationFactorKt: number;
+  modificationFactorKc: number;
+  reductionFactorKf: number;
+  allowableLbyD: number;
+  deflectionCheckPassed: boolean;
+  deflectionReference: string;
+}
+
+// Clauses quoted in the calculation report
+export interface DesignCodeReferences {
+  loadCombinations: string;
+  flexure: string;
+  minTensionSteel: string;
+}
+
+export interface DesignCode {
+  id: DesignCodeId;
+  name: string; // e.g. IS 456:2000
+  references: DesignCodeReferences;
+  gradeLabel: (fck: number) => string;
+  loadCombinations: LoadCombination[]; // Default ultimate limit state combinations
+  flexure: (fck: number, fy: number) => FlexureRules;
+  minTensionSteel: (b: number, d: number, fck: number, fy: number) => number; // mm2
+  designShear: (input: ShearDesignInput) => ShearDesign;
+  checkSpanDepth: (input: SpanDepthInput) => SpanDepthCheck;
+}
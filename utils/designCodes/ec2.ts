@@ -0,0 +1,145 @@
+// EN 1992-1-1:2004 with the recommended values of the partial factors (gamma_c = 1.5, gamma_s = 1.15, alpha_cc = 1.0).
+// The concrete grade is taken as the characteristic cylinder strength fck.
+
+import { LoadCombination } from '../../types';
+import { DesignCode, ShearDesignInput, SpanDepthInput, SpanEndCondition, STEEL_MODULUS } from './designCode';
+
+// EN 1990 Eq (6.10) with psi_0 = 0.7 (imposed) and 0.6 (wind). EL = wind or seismic.
+const LOAD_COMBINATIONS: LoadCombination[] = [
+  { id: 'ec-g-q', name: '1.35G+1.5Q', dead: 1.35, live: 1.5, lateral: 0 },
+  { id: 'ec-g-q-el', name: '1.35G+1.5Q+0.9W', dead: 1.35, live: 1.5, lateral: 0.9 },
+  { id: 'ec-g-el-q', name: '1.35G+1.5W+1.05Q', dead: 1.35, live: 1.05, lateral: 1.5 },
+  { id: 'ec-min-el', name: '1.0G+1.5W', dead: 1.0, live: 0, lateral: 1.5 },
+];
+
+const GAMMA_C = 1.5;
+const GAMMA_S = 1.15;
+
+const GRADE_LABELS: Record<number, string> = {
+  20: 'C20/25', 25: 'C25/30', 30: 'C30/37', 35: 'C35/45', 40: 'C40/50', 45: 'C45/55', 50: 'C50/60', 55: 'C55/67', 60: 'C60/75'
+};
+
+// Table 3.1: mean tensile strength
+const getFctm = (fck: number) => fck <= 50 ? 0.3 * Math.pow(fck, 2 / 3) : 2.12 * Math.log(1 + (fck + 8) / 10);
+
+// Cl 3.1.7 (3): rectangular block eta fcd over lambda x. x / d limited to 0.45 (0.35 above C50/60),
+// Cl 5.6.3 (2), for ductility without redistribution.
+const flexure = (fck: number, fy: number) => {
+  const lambda = fck <= 50 ? 0.8 : 0.8 - (fck - 50) / 400;
+  const eta = fck <= 50 ? 1 : 1 - (fck - 50) / 200;
+  const fcd = fck / GAMMA_C;
+  const fyd = fy / GAMMA_S;
+  return {
+    ultimateStrain: fck <= 50 ? 0.0035 : 0.0026 + 0.035 * Math.pow((90 - fck) / 100, 4), // eps_cu3, Table 3.1
+    blockForce: eta * fcd * lambda,
+    blockCentroid: lambda / 2,
+    flangeStress: eta * fcd,
+    flangeDepth: (x: number, hf: number) => Math.min(lambda * x, hf),
+    steelStress: fyd,
+    compressionSteelStress: (strain: number) => Math.min(strain * STEEL_MODULUS, fyd),
+    displacedConcreteStress: eta * fcd,
+    maxNeutralAxisRatio: fck <= 50 ? 0.45 : 0.35,
+    capacityFactor: 1
+  };
+};
+
+// Cl 6.2.2 (1): VRd,c = [0.18/gamma_c k (100 rho_l fck)^(1/3)] bw d, not less than vmin bw d.
+// Cl 6.2.3: vertical links carry the whole shear through a strut at cot(theta) between 1 and 2.5.
+const designShear = ({ vu, b, d, pt, fck, fy, asv }: ShearDesignInput) => {
+  const k = Math.min(1 + Math.sqrt(200 / d), 2);
+  const rhoL = Math.min(pt / 100, 0.02);
+  const vMin = 0.035 * Math.pow(k, 1.5) * Math.sqrt(fck);
+  const vRdc = Math.max((0.18 / GAMMA_C) * k * Math.cbrt(100 * rhoL * fck), vMin);
+
+  const z = 0.9 * d;
+  const nu1 = 0.6 * (1 - fck / 250);
+  const fcd = fck / GAMMA_C;
+  const fywd = fy / GAMMA_S;
+  const strutCapacity = b * z * nu1 * fcd; // N, VRd,max = strutCapacity / (cot + tan)
+  const vEd = vu * 1000;
+
+  const tauC = parseFloat(vRdc.toFixed(2));
+  const tauCMax = parseFloat((strutCapacity / 2 / (b * d)).toFixed(2)); // theta = 45 degrees
+  const reference = `EN 1992-1-1 Cl 6.2.2, k = ${k.toFixed(2)}, rho_l = ${rhoL.toFixed(4)}`;
+
+  if (vEd > strutCapacity / 2) {
+    return { tauC, tauCMax, reference, shearReinforcementRequired: false, stirrupSpacing: 0 };
+  }
+
+  // Flattest strut the concrete can carry: cot + tan = strutCapacity / VEd
+  const r = strutCapacity / vEd;
+  const cotTheta = Math.min(2.5, (r + Math.sqrt(Math.max(r * r - 4, 0))) / 2);
+
+  // Cl 9.2.2 (5) and (6): rho_w,min = 0.08 sqrt(fck) / fyk, s_max = 0.75 d
+  const minimumSpacing = asv / ((0.08 * Math.sqrt(fck) / fy) * b);
+  const shearReinforcementRequired = vEd > vRdc * b * d;
+  const designSpacing = shearReinforcementRequired ? (asv * z * fywd * cotTheta) / vEd : Infinity;
+
+  return {
+    tauC,
+    tauCMax,
+    reference: shearReinforcementRequired ? `${reference}; links at cot(theta) = ${cotTheta.toFixed(2)}` : reference,
+    shearReinforcementRequired,
+    stirrupSpacing: Math.min(minimumSpacing, designSpacing, 0.75 * d)
+  };
+};
+
+// Table 7.4N structural system factor K
+const SYSTEM_FACTOR: Record<SpanEndCondition, number> = {
+  Cantilever: 0.4,
+  SimplySupported: 1.0,
+  OneEndContinuous: 1.3,
+  BothEndsContinuous: 1.5,
+};
+
+// Cl 7.4.2 Eq (7.16), modified by 310 / sigma_s = 500 / (fyk As,req / As,prov) (Eq 7.17, taken not above 1.5),
+// 0.8 for flanged sections with beff / bw > 3 and 7 / leff for spans over 7 m.
+// Steel ratios are on the concrete above the centroid of the tension steel.
+const checkSpanDepth = ({ span, d, b, flangeWidth, flangeDepth, fck, fy, astRequired, astProvided, ascProvided, endCondition }: SpanDepthInput) => {
+  const K = SYSTEM_FACTOR[endCondition];
+  const rootFck = Math.sqrt(fck);
+  const rho0 = rootFck / 1000;
+  const concreteArea = b * d + (flangeWidth - b) * flangeDepth;
+  const rho = Math.max(astRequired / concreteArea, 1e-6);
+  const rhoComp = ascProvided / concreteArea;
+
+  const basicLbyD = rho <= rho0
+    ? K * (11 + (1.5 * rootFck * rho0) / rho + 3.2 * rootFck * Math.pow(rho0 / rho - 1, 1.5))
+    : K * (11 + (1.5 * rootFck * rho0) / Math.max(rho - rhoComp, 1e-6) + (rootFck / 12) * Math.sqrt(rhoComp / rho0));
+
+  const kt = Math.min(500 / (fy * (astRequired / astProvided)), 1.5);
+  const flangeFactor = flangeWidth / b > 3 ? 0.8 : 1;
+  const spanFactor = endCondition !== 'Cantilever' && span > 7 ? 7 / span : 1;
+  const kf = flangeFactor * spanFactor;
+
+  const allowableLbyD = basicLbyD * kt * kf;
+  const actualLbyD = (span * 1000) / d;
+
+  return {
+    actualLbyD,
+    basicLbyD,
+    modificationFactorKt: kt,
+    modificationFactorKc: 1,
+    reductionFactorKf: kf,
+    allowableLbyD,
+    deflectionCheckPassed: actualLbyD <= allowableLbyD,
+    deflectionReference: 'EN 1992-1-1 Cl 7.4.2 (span / effective depth)'
+  };
+};
+
+export const EC2: DesignCode = {
+  id: 'EC2',
+  name: 'EN 1992-1-1 (Eurocode 2)',
+  references: {
+    loadCombinations: 'EN 1990 Eq (6.10)',
+    flexure: 'EN 1992-1-1 Cl 3.1.7, 6.1',
+    minTensionSteel: 'EN 1992-1-1 Cl 9.2.1.1'
+  },
+  gradeLabel: (fck: number) => GRADE_LABELS[fck] ?? `C${fck}`,
+  loadCombinations: LOAD_COMBINATIONS,
+  flexure,
+  // Cl 9.2.1.1 (1): greater of 0.26 fctm / fyk and 0.0013 times bt d
+  minTensionSteel: (b: number, d: number, fck: number, fy: number) => Math.max((0.26 * getFctm(fck)) / fy, 0.0013) * b * d,
+  designShear,
+  checkSpanDepth,
+};
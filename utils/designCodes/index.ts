@@ -0,0 +1,16 @@
+// Registry of the supported design codes
+
+import { DesignCodeId } from '../../types';
+import { DesignCode } from './designCode';
+import { IS_456 } from './is456';
+import { ACI_318 } from './aci318';
+import { EC2 } from './ec2';
+
+export const DESIGN_CODES: Record<DesignCodeId, DesignCode> = {
+  IS456: IS_456,
+  ACI318: ACI_318,
+  EC2,
+};
+
+// Designs saved before the code was selectable are IS 456
+export const getDesignCode = (id: DesignCodeId | undefined): DesignCode => DESIGN_CODES[id ?? 'IS456'] ?? IS_456;
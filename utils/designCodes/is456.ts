@@ -0,0 +1,199 @@
+// IS 456:2000 limit state design
+
+import { LoadCombination } from '../../types';
+import { DesignCode, ShearDesignInput, SpanDepthInput, SpanEndCondition, STEEL_MODULUS } from './designCode';
+
+// IS 456 Table 18 / IS 875 Part 5 limit state of collapse combinations. EL = wind or seismic.
+const LOAD_COMBINATIONS: LoadCombination[] = [
+  { id: 'dl-ll', name: '1.5(DL+LL)', dead: 1.5, live: 1.5, lateral: 0 },
+  { id: 'dl-ll-el', name: '1.2(DL+LL+EL)', dead: 1.2, live: 1.2, lateral: 1.2 },
+  { id: 'dl-el', name: '1.5(DL+EL)', dead: 1.5, live: 0, lateral: 1.5 },
+  { id: 'dl-min-el', name: '0.9DL+1.5EL', dead: 0.9, live: 0, lateral: 1.5 },
+];
+
+// IS 456 Table 19: design shear strength of concrete, tau_c (N/mm2)
+// Rows are 100As/bd, columns are concrete grades (the last column applies to M40 and above)
+const TABLE_19_PT = [0.15, 0.25, 0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0, 2.25, 2.5, 2.75, 3.0];
+const TABLE_19_GRADES = [15, 20, 25, 30, 35, 40];
+const TABLE_19 = [
+  [0.28, 0.28, 0.29, 0.29, 0.29, 0.30],
+  [0.35, 0.36, 0.36, 0.37, 0.37, 0.38],
+  [0.46, 0.48, 0.49, 0.50, 0.50, 0.51],
+  [0.54, 0.56, 0.57, 0.59, 0.59, 0.60],
+  [0.60, 0.62, 0.64, 0.66, 0.67, 0.68],
+  [0.64, 0.67, 0.70, 0.71, 0.73, 0.74],
+  [0.68, 0.72, 0.74, 0.76, 0.78, 0.79],
+  [0.71, 0.75, 0.78, 0.80, 0.82, 0.84],
+  [0.71, 0.79, 0.82, 0.84, 0.86, 0.88],
+  [0.71, 0.81, 0.85, 0.88, 0.90, 0.92],
+  [0.71, 0.82, 0.88, 0.91, 0.93, 0.95],
+  [0.71, 0.82, 0.90, 0.94, 0.96, 0.98],
+  [0.71, 0.82, 0.92, 0.96, 0.99, 1.01],
+];
+
+// IS 456 Table 20: maximum shear stress, tau_c,max (N/mm2)
+const TABLE_20: Record<number, number> = { 15: 2.5, 20: 2.8, 25: 3.1, 30: 3.5, 35: 3.7, 40: 4.0 };
+
+const gradeLabel = (fck: number) => fck >= 40 ? 'M40 and above' : `M${fck}`;
+
+// Bracketing entries of an ascending table and the interpolation ratio between them
+const bracket = (table: number[], value: number) => {
+  const v = Math.min(Math.max(value, table[0]), table[table.length - 1]);
+  let idx = 0;
+  while (idx < table.length - 2 && v > table[idx + 1]) idx++;
+  const ratio = (v - table[idx]) / (table[idx + 1] - table[idx]);
+  return { lo: idx, hi: idx + 1, ratio };
+};
+
+const getTauC = (pt: number, fck: number): { value: number; reference: string } => {
+  const row = bracket(TABLE_19_PT, pt);
+  const col = bracket(TABLE_19_GRADES, fck);
+
+  const at = (r: number) => TABLE_19[r][col.lo] + (TABLE_19[r][col.hi] - TABLE_19[r][col.lo]) * col.ratio;
+  const value = at(row.lo) + (at(row.hi) - at(row.lo)) * row.ratio;
+
+  const ptLo = TABLE_19_PT[row.lo];
+  const ptHi = TABLE_19_PT[row.hi];
+  const rowText = pt <= ptLo && row.lo === 0
+    ? `pt <= ${ptLo.toFixed(2)}`
+    : pt >= ptHi && row.hi === TABLE_19_PT.length - 1
+      ? `pt >= ${ptHi.toFixed(2)}`
+      : row.ratio === 0 || row.ratio === 1
+        ? `pt = ${(row.ratio === 0 ? ptLo : ptHi).toFixed(2)}`
+        : `pt ${ptLo.toFixed(2)}-${ptHi.toFixed(2)} (interpolated at ${pt.toFixed(2)})`;
+  const colText = col.ratio === 0 || col.ratio === 1 || fck >= 40
+    ? gradeLabel(fck)
+    : `M${TABLE_19_GRADES[col.lo]}-M${TABLE_19_GRADES[col.hi]} (interpolated)`;
+
+  return { value: parseFloat(value.toFixed(2)), reference: `Table 19, ${colText}, ${rowText}` };
+};
+
+const getTauCMax = (fck: number): number => {
+  const grades = Object.keys(TABLE_20).map(Number);
+  const col = bracket(grades, fck);
+  const lo = TABLE_20[grades[col.lo]];
+  const hi = TABLE_20[grades[col.hi]];
+  return parseFloat((lo + (hi - lo) * col.ratio).toFixed(2));
+};
+
+// Design stress (N/mm2) in cold-worked steel at a given strain, IS 456 Fig 23A
+// Inelastic strains at 0.80 to 1.0 fyd are those tabulated in SP 16 Table A
+const getSteelStress = (strain: number, fy: number): number => {
+  const fyd = 0.87 * fy;
+  const curve = [
+    [0.8, 0], [0.85, 0.0001], [0.9, 0.0003], [0.95, 0.0007], [0.975, 0.001], [1.0, 0.002]
+  ].map(([ratio, inelastic]) => ({ strain: (ratio * fyd) / STEEL_MODULUS + inelastic, stress: ratio * fyd }));
+
+  if (strain <= curve[0].strain) return strain * STEEL_MODULUS;
+  for (let i = 0; i < curve.length - 1; i++) {
+    const p1 = curve[i];
+    const p2 = curve[i + 1];
+    if (strain <= p2.strain) {
+      return p1.stress + (p2.stress - p1.stress) * (strain - p1.strain) / (p2.strain - p1.strain);
+    }
+  }
+  return fyd;
+};
+
+// Basic span / effective depth ratio, Cl 23.2.1 (a): cantilever 7, simply supported 20, continuous 26
+const BASIC_L_BY_D: Record<SpanEndCondition, number> = {
+  Cantilever: 7,
+  SimplySupported: 20,
+  OneEndContinuous: 26,
+  BothEndsContinuous: 26,
+};
+
+// Check Deflection as per IS 456 Cl 23.2.1
+const checkSpanDepth = ({ span, d, b, flangeWidth, fy, astRequired, astProvided, ascProvided, endCondition }: SpanDepthInput) => {
+  // Percentage of tension reinforcement, on the web width (bf enters only through Kf)
+  const pt = (astProvided / (b * d)) * 100;
+  
+  // Service stress in steel
+  // fs = 0.58 * fy * (AreaRequired / AreaProvided)
+  const fs = 0.58 * fy * (astRequired / astProvided);
+
+  // Modification Factor (Kt) for Tension Reinforcement, fit of IS 456 Fig 4, which ends at 2.0
+  const safePt = Math.max(pt, 0.1); 
+  const kt = Math.min(1 / (0.225 + 0.00322 * fs + 0.625 * Math.log10(safePt)), 2.0);
+
+  // Modification Factor (Kc) for Compression Reinforcement (IS 456 Fig 5)
+  const pc = (ascProvided / (b * d)) * 100;
+  const kc = Math.min(1 + pc / (3 + pc), 1.5);
+
+  // Reduction Factor (Kf) for Flanged Beams (IS 456 Fig 6): 0.8 at bw/bf <= 0.3, 1.0 at bw/bf = 1
+  const webRatio = b / flangeWidth;
+  const kf = webRatio >= 1 ? 1 : 0.8 + 0.2 * Math.max(webRatio - 0.3, 0) / 0.7;
+
+  const basicLbyD = BASIC_L_BY_D[endCondition];
+  const allowableLbyD = basicLbyD * kt * kc * kf;
+  const actualLbyD = (span * 1000) / d;
+
+  return {
+    actualLbyD,
+    basicLbyD,
+    modificationFactorKt: kt,
+    modificationFactorKc: kc,
+    reductionFactorKf: kf,
+    allowableLbyD,
+    deflectionCheckPassed: actualLbyD <= allowableLbyD,
+    deflectionReference: 'IS 456 Cl 23.2.1 (span / effective depth)'
+  };
+};
+
+// Cl 40: tau_v = Vu / bd against tau_c (Table 19) and tau_c,max (Table 20); vertical stirrups per Cl 40.4 (a)
+const designShear = ({ vu, b, d, pt, fck, fy, asv }: ShearDesignInput) => {
+  const tv = (vu * 1000) / (b * d); // N/mm2
+  const tauCLookup = getTauC(pt, fck);
+  const tc = tauCLookup.value;
+  const tcMax = getTauCMax(fck);
+
+  let stirrupSpacing = 0;
+  let shearReinforcementRequired = false;
+
+  if (tv > tcMax) {
+    stirrupSpacing = 0; // Fail
+  } else if (tv < tc) {
+    // Minimum shear reinforcement, Cl 26.5.1.6
+    stirrupSpacing = (asv * 0.87 * fy) / (0.4 * b);
+    stirrupSpacing = Math.min(stirrupSpacing, 0.75 * d, 300);
+  } else {
+    shearReinforcementRequired = true;
+    const Vus = (vu * 1000) - (tc * b * d); 
+    stirrupSpacing = (0.87 * fy * asv * d) / Vus;
+    stirrupSpacing = Math.min(stirrupSpacing, 0.75 * d, 300);
+  }
+
+  return { tauC: tc, tauCMax: tcMax, reference: `IS 456 ${tauCLookup.reference}`, shearReinforcementRequired, stirrupSpacing };
+};
+
+// Annex G: 0.36 fck xu acting at 0.42 xu, 0.87 fy in the steel, flange outstand at 0.45 fck (G-2.2)
+// xu,max / d from the strain diagram of Cl 38.1 (f): 0.48 for Fe415, 0.46 for Fe500
+const flexure = (fck: number, fy: number) => ({
+  ultimateStrain: 0.0035,
+  blockForce: 0.36 * fck,
+  blockCentroid: 0.42,
+  flangeStress: 0.45 * fck,
+  flangeDepth: (xu: number, Df: number, d: number) => Df / d > 0.2 ? Math.min(0.15 * xu + 0.65 * Df, Df) : Df,
+  steelStress: 0.87 * fy,
+  compressionSteelStress: (strain: number) => getSteelStress(strain, fy),
+  displacedConcreteStress: 0.446 * fck,
+  maxNeutralAxisRatio: 0.0035 / (0.0055 + (0.87 * fy) / STEEL_MODULUS),
+  capacityFactor: 1
+});
+
+export const IS_456: DesignCode = {
+  id: 'IS456',
+  name: 'IS 456:2000',
+  references: {
+    loadCombinations: 'IS 456 Table 18',
+    flexure: 'IS 456 Cl 38.1, Annex G',
+    minTensionSteel: 'IS 456 Cl 26.5.1.1'
+  },
+  gradeLabel: (fck: number) => `M${fck}`,
+  loadCombinations: LOAD_COMBINATIONS,
+  flexure,
+  // Cl 26.5.1.1 (a): As / bd = 0.85 / fy
+  minTensionSteel: (b: number, d: number, _fck: number, fy: number) => (0.85 * b * d) / fy,
+  designShear,
+  checkSpanDepth,
+};
@@ -0,0 +1,50 @@
+// Design input files for running the design engine outside the browser (see cli/rcc-beam.ts). A file is one of:
+//
+//   Project file     JSON with the project file header, or a bare array of saved designs (utils/projectFile.ts)
+//   Beam list        CSV, or a JSON array of beam rows (utils/beamList.ts)
+//   Design inputs    One JSON object of DesignInputs; inputs left out take the values of a new design
+//
+// Every beam is checked and designed with the current design engine; problems are thrown as
+// ProjectFileError or BeamListError with one message per problem.
+
+import { DesignCodeId, SavedDesign } from '../types';
+import { BeamListError, designBeamList, parseBeamList } from './beamList';
+import { parseProjectFile, ProjectFileError } from './projectFile';
+
+export interface DesignFile {
+  project: string;
+  designs: SavedDesign[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const readDesignFile = (text: string, fileName: string, designCode: DesignCodeId, project = 'Untitled Project'): DesignFile => {
+  const readBeamList = (name: string): DesignFile => {
+    const { rows, issues } = parseBeamList(text, name, designCode);
+    if (issues.length > 0) throw new BeamListError(issues);
+    return { project, designs: designBeamList(rows, project) };
+  };
+
+  if (!fileName.toLowerCase().endsWith('.json')) return readBeamList(fileName);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError(['The file is not valid JSON.']);
+  }
+
+  if (Array.isArray(json)) {
+    // Saved designs carry their inputs; beam rows are flat
+    return json.length > 0 && json.every(item => isRecord(item) && isRecord(item.inputs))
+      ? parseProjectFile(text)
+      : readBeamList(fileName);
+  }
+  if (isRecord(json) && json.format !== undefined) return parseProjectFile(text);
+  if (!isRecord(json)) throw new ProjectFileError(['The file must hold design inputs, a project file or a beam list.']);
+
+  // A single beam: checked and completed as a design of a version 0 project file
+  const { designs } = parseProjectFile(JSON.stringify([{ project, name: 'B1', inputs: { designCode, ...json } }]));
+  return { project, designs };
+};
@@ -0,0 +1,81 @@
+// Section optimiser: searches practical beam sizes, main bar diameters and concrete grades for the
+// designs that pass every check, ranked by cost or by depth. Loads and analysis depend only on the
+// section size, so they are computed once per width and depth.
+
+import { DesignInputs, OptimiserOptions, OptimiserResult, RateTable, SectionCandidate } from '../types';
+import { analyzeBeam, calculateLoads, designBeam, getSpans } from './rccCalculations';
+import { getBeamCost, getBeamQuantities } from './quantities';
+import { designPasses, getUtilisation } from './schedule';
+
+const STANDARD_WIDTHS = [200, 230, 250, 300, 350, 400, 450]; // mm
+const BAR_DIAMETERS = [12, 16, 20, 25, 32]; // mm
+const GRADES = [20, 25, 30, 35, 40]; // N/mm2
+
+// Widths from the thickest wall the beam carries upward, so the beam is flush with the wall
+export const getDefaultOptimiserOptions = (inputs: DesignInputs): OptimiserOptions => {
+  const wall = Math.max(...getSpans(inputs).map(s => (s.wallHeight > 0 ? s.wallThickness : 0)));
+  const longestSpan = Math.max(...getSpans(inputs).map(s => s.length));
+  return {
+    objective: 'cost',
+    widths: [...new Set([wall, ...STANDARD_WIDTHS].filter(w => w >= Math.max(wall, STANDARD_WIDTHS[0])))].sort((a, b) => a - b),
+    minDepth: 300,
+    maxDepth: Math.max(900, Math.ceil((longestSpan * 1000) / 8 / 50) * 50),
+    depthStep: 50,
+    barDiameters: BAR_DIAMETERS,
+    grades: GRADES,
+    maxResults: 20,
+  };
+};
+
+// onProgress is called after each width and depth with the sizes searched so far and in total
+export const optimiseSection = (
+  inputs: DesignInputs,
+  options: OptimiserOptions,
+  rates: RateTable,
+  onProgress?: (searched: number, total: number) => void
+): OptimiserResult => {
+  const candidates: SectionCandidate[] = [];
+  let evaluated = 0;
+  let searched = 0;
+  const depthSteps = Math.max(0, Math.floor((options.maxDepth - options.minDepth) / options.depthStep) + 1);
+  const totalSizes = options.widths.length * depthSteps;
+
+  options.widths.forEach(beamWidth => {
+    for (let beamDepth = options.minDepth; beamDepth <= options.maxDepth; beamDepth += options.depthStep) {
+      onProgress?.(searched++, totalSizes);
+      const sized = { ...inputs, beamWidth, beamDepth };
+      const analysis = analyzeBeam(sized, calculateLoads(sized));
+      if (!analysis.isStable) continue;
+
+      options.barDiameters.forEach(mainBarDia => options.grades.forEach(fck => {
+        evaluated++;
+        const trial: DesignInputs = { ...sized, mainBarDia, fck };
+        const design = designBeam(trial, analysis);
+        if (!designPasses(design)) return;
+
+        const quantities = getBeamQuantities(trial, design);
+        candidates.push({
+          beamWidth,
+          beamDepth,
+          mainBarDia,
+          fck,
+          reinforcement: design.barArrangement.description,
+          stirrups: `T${inputs.stirrupBarDia} @ ${design.stirrupSpacing}mm`,
+          utilisation: getUtilisation(design),
+          totalSteel: quantities.totalSteel,
+          cost: getBeamCost(quantities, rates).total,
+        });
+      }));
+    }
+  });
+
+  onProgress?.(searched, totalSizes);
+
+  const byCost = (a: SectionCandidate, b: SectionCandidate) => a.cost - b.cost;
+  const byDepth = (a: SectionCandidate, b: SectionCandidate) => a.beamDepth - b.beamDepth || byCost(a, b);
+  return {
+    candidates: [...candidates].sort(options.objective === 'cost' ? byCost : byDepth).slice(0, options.maxResults),
+    evaluated,
+    passing: candidates.length,
+  };
+};
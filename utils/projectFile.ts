@@ -0,0 +1,266 @@
+// Project files: the design schedule of one project as JSON, to hand designs to a colleague.
+//
+//   {
+//     "format": "rcc-beam-designer-project",
+//     "version": 1,
+//     "exportedAt": "2025-01-31T10:00:00.000Z",
+//     "project": "Residence at Plot 12",
+//     "designs": [
+//       { "id", "project", "floor", "name" (beam mark), "date", "updatedAt", "designCode",
+//         "inputs" (complete DesignInputs), "design" (DesignResult), "loads": { "totalDesignUDL" } }
+//     ]
+//   }
+//
+// Versions:
+//   0  Bare array of saved designs, as kept by the browser schedule (localStorage fallback)
+//   1  Format header with the project name and export time
+//
+// Inputs added to DesignInputs after a file was written take their default values on import, so new
+// inputs need no new version; renaming or restructuring an input does, with a migration below.
+// Results are stored for reference and recalculated with the current design engine on import; designs
+// with input errors (utils/validation.ts) are reported instead.
+
+import { ConcreteGrade, DesignInputs, ProjectFile, SavedDesign, SteelGrade } from '../types';
+import { DEFAULT_INPUTS, newId } from './defaultInputs';
+import { DESIGN_CODES, getDesignCode } from './designCodes';
+import { analyzeBeam, calculateLoads, designBeam } from './rccCalculations';
+import { validateInputs } from './validation';
+
+export const PROJECT_FILE_FORMAT = 'rcc-beam-designer-project';
+export const PROJECT_FILE_VERSION = 1;
+
+// Import failure with one readable message per problem found
+export class ProjectFileError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join('\n'));
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Upgrades a file of version n to version n + 1
+const MIGRATIONS: Record<number, (file: unknown) => unknown> = {
+  0: (designs: unknown) => {
+    if (!Array.isArray(designs)) throw new ProjectFileError(['A version 0 project file must be a list of saved designs.']);
+    return {
+      format: PROJECT_FILE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      project: designs.map(d => (isRecord(d) ? d.project : undefined)).find(p => typeof p === 'string') ?? 'Imported Project',
+      designs
+    };
+  },
+};
+
+// Entries of the input lists: a template giving the type of each field, and the fields that must be present
+// (the others take the template value)
+const LOAD_ENTRY = { id: '', value: 0, distance: 0, loadCase: 'Dead' };
+const LIST_ENTRIES: Record<string, { template: JsonRecord; required: string[] }> = {
+  pointLoads: { template: LOAD_ENTRY, required: ['value', 'distance'] },
+  pointMoments: { template: LOAD_ENTRY, required: ['value', 'distance'] },
+  lineLoads: {
+    template: { id: '', start: 0, end: 0, wStart: 0, wEnd: 0, loadCase: 'Dead' },
+    required: ['start', 'end', 'wStart', 'wEnd']
+  },
+  loadCombinations: {
+    template: { id: '', name: '', dead: 0, live: 0, lateral: 0 },
+    required: ['name', 'dead', 'live', 'lateral']
+  },
+  additionalSpans: {
+    template: {
+      id: '',
+      length: DEFAULT_INPUTS.beamClearSpan,
+      leftSlab: DEFAULT_INPUTS.leftSlab,
+      rightSlab: DEFAULT_INPUTS.rightSlab,
+      pointLoads: [],
+      lineLoads: [],
+      pointMoments: [],
+      wallHeight: DEFAULT_INPUTS.wallHeight,
+      wallThickness: DEFAULT_INPUTS.wallThickness
+    },
+    required: ['length']
+  },
+};
+
+const SUPPORTS = ['Pinned', 'Roller', 'Fixed', 'Free'];
+const ALLOWED_VALUES: Record<string, unknown[]> = {
+  designCode: Object.keys(DESIGN_CODES),
+  leftSupport: SUPPORTS,
+  rightSupport: SUPPORTS,
+  fck: Object.values(ConcreteGrade).filter(v => typeof v === 'number'),
+  fy: Object.values(SteelGrade).filter(v => typeof v === 'number'),
+  type: ['OneWay', 'TwoWay'],
+  supportEdge: ['Short', 'Long'],
+  loadCase: ['Dead', 'Live'],
+};
+
+// Checks a JSON value against the template of the same field. Missing fields are allowed here and
+// filled from the template by withDefaults.
+const checkValue = (value: unknown, template: unknown, key: string, path: string, issues: string[]) => {
+  if (value === undefined) return;
+
+  if (Array.isArray(template)) {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} must be a list`);
+      return;
+    }
+    const entry = LIST_ENTRIES[key];
+    if (!entry) return;
+    value.forEach((item, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (!isRecord(item)) {
+        issues.push(`${itemPath} must be an object`);
+        return;
+      }
+      entry.required.filter(field => item[field] === undefined).forEach(field => issues.push(`${itemPath}.${field} is missing`));
+      checkRecord(item, entry.template, itemPath, issues);
+    });
+    return;
+  }
+
+  if (isRecord(template)) {
+    if (!isRecord(value)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    checkRecord(value, template, path, issues);
+    return;
+  }
+
+  if (typeof value !== typeof template || (typeof value === 'number' && !Number.isFinite(value))) {
+    issues.push(`${path} must be a ${typeof template}`);
+  } else if (ALLOWED_VALUES[key] && !ALLOWED_VALUES[key].includes(value)) {
+    issues.push(`${path} must be one of ${ALLOWED_VALUES[key].join(', ')} (found ${String(value)})`);
+  }
+};
+
+const checkRecord = (value: JsonRecord, template: JsonRecord, path: string, issues: string[]) => {
+  Object.keys(template).forEach(key => checkValue(value[key], template[key], key, `${path}.${key}`, issues));
+};
+
+// Copy of a checked value with missing fields taken from the template and unknown fields dropped
+const withDefaults = (value: unknown, template: unknown, key: string): unknown => {
+  if (value === undefined) return template;
+  if (Array.isArray(value)) {
+    const entry = LIST_ENTRIES[key];
+    return entry ? value.map(item => withDefaults(item, entry.template, key)) : value;
+  }
+  if (isRecord(template) && isRecord(value)) {
+    return Object.fromEntries(Object.keys(template).map(k => [k, withDefaults(value[k], template[k], k)]));
+  }
+  return value;
+};
+
+const stringOr = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+
+// Checks one saved design, fills inputs added since it was written and recalculates its results.
+// Problems are added to issues, prefixed with the design, and the design is left out. Designs keep
+// their own project unless one is given.
+const readSavedDesign = (entry: unknown, i: number, project: string | undefined, issues: string[]): SavedDesign[] => {
+  const label = isRecord(entry) && typeof entry.name === 'string' ? `Design ${i + 1} (${entry.name})` : `Design ${i + 1}`;
+  if (!isRecord(entry) || !isRecord(entry.inputs)) {
+    issues.push(`${label}: inputs are missing`);
+    return [];
+  }
+
+  const designIssues: string[] = [];
+  checkRecord(entry.inputs, DEFAULT_INPUTS as unknown as JsonRecord, 'inputs', designIssues);
+  issues.push(...designIssues.map(issue => `${label}: ${issue}`));
+  if (designIssues.length > 0) return [];
+
+  const inputs = withDefaults(entry.inputs, DEFAULT_INPUTS, '') as DesignInputs;
+  if (entry.inputs.loadCombinations === undefined) {
+    inputs.loadCombinations = getDesignCode(inputs.designCode).loadCombinations;
+  }
+  const inputErrors = validateInputs(inputs).filter(issue => issue.severity === 'error');
+  issues.push(...inputErrors.map(issue => `${label}: ${issue.message}`));
+  if (inputErrors.length > 0) return [];
+
+  const loads = calculateLoads(inputs);
+  const design = designBeam(inputs, analyzeBeam(inputs, loads));
+
+  return [{
+    id: stringOr(entry.id, newId()),
+    project: project ?? stringOr(entry.project, 'Project 1'),
+    floor: stringOr(entry.floor, ''),
+    name: stringOr(entry.name, `B${i + 1}`),
+    date: stringOr(entry.date, new Date().toLocaleDateString()),
+    updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : Date.now(),
+    designCode: inputs.designCode,
+    inputs,
+    design,
+    loads: { totalDesignUDL: loads.totalDesignUDL }
+  }];
+};
+
+export const createProjectFile = (project: string, designs: SavedDesign[]): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project,
+  designs
+});
+
+// Reads a project file of any version: migrates it to the current version, checks every design,
+// fills inputs added since it was written and recalculates the results
+export const parseProjectFile = (text: string): ProjectFile => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError(['The file is not valid JSON.']);
+  }
+
+  let version: number;
+  if (Array.isArray(json)) {
+    version = 0;
+  } else if (isRecord(json) && json.format === PROJECT_FILE_FORMAT && Number.isInteger(json.version)) {
+    version = json.version as number;
+  } else {
+    throw new ProjectFileError(['The file is not an RCC Beam Designer project file.']);
+  }
+  if (version < 0) {
+    throw new ProjectFileError([`The file version ${version} is not valid.`]);
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError([`The file was written by a newer version of the program (file version ${version}, supported up to ${PROJECT_FILE_VERSION}).`]);
+  }
+
+  let file: unknown = json;
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new ProjectFileError([`Project files of version ${v} cannot be read.`]);
+    file = migrate(file);
+  }
+  if (!isRecord(file)) throw new ProjectFileError(['The file is not an RCC Beam Designer project file.']);
+
+  const project = typeof file.project === 'string' && file.project.trim() ? file.project : 'Imported Project';
+  if (!Array.isArray(file.designs)) throw new ProjectFileError(['designs must be a list of saved designs.']);
+
+  const issues: string[] = [];
+  const designs = (file.designs as unknown[]).flatMap((entry, i) => readSavedDesign(entry, i, project, issues));
+
+  if (issues.length > 0) throw new ProjectFileError(issues);
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: stringOr(file.exportedAt, ''),
+    project,
+    designs
+  };
+};
+
+// Designs kept in the browser (services/scheduleStorage.ts), brought up to date as the designs of a
+// project file are. Designs that cannot be read are left out and reported in issues.
+export const restoreSavedDesigns = (entries: unknown[]): { designs: SavedDesign[]; issues: string[] } => {
+  const issues: string[] = [];
+  const designs = entries.flatMap((entry, i) => readSavedDesign(entry, i, undefined, issues));
+  return { designs, issues };
+};
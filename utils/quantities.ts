@@ -0,0 +1,84 @@
+// Material quantities and cost of saved designs. Concrete and formwork are measured over the clear spans
+// (concrete within the supports is measured with the columns / walls) and, for flanged beams, below the
+// slab (IS 1200). Reinforcement is the bar bending schedule weight, so it includes anchorage, hooks and bends.
+
+import { BarCategory, BeamCost, BeamQuantities, DesignInputs, DesignResult, RateTable, SavedDesign } from '../types';
+import { getBarBendingSchedule } from './barBendingSchedule';
+import { getSpans } from './rccCalculations';
+import { CellValue } from './xlsx';
+
+export const DEFAULT_RATES: RateTable = {
+  currency: '₹',
+  concrete: 6500,
+  gradePremium: 300,
+  formwork: 550,
+  reinforcement: 75,
+};
+
+export const BAR_CATEGORIES: BarCategory[] = ['Main', 'Hanger', 'Side face', 'Stirrup'];
+
+export const getBeamQuantities = (inputs: DesignInputs, design: DesignResult): BeamQuantities => {
+  const length = getSpans(inputs).reduce((sum, s) => sum + s.length, 0);
+  const b = inputs.beamWidth / 1000;
+  const D = inputs.beamDepth / 1000;
+  const slab = design.sectionType === 'Rectangular' ? 0 : design.flangeDepth / 1000;
+  const sides = design.sectionType === 'T' ? 2 * (D - slab) : design.sectionType === 'L' ? 2 * D - slab : 2 * D;
+
+  const steel = Object.fromEntries(BAR_CATEGORIES.map(c => [c, 0])) as Record<BarCategory, number>;
+  getBarBendingSchedule(inputs, design).entries.forEach(e => {
+    steel[e.category] += e.weight;
+  });
+
+  return {
+    fck: inputs.fck as number,
+    concreteVolume: b * (D - slab) * length,
+    formworkArea: (b + sides) * length,
+    steel,
+    totalSteel: BAR_CATEGORIES.reduce((sum, c) => sum + steel[c], 0),
+  };
+};
+
+export const getConcreteRate = (rates: RateTable, fck: number) =>
+  rates.concrete + (rates.gradePremium * Math.max(0, fck - 20)) / 5;
+
+export const getBeamCost = (quantities: BeamQuantities, rates: RateTable): BeamCost => {
+  const concrete = quantities.concreteVolume * getConcreteRate(rates, quantities.fck);
+  const formwork = quantities.formworkArea * rates.formwork;
+  const reinforcement = quantities.totalSteel * rates.reinforcement;
+  return { concrete, formwork, reinforcement, total: concrete + formwork + reinforcement };
+};
+
+const round = (value: number, decimals = 2) => Number(value.toFixed(decimals));
+
+type CostedBeam = { design: SavedDesign; quantities: BeamQuantities; cost: BeamCost };
+
+// Quantity and cost columns: value of a beam and decimals shown
+const COLUMNS: [(beam: CostedBeam) => number, number][] = [
+  [b => b.quantities.concreteVolume, 3],
+  [b => b.quantities.formworkArea, 2],
+  ...BAR_CATEGORIES.map((c): [(beam: CostedBeam) => number, number] => [b => b.quantities.steel[c], 2]),
+  [b => b.quantities.totalSteel, 2],
+  [b => b.cost.concrete, 2],
+  [b => b.cost.formwork, 2],
+  [b => b.cost.reinforcement, 2],
+  [b => b.cost.total, 2],
+];
+
+// One row per saved design, then the project total
+export const getQuantityRows = (designs: SavedDesign[], rates: RateTable): CellValue[][] => {
+  const beams = designs.map((design): CostedBeam => {
+    const quantities = getBeamQuantities(design.inputs, design.design);
+    return { design, quantities, cost: getBeamCost(quantities, rates) };
+  });
+
+  return [
+    [
+      'Project', 'Floor', 'Mark', 'Concrete (m3)', 'Formwork (m2)',
+      ...BAR_CATEGORIES.map(c => `${c} Steel (kg)`), 'Total Steel (kg)',
+      `Concrete (${rates.currency})`, `Formwork @ ${rates.formwork}/m2 (${rates.currency})`,
+      `Reinforcement @ ${rates.reinforcement}/kg (${rates.currency})`, `Total (${rates.currency})`
+    ],
+    ...beams.map(b => [b.design.project, b.design.floor, b.design.name, ...COLUMNS.map(([value, decimals]) => round(value(b), decimals))]),
+    ['Total', '', '', ...COLUMNS.map(([value, decimals]) => round(beams.reduce((sum, b) => sum + value(b), 0), decimals))],
+  ];
+};
@@ -1,41 +1,13 @@
-import { AnalysisResult, ConcreteGrade, DesignInputs, DesignResult, LoadResult, SteelGrade, SlabSideConfig } from '../types';
+import { AnalysisResult, BarArrangement, BarFace, BeamSpan, CantileverSlabLoad, CombinationResult, CrackWidthCheck, DesignInputs, DesignResult, DistributedLoadSegment, LoadCase, LoadCombination, LoadResult, SpanLoadResult, SlabSideConfig, SupportCondition, SupportSteelResult } from '../types';
+import { ContinuousBeamSolution, SpanLoading, solveContinuousBeam } from './beamAnalysis';
+import { calculateCurtailment } from './curtailment';
+import { arrangeBars } from './barArrangement';
+import { calculateComputedDeflection } from './deflection';
+import { calculateTorsion, getTorsionMoment, getTorsionStirrupSpacing } from './torsion';
+import { getDesignCode } from './designCodes';
+import { SpanEndCondition, STEEL_MODULUS } from './designCodes/designCode';
 
-const CONCRETE_DENSITY = 25; // kN/m3
-const PARTIAL_SAFETY_FACTOR_LOAD = 1.5;
-
-// Interpolation helper for Tau_c (Table 19 IS 456)
-const getTauC = (pt: number, fck: number): number => {
-  const ptLimited = Math.min(Math.max(pt, 0.15), 3.0);
-  
-  // Base values for pt=1.0 roughly
-  let baseVal = 0;
-  if (fck === 20) baseVal = 0.62;
-  else if (fck === 25) baseVal = 0.64;
-  else if (fck >= 30) baseVal = 0.66;
-  
-  // Using linear interpolation between known points for M20
-  const points = [0.15, 0.25, 0.5, 0.75, 1.0, 1.25, 1.5, 2.0];
-  const m20vals = [0.28, 0.36, 0.48, 0.56, 0.62, 0.67, 0.72, 0.79];
-  
-  // Find index
-  let idx = 0;
-  while(idx < points.length - 1 && ptLimited > points[idx+1]) idx++;
-  
-  const t1 = m20vals[idx];
-  const t2 = m20vals[Math.min(idx+1, points.length-1)];
-  const p1 = points[idx];
-  const p2 = points[Math.min(idx+1, points.length-1)];
-  
-  let tauM20 = t1;
-  if(p2 !== p1) {
-    tauM20 = t1 + (t2 - t1) * (ptLimited - p1) / (p2 - p1);
-  }
-  
-  // Adjust for higher grades slightly
-  const gradeFactor = 1 + (fck - 20) * 0.01; 
-  
-  return parseFloat((tauM20 * gradeFactor).toFixed(2));
-};
+export const CONCRETE_DENSITY = 25; // kN/m3
 
 const calculateSlabLoadPerMeter = (config: SlabSideConfig, totalAreaLoad: number): number => {
   if (!config.enabled) return 0;
@@ -65,235 +37,809 @@ const calculateSlabLoadPerMeter = (config: SlabSideConfig, totalAreaLoad: number
   }
 };
 
+// Actual slab load distribution along a beam of length L (yield lines at 45 degrees)
+// One-way: rectangular w*Lx/2. Short edge: triangle peaking at w*Lx/2 at midspan.
+// Long edge: trapezoid rising over Lx/2 from each end to w*Lx/2.
+const getSlabLoadSegments = (config: SlabSideConfig, areaLoad: number, L: number): DistributedLoadSegment[] => {
+  if (!config.enabled || areaLoad === 0) return [];
+
+  const peak = (areaLoad * config.lx) / 2;
+  if (config.type === 'OneWay') {
+    return [{ start: 0, end: L, wStart: peak, wEnd: peak }];
+  }
+
+  const rise = config.supportEdge === 'Short' ? L / 2 : Math.min(config.lx / 2, L / 2);
+  const segments: DistributedLoadSegment[] = [{ start: 0, end: rise, wStart: 0, wEnd: peak }];
+  if (L - rise > rise) segments.push({ start: rise, end: L - rise, wStart: peak, wEnd: peak });
+  segments.push({ start: L - rise, end: L, wStart: peak, wEnd: 0 });
+  return segments;
+};
+
+const scaleSegments = (segments: DistributedLoadSegment[], factor: number): DistributedLoadSegment[] =>
+  segments.map(seg => ({ ...seg, wStart: seg.wStart * factor, wEnd: seg.wEnd * factor }));
+
+// All spans of the beam from left to right. The primary span is described by the top-level inputs.
+export const getSpans = (inputs: DesignInputs): BeamSpan[] => [
+  {
+    id: 'primary',
+    length: inputs.beamClearSpan,
+    leftSlab: inputs.leftSlab,
+    rightSlab: inputs.rightSlab,
+    pointLoads: inputs.pointLoads,
+    lineLoads: inputs.lineLoads,
+    pointMoments: inputs.pointMoments,
+    wallHeight: inputs.wallHeight,
+    wallThickness: inputs.wallThickness,
+  },
+  ...inputs.additionalSpans,
+];
+
+// Support condition at every node: chosen end conditions with rollers at intermediate supports
+export const getSupportConditions = (inputs: DesignInputs): SupportCondition[] => [
+  inputs.leftSupport,
+  ...inputs.additionalSpans.map((): SupportCondition => 'Roller'),
+  inputs.rightSupport,
+];
+
+const calculateSpanLoads = (
+  span: BeamSpan,
+  slabDeadLoadArea: number,
+  slabLiveLoadArea: number,
+  beamSelfWeight: number,
+  masonryDensity: number,
+  cantilever: CantileverSlabLoad,
+  combination: LoadCombination
+): SpanLoadResult => {
+  // Load Transfer to Beam (Left and Right), kept separate for dead and imposed load
+  const deadFromSlabs = calculateSlabLoadPerMeter(span.leftSlab, slabDeadLoadArea) + calculateSlabLoadPerMeter(span.rightSlab, slabDeadLoadArea);
+  const liveUDL = calculateSlabLoadPerMeter(span.leftSlab, slabLiveLoadArea) + calculateSlabLoadPerMeter(span.rightSlab, slabLiveLoadArea) + cantilever.liveUDL;
+  const totalSlabLoadArea = slabDeadLoadArea + slabLiveLoadArea;
+  const udlFromLeftSlab = calculateSlabLoadPerMeter(span.leftSlab, totalSlabLoadArea);
+  const udlFromRightSlab = calculateSlabLoadPerMeter(span.rightSlab, totalSlabLoadArea);
+
+  // Wall Load
+  const wallThickM = span.wallThickness / 1000;
+  const wallLoad = wallThickM * span.wallHeight * masonryDensity;
+
+  const deadUDL = deadFromSlabs + beamSelfWeight + wallLoad + cantilever.deadUDL;
+
+  // Actual load shapes used by the analysis, plus partial and varying loads by load case
+  const L = span.length;
+  const lineLoadSegments = (loadCase: LoadCase): DistributedLoadSegment[] => span.lineLoads
+    .filter(ll => ll.loadCase === loadCase && ll.end > ll.start)
+    .map(ll => ({ start: ll.start, end: ll.end, wStart: ll.wStart, wEnd: ll.wEnd }));
+  const deadLoads: DistributedLoadSegment[] = [
+    { start: 0, end: L, wStart: beamSelfWeight + wallLoad + cantilever.deadUDL, wEnd: beamSelfWeight + wallLoad + cantilever.deadUDL },
+    ...getSlabLoadSegments(span.leftSlab, slabDeadLoadArea, L),
+    ...getSlabLoadSegments(span.rightSlab, slabDeadLoadArea, L),
+    ...lineLoadSegments('Dead'),
+  ];
+  const liveLoads: DistributedLoadSegment[] = [
+    ...(cantilever.liveUDL > 0 ? [{ start: 0, end: L, wStart: cantilever.liveUDL, wEnd: cantilever.liveUDL }] : []),
+    ...getSlabLoadSegments(span.leftSlab, slabLiveLoadArea, L),
+    ...getSlabLoadSegments(span.rightSlab, slabLiveLoadArea, L),
+    ...lineLoadSegments('Live'),
+  ];
+  const factoredLoads = [...scaleSegments(deadLoads, combination.dead), ...scaleSegments(liveLoads, combination.live)];
+
+  // Total Factored Load (primary combination)
+  const totalDesignUDL = combination.dead * deadUDL + combination.live * liveUDL;
+
+  // Point Loads (Service and Factored)
+  const pointLoads = span.pointLoads.map(pl => ({ value: pl.value, distance: pl.distance, loadCase: pl.loadCase }));
+  const factoredPointLoads = pointLoads.map(pl => ({
+    value: pl.value * (pl.loadCase === 'Live' ? combination.live : combination.dead),
+    distance: pl.distance
+  }));
+
+  // Applied Moments (Service and Factored)
+  const pointMoments = span.pointMoments.map(pm => ({ value: pm.value, distance: pm.distance, loadCase: pm.loadCase }));
+  const factoredPointMoments = pointMoments.map(pm => ({
+    value: pm.value * (pm.loadCase === 'Live' ? combination.live : combination.dead),
+    distance: pm.distance
+  }));
+
+  return {
+    length: span.length,
+    udlFromLeftSlab,
+    udlFromRightSlab,
+    wallLoad,
+    deadUDL,
+    liveUDL,
+    deadLoads,
+    liveLoads,
+    factoredLoads,
+    pointLoads,
+    totalDesignUDL,
+    factoredPointLoads,
+    pointMoments,
+    factoredPointMoments
+  };
+};
+
+// Cantilever slab per metre run: vertical load plus the torque of that load about the beam centreline
+const calculateCantileverSlabLoad = (inputs: DesignInputs): CantileverSlabLoad => {
+  const slab = inputs.torsion.cantileverSlab;
+  if (!slab.enabled || slab.projection <= 0) return { deadUDL: 0, liveUDL: 0, deadTorsion: 0, liveTorsion: 0 };
+
+  const deadArea = (slab.thickness / 1000) * CONCRETE_DENSITY + inputs.floorFinish; // kN/m2
+  const leverArm = slab.projection / 2 + inputs.beamWidth / 2000; // m
+  const deadUDL = deadArea * slab.projection;
+  const liveUDL = inputs.liveLoad * slab.projection;
+  return { deadUDL, liveUDL, deadTorsion: deadUDL * leverArm, liveTorsion: liveUDL * leverArm };
+};
+
 export const calculateLoads = (inputs: DesignInputs): LoadResult => {
   // 1. Slab Load per m2
   const dSlabM = inputs.slabThickness / 1000;
   const slabSelfWeight = dSlabM * CONCRETE_DENSITY; // kN/m2
-  const totalSlabLoadArea = slabSelfWeight + inputs.liveLoad + inputs.floorFinish;
-  
-  // 2. Load Transfer to Beam (Left and Right)
-  const udlFromLeftSlab = calculateSlabLoadPerMeter(inputs.leftSlab, totalSlabLoadArea);
-  const udlFromRightSlab = calculateSlabLoadPerMeter(inputs.rightSlab, totalSlabLoadArea);
-  const udlTotalSlab = udlFromLeftSlab + udlFromRightSlab;
+  const slabDeadLoadArea = slabSelfWeight + inputs.floorFinish;
+  const totalSlabLoadArea = slabDeadLoadArea + inputs.liveLoad;
 
-  // 3. Beam Self Weight
+  // 2. Beam Self Weight
   const bM = inputs.beamWidth / 1000;
   const dM = inputs.beamDepth / 1000;
   const beamSelfWeight = bM * dM * CONCRETE_DENSITY;
-  
-  // 4. Wall Load
-  const wallThickM = inputs.wallThickness / 1000;
-  const wallLoad = wallThickM * inputs.wallHeight * inputs.masonryDensity;
-  
-  // 5. Total Factored Load
-  const totalServiceLoad = udlTotalSlab + beamSelfWeight + wallLoad;
-  const totalDesignUDL = totalServiceLoad * PARTIAL_SAFETY_FACTOR_LOAD;
 
-  // 6. Point Loads (Factored)
-  const factoredPointLoads = inputs.pointLoads.map(pl => ({
-    value: pl.value * PARTIAL_SAFETY_FACTOR_LOAD,
-    distance: pl.distance
-  }));
-  
+  // 3. Cantilever slab along the beam (vertical load and torsion)
+  const cantileverSlab = calculateCantileverSlabLoad(inputs);
+
+  // 4. Slab, wall and point loads for every span, factored by the first (gravity) combination
+  const primaryCombination = inputs.loadCombinations[0] ?? getDesignCode(inputs.designCode).loadCombinations[0];
+  const spanLoads = getSpans(inputs).map(span =>
+    calculateSpanLoads(span, slabDeadLoadArea, inputs.liveLoad, beamSelfWeight, inputs.masonryDensity, cantileverSlab, primaryCombination)
+  );
+  const primary = spanLoads[0];
+
   return {
     slabSelfWeight,
     totalSlabLoadArea,
-    udlFromLeftSlab,
-    udlFromRightSlab,
-    udlTotalSlab,
+    slabDeadLoadArea,
+    primaryCombination: primaryCombination.name,
+    udlFromLeftSlab: primary.udlFromLeftSlab,
+    udlFromRightSlab: primary.udlFromRightSlab,
+    udlTotalSlab: primary.udlFromLeftSlab + primary.udlFromRightSlab,
     beamSelfWeight,
-    wallLoad,
-    totalDesignUDL,
-    factoredPointLoads
+    wallLoad: primary.wallLoad,
+    totalDesignUDL: primary.totalDesignUDL,
+    factoredPointLoads: primary.factoredPointLoads,
+    cantileverSlab,
+    spanLoads
   };
 };
 
-export const analyzeBeam = (inputs: DesignInputs, loads: LoadResult): AnalysisResult => {
-  const L = inputs.beamClearSpan;
-  const w = loads.totalDesignUDL; // Factored UDL (kN/m)
-  const P = loads.factoredPointLoads; // Array of {value, distance}
-
-  // Calculate Reactions (Taking moments about Left Support A)
-  // Rb * L = (w * L * L/2) + Sum(Pi * xi)
-  let sumPointLoadMoments = 0;
-  let sumPointLoads = 0;
-  P.forEach(p => {
-    sumPointLoadMoments += p.value * p.distance;
-    sumPointLoads += p.value;
+// Part of a distributed load lying between from and to (m from the left support)
+const clipSegments = (segments: DistributedLoadSegment[], from: number, to: number): DistributedLoadSegment[] =>
+  segments.flatMap(seg => {
+    const start = Math.max(seg.start, from);
+    const end = Math.min(seg.end, to);
+    if (end <= start) return [];
+    const len = seg.end - seg.start;
+    const at = (x: number) => len > 0 ? seg.wStart + ((seg.wEnd - seg.wStart) * (x - seg.start)) / len : seg.wStart;
+    return [{ start, end, wStart: at(start), wEnd: at(end) }];
   });
 
-  const momentUDL = w * L * (L / 2);
-  const Rb = (momentUDL + sumPointLoadMoments) / L;
-  const Ra = (w * L) + sumPointLoads - Rb;
-
-  // Generate Data for Diagrams & Find Max Values
-  const segments = 100;
-  const momentData = [];
-  const shearData = [];
-  let maxMoment = 0;
-  let maxShear = 0;
-
-  for (let i = 0; i <= segments; i++) {
-    const x = (i / segments) * L;
-    
-    // Shear V(x) = Ra - w*x - Sum(Pi where di < x)
-    let shearVal = Ra - (w * x);
-    
-    // Shear Logic: strictly subtract if d < x. 
-    let shearLoadCorrection = 0;
-    P.forEach(p => {
-       if (p.distance < x) { // Load is to the left
-         shearLoadCorrection += p.value;
-       } else if (Math.abs(p.distance - x) < 0.001) {
-          // Exactly at the load. Shear diagram has two values here. 
-          shearLoadCorrection += p.value;
-       }
-    });
+interface LoadedLength {
+  start: number; // m from the left support
+  end: number; // m
+}
 
-    const Vx = shearVal - shearLoadCorrection;
+// Factored solver loading of one span for the given partial safety factors. Live loads act only
+// on the loaded length (the whole span by default, none when null).
+const getSpanLoading = (
+  span: SpanLoadResult,
+  dead: number,
+  live: number,
+  loaded: LoadedLength | null = { start: 0, end: span.length }
+): SpanLoading => {
+  const acts = (loadCase: LoadCase, distance: number) =>
+    loadCase === 'Dead' || (loaded !== null && distance >= loaded.start && distance <= loaded.end);
+  return {
+    distributed: [
+      ...scaleSegments(span.deadLoads, dead),
+      ...(loaded ? scaleSegments(clipSegments(span.liveLoads, loaded.start, loaded.end), live) : [])
+    ],
+    pointLoads: span.pointLoads.filter(pl => acts(pl.loadCase, pl.distance)).map(pl => ({
+      value: pl.value * (pl.loadCase === 'Live' ? live : dead),
+      distance: pl.distance
+    })),
+    moments: span.pointMoments.filter(pm => acts(pm.loadCase, pm.distance)).map(pm => ({
+      value: pm.value * (pm.loadCase === 'Live' ? live : dead),
+      distance: pm.distance
+    }))
+  };
+};
 
-    // Moment M(x) = Ra*x - w*x^2/2 - Sum(Pi * (x-di))
-    let momentLoadCorrection = 0;
-    P.forEach(p => {
-       if (p.distance < x) {
-         momentLoadCorrection += p.value * (x - p.distance);
-       }
-    });
-    const Mx = (Ra * x) - (w * x * x / 2) - momentLoadCorrection;
+interface LiveLoadPattern {
+  name: string;
+  loaded: (LoadedLength | null)[]; // One per span
+}
 
-    // Update Max
-    if (Math.abs(Mx) > Math.abs(maxMoment)) maxMoment = Math.abs(Mx);
-    if (Math.abs(Vx) > Math.abs(maxShear)) maxShear = Math.abs(Vx);
+// Live load arrangements per IS 456 Cl 22.4.1: all spans, alternate spans, adjacent pairs of spans
+// and each half span alone. Without patterning the live load acts on every span.
+const getLiveLoadPatterns = (inputs: DesignInputs, lengths: number[]): LiveLoadPattern[] => {
+  const spansWhere = (name: string, isLoaded: (i: number) => boolean): LiveLoadPattern => ({
+    name,
+    loaded: lengths.map((L, i) => (isLoaded(i) ? { start: 0, end: L } : null))
+  });
+  const patterns = [spansWhere('LL on all spans', () => true)];
+  if (!inputs.liveLoadPatterning) return patterns;
 
-    momentData.push({ x, val: Mx });
-    shearData.push({ x, val: Vx });
+  if (lengths.length > 1) {
+    patterns.push(
+      spansWhere('LL on odd spans', i => i % 2 === 0),
+      spansWhere('LL on even spans', i => i % 2 === 1)
+    );
   }
-  
+  if (lengths.length > 2) {
+    for (let i = 0; i + 1 < lengths.length; i++) {
+      patterns.push(spansWhere(`LL on spans ${i + 1}-${i + 2}`, j => j === i || j === i + 1));
+    }
+  }
+  lengths.forEach((L, i) => {
+    const halfSpan = (side: string, start: number, end: number): LiveLoadPattern => ({
+      name: `LL on ${side} half of span ${i + 1}`,
+      loaded: lengths.map((_, j) => (j === i ? { start, end } : null))
+    });
+    patterns.push(halfSpan('left', 0, L / 2), halfSpan('right', L / 2, L));
+  });
+  return patterns;
+};
+
+interface InfluenceEnvelope {
+  moment: { max: number; min: number }[]; // kNm per kN, at every sample point
+  shear: { max: number; min: number }[]; // kN per kN
+  reactions: number[]; // kN per kN, largest upward reaction at each support
+}
+
+// Influence lines of a unit load moving across the beam, reduced to the extreme ordinates at every
+// sample point. The load may also be absent, so the maxima are not negative and the minima not positive.
+const getInfluenceEnvelope = (
+  lengths: number[],
+  supports: SupportCondition[],
+  segmentsPerSpan: number
+): InfluenceEnvelope => {
+  const positions = lengths.flatMap((L, span) =>
+    Array.from({ length: segmentsPerSpan + 1 }, (_, k) => ({ span, distance: (L * k) / segmentsPerSpan }))
+  );
+  const responses = positions.map(p => solveContinuousBeam(
+    lengths,
+    lengths.map((_, i) => ({
+      distributed: [],
+      pointLoads: i === p.span ? [{ value: 1, distance: p.distance }] : [],
+      moments: []
+    })),
+    supports,
+    segmentsPerSpan
+  ));
+
+  const extremes = (values: number[]) => ({ max: Math.max(0, ...values), min: Math.min(0, ...values) });
+  return {
+    moment: responses[0].momentData.map((_, k) => extremes(responses.map(r => r.momentData[k].val))),
+    shear: responses[0].shearData.map((_, k) => extremes(responses.map(r => r.shearData[k].val))),
+    reactions: responses[0].reactions.map((_, j) => Math.max(0, ...responses.map(r => r.reactions[j])))
+  };
+};
+
+interface CombinationCase {
+  name: string;
+  dead: number;
+  live: number;
+  swayMoment: number; // kNm, factored
+}
+
+// Expands the combination table into analysis cases: each EL combination is run for wind and
+// seismic separately and in both directions
+const getCombinationCases = (inputs: DesignInputs): CombinationCase[] => {
+  const lateralLoads = [
+    { label: 'WL', moment: inputs.windMoment },
+    { label: 'EL', moment: inputs.seismicMoment },
+  ].filter(l => l.moment !== 0);
+
+  const combinations = inputs.loadCombinations.length > 0 ? inputs.loadCombinations : getDesignCode(inputs.designCode).loadCombinations;
+  return combinations.flatMap(c => {
+    if (c.lateral === 0 || lateralLoads.length === 0) {
+      return [{ name: c.name, dead: c.dead, live: c.live, swayMoment: 0 }];
+    }
+    return lateralLoads.flatMap(l => [1, -1].map(sign => ({
+      name: `${c.name} [${sign > 0 ? '+' : '-'}${l.label}]`,
+      dead: c.dead,
+      live: c.live,
+      swayMoment: sign * c.lateral * l.moment
+    })));
+  });
+};
+
+export const analyzeBeam = (inputs: DesignInputs, loads: LoadResult): AnalysisResult => {
+  const lengths = loads.spanLoads.map(s => s.length);
+
+  // Single span keeps the original 100 segment resolution; continuous spans share it
+  const segmentsPerSpan = Math.max(20, Math.round(100 / lengths.length));
+  const supports = getSupportConditions(inputs);
+  const cases = getCombinationCases(inputs);
+  const patterns = getLiveLoadPatterns(inputs, lengths);
+  const runs = cases.flatMap((c, caseIndex) => patterns.map(pattern => ({ caseIndex, c, pattern })));
+
+  let isStable = true;
+  const solutions: ContinuousBeamSolution[] = runs.map(({ c, pattern }) => {
+    const loadings = loads.spanLoads.map((span, i) => getSpanLoading(span, c.dead, c.live, pattern.loaded[i]));
+    try {
+      return solveContinuousBeam(lengths, loadings, supports, segmentsPerSpan, c.swayMoment);
+    } catch {
+      // Mechanism (e.g. a cantilever without a fixed end): report zero actions instead of NaN
+      isStable = false;
+      const unloaded = lengths.map(() => ({ distributed: [], pointLoads: [], moments: [] }));
+      return solveContinuousBeam(lengths, unloaded, supports.map((): SupportCondition => 'Pinned'), segmentsPerSpan);
+    }
+  });
+
+  // Serviceability moments under unfactored DL + LL (IS 456 Table 18), and DL alone for creep
+  const unfactoredMoments = (live: number) => isStable
+    ? solveContinuousBeam(lengths, loads.spanLoads.map(span => getSpanLoading(span, 1, live)), supports, segmentsPerSpan).momentData
+    : solutions[0].momentData.map(p => ({ x: p.x, val: 0 }));
+  const serviceMomentData = unfactoredMoments(1);
+  const permanentMomentData = unfactoredMoments(0);
+
+  // Range of actions of every run: the moving point load, factored as live load, is placed
+  // wherever it gives the extreme value at each section
+  const influence = isStable && inputs.movingPointLoad > 0 ? getInfluenceEnvelope(lengths, supports, segmentsPerSpan) : null;
+  const movingLoad = (r: number) => (influence ? runs[r].c.live * inputs.movingPointLoad : 0); // kN, factored
+  const withMovingLoad = (data: { x: number; val: number }[], lines: { max: number; min: number }[] | undefined, P: number) =>
+    data.map((p, k) => ({
+      x: p.x,
+      max: p.val + (lines ? P * lines[k].max : 0),
+      min: p.val + (lines ? P * lines[k].min : 0)
+    }));
+  const runMoments = solutions.map((sol, r) => withMovingLoad(sol.momentData, influence?.moment, movingLoad(r)));
+  const runShears = solutions.map((sol, r) => withMovingLoad(sol.shearData, influence?.shear, movingLoad(r)));
+
+  // Envelope over all combinations and live load arrangements (every solution shares the same sample points)
+  const envelope = (ranges: { x: number; max: number; min: number }[][]) => ranges[0].map((p, k) => ({
+    x: p.x,
+    max: Math.max(...ranges.map(range => range[k].max)),
+    min: Math.min(...ranges.map(range => range[k].min))
+  }));
+  const momentEnvelope = envelope(runMoments);
+  const shearEnvelope = envelope(runShears);
+
+  // One result per combination, the worst of its live load arrangements
+  const combinationResults: CombinationResult[] = cases.map((c, i) => {
+    const caseMoments = envelope(runMoments.filter((_, r) => runs[r].caseIndex === i));
+    const caseShears = envelope(runShears.filter((_, r) => runs[r].caseIndex === i));
+    return {
+      name: c.name,
+      maxSaggingMoment: Math.max(0, ...caseMoments.map(p => p.max)),
+      maxHoggingMoment: Math.max(0, ...caseMoments.map(p => -p.min)),
+      maxShear: Math.max(...caseShears.map(p => Math.max(Math.abs(p.max), Math.abs(p.min))))
+    };
+  });
+
+  // Governing combination and live load arrangement: largest absolute moment
+  const runPeaks = runMoments.map(range => Math.max(...range.map(p => Math.max(p.max, -p.min))));
+  const governingRun = runPeaks.reduce((best, peak, r) => (peak > runPeaks[best] ? r : best), 0);
+  const { momentData, shearData } = solutions[governingRun];
+
+  const maxSaggingMoment = Math.max(0, ...momentEnvelope.map(p => p.max));
+  const maxHoggingMoment = Math.max(0, ...momentEnvelope.map(p => -p.min));
+  const maxShear = Math.max(...shearEnvelope.map(p => Math.max(Math.abs(p.max), Math.abs(p.min))));
+
+  // Span end actions from the envelope: most hogging end moments, largest end shears
+  const pointsPerSpan = segmentsPerSpan + 1;
+  const spans = lengths.map((length, i) => {
+    const spanMoments = momentEnvelope.slice(i * pointsPerSpan, (i + 1) * pointsPerSpan);
+    const spanShears = shearEnvelope.slice(i * pointsPerSpan, (i + 1) * pointsPerSpan);
+    return {
+      start: solutions[0].spanStarts[i],
+      length,
+      leftMoment: spanMoments[0].min,
+      rightMoment: spanMoments[spanMoments.length - 1].min,
+      maxSaggingMoment: Math.max(0, ...spanMoments.map(p => p.max)),
+      leftShear: spanShears[0].max,
+      rightShear: spanShears[spanShears.length - 1].min
+    };
+  });
+
+  // Torque at the supports: the direct torque plus the cantilever slab torque, which is shared
+  // between the two ends of a span restrained at both ends and carried entirely by the fixed end of a cantilever
+  const spanTorsion = (loadCase: LoadCase, perMetre: number) => Math.max(...lengths.map((L, i) => {
+    const isCantilever = supports[i] === 'Free' || supports[i + 1] === 'Free';
+    const direct = inputs.torsion.loadCase === loadCase ? Math.abs(inputs.torsion.torsionalMoment) : 0;
+    return direct + perMetre * L * (isCantilever ? 1 : 0.5);
+  }));
+  const deadTorsion = spanTorsion('Dead', loads.cantileverSlab.deadTorsion);
+  const liveTorsion = spanTorsion('Live', loads.cantileverSlab.liveTorsion);
+  const maxTorsion = isStable ? Math.max(...cases.map(c => c.dead * deadTorsion + c.live * liveTorsion)) : 0;
+
+  const supportReactions = lengths.concat(0).map((_, j) => Math.max(...solutions.map((sol, r) =>
+    sol.reactions[j] + (influence ? movingLoad(r) * influence.reactions[j] : 0)
+  )));
+
   const effectiveDepth = inputs.beamDepth - inputs.effectiveCover;
   
   return {
-    maxMoment,
+    maxMoment: Math.max(maxSaggingMoment, maxHoggingMoment),
     maxShear,
+    maxTorsion,
+    maxSaggingMoment,
+    maxHoggingMoment,
+    spans,
+    supportReactions,
+    supportMoments: [spans[0].leftMoment, ...spans.map(s => s.rightMoment)],
+    isStable,
     effectiveDepth,
     momentData,
-    shearData
+    shearData,
+    momentEnvelope,
+    shearEnvelope,
+    combinationResults,
+    governingCombination: runs[governingRun].c.name,
+    governingLiveLoadArrangement: runs[governingRun].pattern.name,
+    serviceMomentData,
+    serviceMoment: Math.max(...serviceMomentData.map(p => Math.abs(p.val))),
+    permanentMomentData
   };
 };
 
-// Check Deflection as per IS 456 Cl 23.2.1
-const checkDeflection = (
-  spanM: number,
-  effDepthMm: number,
-  astRequired: number,
-  astProvided: number,
-  b: number,
-  fy: number
-) => {
-  // Basic L/d ratio for simply supported beam
-  const basicLbyD = 20;
-
-  // Percentage of tension reinforcement
-  const pt = (astProvided / (b * effDepthMm)) * 100;
-  
-  // Service stress in steel
-  // fs = 0.58 * fy * (AreaRequired / AreaProvided)
-  const fs = 0.58 * fy * (astRequired / astProvided);
+// End condition of a span for the span / depth check: cantilever, simply supported or continuous
+const getSpanEndCondition = (spanIndex: number, supports: SupportCondition[]): SpanEndCondition => {
+  const left = supports[spanIndex];
+  const right = supports[spanIndex + 1];
+  if (left === 'Free' || right === 'Free') return 'Cantilever';
 
-  // Modification Factor (Kt) for Tension Reinforcement (IS 456 Fig 4)
-  const safePt = Math.max(pt, 0.1); 
-  
-  let denominator = 0.225 + (0.0032 * fs) - (0.625 * Math.log10(safePt));
-  
-  let kt = 1.0;
-  if (denominator > 0) {
-      kt = 1 / denominator;
+  const continuousLeft = spanIndex > 0 || left === 'Fixed';
+  const continuousRight = spanIndex + 1 < supports.length - 1 || right === 'Fixed';
+  if (continuousLeft && continuousRight) return 'BothEndsContinuous';
+  return (continuousLeft || continuousRight) ? 'OneEndContinuous' : 'SimplySupported';
+};
+
+interface FlangeGeometry {
+  type: 'T' | 'L';
+  width: number; // mm, effective flange width bf
+  depth: number; // mm, flange thickness Df
+}
+
+// Effective flange width per IS 456 Cl 23.1.2, using the span with the largest sagging moment.
+// Returns null when the section must be designed as rectangular.
+const getFlangeGeometry = (inputs: DesignInputs, analysis: AnalysisResult): FlangeGeometry | null => {
+  if (!inputs.designAsFlanged) return null;
+
+  const spanIndex = analysis.spans.reduce(
+    (best, s, i, all) => (s.maxSaggingMoment > all[best].maxSaggingMoment ? i : best), 0
+  );
+  const span = getSpans(inputs)[spanIndex];
+  const slabs = [span.leftSlab, span.rightSlab].filter(slab => slab.enabled);
+  if (slabs.length === 0) return null;
+
+  // Distance between points of zero moment, 0.7 x span for continuous spans
+  const supports = getSupportConditions(inputs);
+  const isContinuous = supports.length > 2
+    || supports[spanIndex] === 'Fixed'
+    || supports[spanIndex + 1] === 'Fixed';
+  const l0 = span.length * 1000 * (isContinuous ? 0.7 : 1);
+
+  const bw = inputs.beamWidth;
+  const Df = inputs.slabThickness;
+
+  // Half the clear distance to the adjacent beam, i.e. half the slab dimension perpendicular to this beam
+  const outstand = (slab: SlabSideConfig) =>
+    ((slab.type === 'TwoWay' && slab.supportEdge === 'Short' ? slab.ly : slab.lx) * 1000) / 2;
+  const actualWidth = bw + slabs.reduce((sum, slab) => sum + outstand(slab), 0);
+
+  if (slabs.length === 2) {
+    return { type: 'T', width: Math.min(l0 / 6 + bw + 6 * Df, actualWidth), depth: Df };
   }
-  
-  // Clamp Kt between 0.7 and 2.0 based on typical chart range
-  kt = Math.min(Math.max(kt, 0.7), 2.0);
+  return { type: 'L', width: Math.min(l0 / 12 + bw + 3 * Df, actualWidth), depth: Df };
+};
 
-  const allowableLbyD = basicLbyD * kt;
-  const actualLbyD = (spanM * 1000) / effDepthMm;
+// Flexural design at effective depth d with the stress block of the selected code:
+// limiting moment, Ast1, and Asc / Ast2 (bars of compressionBarDia) when doubly reinforced
+const designFlexure = (inputs: DesignInputs, Mu: number, d: number, flange: FlangeGeometry | null, compressionBarDia: number) => {
+  const { fck, fy, beamWidth: b } = inputs;
+  const code = getDesignCode(inputs.designCode);
+  const rules = code.flexure(fck as number, fy);
+  const xuMax = rules.maxNeutralAxisRatio * d;
+  const Mn = Mu / rules.capacityFactor; // kNm, nominal moment to be resisted
 
-  return {
-    actualLbyD,
-    basicLbyD,
-    modificationFactorKt: kt,
-    allowableLbyD,
-    deflectionCheckPassed: actualLbyD <= allowableLbyD
+  // Rectangular section of width bw with the neutral axis at xu
+  const rectangularCapacity = (xu: number, bw: number) => {
+    const compression = rules.blockForce * bw * xu; // N
+    return { compression, moment: compression * (d - rules.blockCentroid * xu) }; // Nmm
+  };
+
+  // Flanged section with the neutral axis in the web (IS 456 Annex G-2.2 and equivalents)
+  const flangedCapacity = (xu: number, f: FlangeGeometry) => {
+    if (xu <= f.depth) return rectangularCapacity(xu, f.width);
+    const yf = rules.flangeDepth(xu, f.depth, d);
+    const web = rectangularCapacity(xu, b);
+    const outstand = rules.flangeStress * (f.width - b) * yf;
+    return { compression: web.compression + outstand, moment: web.moment + outstand * (d - yf / 2) };
   };
-};
 
-export const designBeam = (inputs: DesignInputs, analysis: AnalysisResult): DesignResult => {
-  const { fck, fy, beamWidth: b, stirrupBarDia } = inputs;
-  const { maxMoment: Mu, maxShear: Vu, effectiveDepth: d } = analysis;
-  
   // 1. Check Limiting Moment
-  let k_lim = 0.138;
-  if (fy === SteelGrade.Fe500) k_lim = 0.133;
-  if (fy === SteelGrade.Fe550) k_lim = 0.129; 
-  
-  const MuLim = k_lim * (fck as number) * b * d * d / 1000000; // kNm
+  let MnLim = rectangularCapacity(xuMax, b).moment / 1000000; // kNm
+  let mnFlange = 0; // kNm, capacity with the neutral axis at the flange soffit
+  if (flange) {
+    mnFlange = rectangularCapacity(flange.depth, flange.width).moment / 1000000;
+    MnLim = flangedCapacity(xuMax, flange).moment / 1000000;
+  }
   
-  const isDoublyReinforced = Mu > MuLim;
+  const isDoublyReinforced = Mn > MnLim;
   
-  // 2. Calculate Ast
-  let astRequired = 0;
+  // 2. Calculate Ast1 (balanced section for Mu, or MuLim when doubly reinforced)
+  const Mn1 = Math.min(Mn, MnLim);
+  const neutralAxisInFlange = !flange || Mn1 <= mnFlange;
+  let ast1 = 0;
+  let neutralAxisDepth = 0;
+  if (neutralAxisInFlange) {
+    // Rectangular section, of width bf when the neutral axis lies in the flange:
+    // blockForce bRect xu (d - blockCentroid xu) = Mn1
+    const bRect = flange ? flange.width : b;
+    const k = rules.blockCentroid;
+    const discriminant = Math.max(0, d * d - (4 * k * Mn1 * 1000000) / (rules.blockForce * bRect));
+    neutralAxisDepth = (d - Math.sqrt(discriminant)) / (2 * k);
+    ast1 = rectangularCapacity(neutralAxisDepth, bRect).compression / rules.steelStress;
+  } else if (flange) {
+    // Neutral axis in the web: find xu by bisection so the flanged capacity equals Mn1
+    let low = flange.depth;
+    let high = xuMax;
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (flangedCapacity(mid, flange).moment < Mn1 * 1000000) low = mid;
+      else high = mid;
+    }
+    neutralAxisDepth = high;
+    ast1 = flangedCapacity(neutralAxisDepth, flange).compression / rules.steelStress;
+  }
+
+  // 3. Compression Steel for Mu - MuLim (IS 456 Annex G-1.2)
+  let fsc = 0;
+  let ascRequired = 0;
+  let ast2 = 0;
   if (isDoublyReinforced) {
-     const factor = 1 - Math.sqrt(1 - (4.6 * (MuLim * 1000000)) / ((fck as number) * b * d * d));
-     astRequired = (0.5 * (fck as number) / fy) * factor * b * d;
-  } else {
-    const factor = 1 - Math.sqrt(Math.max(0, 1 - (4.6 * (Mu * 1000000)) / ((fck as number) * b * d * d)));
-    astRequired = (0.5 * (fck as number) / fy) * factor * b * d;
+    const dPrime = inputs.clearCover + inputs.stirrupBarDia + compressionBarDia / 2;
+    const strainSc = rules.ultimateStrain * (1 - dPrime / xuMax);
+    fsc = rules.compressionSteelStress(strainSc);
+
+    const Mn2 = (Mn - MnLim) * 1000000; // Nmm
+    const netStress = fsc - rules.displacedConcreteStress; // Deduct concrete displaced by the bars
+    ascRequired = Mn2 / (netStress * (d - dPrime));
+    ast2 = (ascRequired * netStress) / rules.steelStress;
   }
   
-  // Min Ast Check (IS 456)
-  const astMin = (0.85 * b * d) / fy;
-  astRequired = Math.max(astRequired, astMin);
-  
-  // Provide bars
-  const areaOneBar = (Math.PI / 4) * Math.pow(inputs.mainBarDia, 2);
-  const numberOfBars = Math.ceil(astRequired / areaOneBar);
-  const astProvided = numberOfBars * areaOneBar;
+  // Min Ast Check
+  const astMin = code.minTensionSteel(b, d, fck as number, fy);
+  const astRequired = Math.max(ast1 + ast2, astMin);
+
+  return {
+    MuLim: MnLim * rules.capacityFactor,
+    isDoublyReinforced,
+    neutralAxisInFlange,
+    neutralAxisDepth: isDoublyReinforced ? xuMax : neutralAxisDepth,
+    ast1,
+    ast2,
+    fsc,
+    ascRequired,
+    astRequired
+  };
+};
+
+// Crack width per IS 456 Annex F at the tension face: midway between bars and at the corner.
+// Layers of the arrangement are measured from the tension face, which may be the top face.
+const checkCrackWidth = (
+  face: BarFace,
+  serviceMoment: number, // kNm
+  arrangement: BarArrangement,
+  b: number, // mm, web width
+  bc: number, // mm, width of the compression zone (bf for flanged beams)
+  D: number,
+  d: number,
+  fck: number,
+  clearCover: number,
+  stirrupDia: number,
+  limit: number
+): CrackWidthCheck => {
+  // Modular ratio m = 280 / 3 sigma_cbc; sigma_cbc from Table 21 (7 N/mm2 at M20, +1.5 per 5 N/mm2)
+  const sigmaCbc = 7 + 0.3 * (fck - 20);
+  const m = 280 / (3 * sigmaCbc);
+  const As = arrangement.area;
+
+  // Elastic cracked section: bc x^2 / 2 = m As (d - x)
+  const x = (-m * As + Math.sqrt((m * As) ** 2 + 2 * bc * m * As * d)) / bc;
+  const fs = (serviceMoment * 1000000) / (As * (d - x / 3));
+
+  // Average strain at the tension face, allowing for tension stiffening
+  const eps1 = (fs / STEEL_MODULUS) * (D - x) / (d - x);
+  const epsM = Math.max(0, eps1 - (b * (D - x) * (D - x)) / (3 * STEEL_MODULUS * As * (d - x)));
+
+  // acr: distance from the point considered to the surface of the nearest bar
+  const layer = arrangement.layers[0];
+  const cornerDia = layer.bars[0];
+  const maxDia = Math.max(...layer.bars);
+  const sideToCentre = clearCover + stirrupDia + cornerDia / 2;
+  const acrCorner = Math.sqrt(sideToCentre ** 2 + layer.y ** 2) - cornerDia / 2;
+  const pitch = layer.clearSpacing + maxDia;
+  const acrMid = layer.bars.length > 1 ? Math.sqrt((pitch / 2) ** 2 + layer.y ** 2) - maxDia / 2 : 0;
+  const acr = Math.max(acrCorner, acrMid);
+  const cMin = clearCover + stirrupDia;
+
+  const crackWidth = (3 * acr * epsM) / (1 + (2 * (acr - cMin)) / (D - x));
+
+  return {
+    face,
+    serviceMoment,
+    serviceSteelStress: fs,
+    neutralAxisDepthService: x,
+    crackWidth,
+    passed: crackWidth <= limit
+  };
+};
+
+export const designBeam = (inputs: DesignInputs, analysis: AnalysisResult): DesignResult => {
+  const { fck, fy, beamWidth: b, beamDepth: D, stirrupBarDia } = inputs;
+  const { maxSaggingMoment: Mu, maxHoggingMoment, maxShear: Vu, maxTorsion: Tu } = analysis;
+  const code = getDesignCode(inputs.designCode);
+  const flange = getFlangeGeometry(inputs, analysis);
+
+  // Tension steel is designed for Me1 = Mu + Mt when the beam carries torsion (IS 456 Cl 41.4.2)
+  const Mt = getTorsionMoment(Tu, b, D);
+
+  // Design at the assumed depth, arrange the bars, then redesign at the depth of the actual bar centroid.
+  // Bars are placed from the tension face, so the centroid is measured from that face.
+  const designTensionFace = (moment: number, faceFlange: FlangeGeometry | null, compressionBarDia: number) => {
+    let d = analysis.effectiveDepth;
+    let flexure = designFlexure(inputs, moment, d, faceFlange, compressionBarDia);
+    let arrangement = arrangeBars(flexure.astRequired, b, inputs.clearCover, stirrupBarDia, inputs.mainBarDia);
+    for (let i = 0; i < 5 && Math.abs(D - arrangement.centroid - d) > 0.5; i++) {
+      d = D - arrangement.centroid;
+      flexure = designFlexure(inputs, moment, d, faceFlange, compressionBarDia);
+      arrangement = arrangeBars(flexure.astRequired, b, inputs.clearCover, stirrupBarDia, inputs.mainBarDia);
+    }
+    return { flexure, arrangement, d: D - arrangement.centroid };
+  };
+
+  // Bottom bars for the sagging moment, with the top bars (or the flange) in compression
+  const { flexure, arrangement, d } = designTensionFace(Mu + Mt, flange, inputs.topBarDia);
+
+  const { MuLim, isDoublyReinforced, ascRequired, astRequired } = flexure;
+  const numberOfBars = arrangement.bars.length;
+  const astProvided = arrangement.area;
+
+  // Top bars over the supports for the hogging moment: the slab is in tension, so the web width is
+  // used, and the bottom bars running into the support are the compression steel
+  const designSupport = (hogging: number) => designTensionFace(hogging + Mt, null, inputs.mainBarDia);
+  const support = maxHoggingMoment > 0.01 ? designSupport(maxHoggingMoment) : null;
+
+  const torsion = calculateTorsion(inputs, Tu, Vu, Mu, d);
+
+  // Top bars: compression steel when doubly reinforced or for Me2 under torsion, otherwise a pair of hangers
+  const areaOneTopBar = (Math.PI / 4) * Math.pow(inputs.topBarDia, 2);
+  const numberOfCompressionBars = Math.max(2, Math.ceil(Math.max(ascRequired, torsion.astCompressionFace) / areaOneTopBar));
+  const ascProvided = numberOfCompressionBars * areaOneTopBar;
+
+  const supports = getSupportConditions(inputs);
+  const curtailment = calculateCurtailment(
+    inputs, analysis, d, arrangement.bars, numberOfCompressionBars, flange ? flange.width : b, supports,
+    hogging => {
+      const { arrangement: supportArrangement, d: supportDepth } = designSupport(hogging);
+      return { bars: supportArrangement.bars, d: supportDepth };
+    }
+  );
+
+  const continuingBottom = curtailment.barGroups.find(g => g.face === 'Bottom' && !g.curtailed);
+  const supportSteel: SupportSteelResult | null = support && {
+    moment: maxHoggingMoment + Mt,
+    muLim: support.flexure.MuLim,
+    isDoublyReinforced: support.flexure.isDoublyReinforced,
+    effectiveDepth: support.d,
+    astRequired: support.flexure.astRequired,
+    ascRequired: support.flexure.ascRequired,
+    ascProvided: continuingBottom ? continuingBottom.count * (Math.PI / 4) * continuingBottom.diameter ** 2 : 0,
+    astProvided: support.arrangement.area,
+    barArrangement: support.arrangement
+  };
+
+  // Max Ast and Asc 0.04bD each (IS 456 Cl 26.5.1.1 and 26.5.1.2), and the bars must fit (Cl 26.3.2)
+  const astMax = 0.04 * b * D;
+  const flexureCheckPassed = astProvided <= astMax && ascProvided <= astMax && arrangement.spacingCheckPassed
+    && (!supportSteel || (
+      supportSteel.astProvided <= astMax
+      && supportSteel.barArrangement.spacingCheckPassed
+      && supportSteel.ascRequired <= supportSteel.ascProvided
+    ));
+
+  // Steel on the tension face for shear and deflection: the bottom bars, or the top bars over the supports
+  // where hogging governs (cantilevers). The slab is then in compression only under sagging, so the web width is used.
+  const bottomFace = {
+    d, flangeWidth: flange ? flange.width : b, flangeDepth: flange ? flange.depth : 0,
+    astRequired, astProvided, ascProvided: isDoublyReinforced ? ascProvided : 0
+  };
+  const topFace = supportSteel && {
+    d: supportSteel.effectiveDepth, flangeWidth: b, flangeDepth: 0,
+    astRequired: supportSteel.astRequired, astProvided: supportSteel.astProvided,
+    ascProvided: supportSteel.isDoublyReinforced ? supportSteel.ascProvided : 0
+  };
+  const tensionFace = topFace && maxHoggingMoment >= Mu ? topFace : bottomFace;
   
-  // 3. Shear Design
-  const tv = (Vu * 1000) / (b * d); // N/mm2
-  const ptProvided = (astProvided / (b * d)) * 100;
-  const tc = getTauC(ptProvided, (fck as number));
-  const tcMax = (fck as number) === 40 ? 4.0 : ((fck as number) >= 30 ? 3.5 : ((fck as number) >= 25 ? 3.1 : 2.8)); 
+  // 4. Shear Design
+  const tv = (Vu * 1000) / (b * tensionFace.d); // N/mm2
+  const ptProvided = (tensionFace.astProvided / (b * tensionFace.d)) * 100;
+  const asv = 2 * (Math.PI / 4) * Math.pow(stirrupBarDia, 2);
+  const shear = code.designShear({ vu: Vu, b, d: tensionFace.d, pt: ptProvided, fck: fck as number, fy, asv });
+  const { tauC: tc, tauCMax: tcMax } = shear;
   
-  let stirrupSpacing = 0;
-  let shearReinforcementRequired = false;
+  let stirrupSpacing = shear.stirrupSpacing;
+  let shearReinforcementRequired = shear.shearReinforcementRequired;
   
-  if (tv > tcMax) {
+  if (torsion.tauVe > tcMax) {
     stirrupSpacing = 0; // Fail
-  } else if (tv < tc) {
-    shearReinforcementRequired = false;
-    const asv = 2 * (Math.PI / 4) * Math.pow(stirrupBarDia, 2); 
-    stirrupSpacing = (asv * 0.87 * fy) / (0.4 * b);
-    stirrupSpacing = Math.min(stirrupSpacing, 0.75 * d, 300);
-  } else {
-    shearReinforcementRequired = true;
-    const Vus = (Vu * 1000) - (tc * b * d); 
-    const asv = 2 * (Math.PI / 4) * Math.pow(stirrupBarDia, 2); 
-    stirrupSpacing = (0.87 * fy * asv * d) / Vus;
-    stirrupSpacing = Math.min(stirrupSpacing, 0.75 * d, 300);
+  } else if (Tu > 0) {
+    // Closed stirrups for the equivalent shear and torsion (IS 456 Cl 41.3, 41.4.3)
+    shearReinforcementRequired = torsion.tauVe >= tc;
+    stirrupSpacing = getTorsionStirrupSpacing(inputs, torsion, Vu, tc, d);
   }
   
-  // 4. Deflection Check
-  const deflection = checkDeflection(inputs.beamClearSpan, d, astRequired, astProvided, b, fy);
+  // Crack width at the bottom face under the sagging service moment, and at the top face over the
+  // supports under the hogging service moment (the slab is in tension there, so the web width is used)
+  const serviceSagging = Math.max(0, ...analysis.serviceMomentData.map(p => p.val));
+  const serviceHogging = Math.max(0, ...analysis.serviceMomentData.map(p => -p.val));
+  const crackWidthChecks = [
+    checkCrackWidth('Bottom', serviceSagging, arrangement, b, flange ? flange.width : b, D, d, fck as number, inputs.clearCover, stirrupBarDia, inputs.crackWidthLimit),
+    ...(support && serviceHogging > 0
+      ? [checkCrackWidth('Top', serviceHogging, support.arrangement, b, b, D, support.d, fck as number, inputs.clearCover, stirrupBarDia, inputs.crackWidthLimit)]
+      : []),
+  ];
+  const crackWidth = crackWidthChecks.reduce((worst, check) => (check.crackWidth > worst.crackWidth ? check : worst));
+
+  // 5. Deflection Check (governed by the span with the highest actual/allowable L/d); a cantilever span
+  // is checked with the steel at its support
+  const deflection = analysis.spans
+    .map((span, i) => {
+      const endCondition = getSpanEndCondition(i, supports);
+      const face = topFace && endCondition === 'Cantilever' ? topFace : tensionFace;
+      return code.checkSpanDepth({ ...face, span: span.length, D, b, fck: fck as number, fy, endCondition });
+    })
+    .reduce((worst, check) => (check.actualLbyD / check.allowableLbyD > worst.actualLbyD / worst.allowableLbyD ? check : worst));
 
   return {
     muLim: MuLim,
     isDoublyReinforced,
+    flexureCheckPassed,
+    sectionType: flange ? flange.type : 'Rectangular',
+    flangeWidth: flange ? flange.width : b,
+    flangeDepth: flange ? flange.depth : 0,
+    neutralAxisInFlange: flexure.neutralAxisInFlange,
+    neutralAxisDepth: flexure.neutralAxisDepth,
+    ast1: flexure.ast1,
+    ast2: flexure.ast2,
+    fsc: flexure.fsc,
+    ascRequired,
+    numberOfCompressionBars,
+    ascProvided,
     astRequired,
     ptProvided,
     numberOfBars,
     astProvided,
+    barArrangement: arrangement,
+    effectiveDepth: d,
+    supportSteel,
+    tensionFace: tensionFace === topFace ? 'Top' : 'Bottom',
     tauV: parseFloat(tv.toFixed(2)),
     tauC: tc,
+    tauCMax: tcMax,
+    tauCReference: shear.reference,
     shearReinforcementRequired,
     stirrupSpacing: Math.floor(stirrupSpacing),
-    ...deflection
+    torsion,
+    ...deflection,
+    serviceSteelStress: crackWidth.serviceSteelStress,
+    neutralAxisDepthService: crackWidth.neutralAxisDepthService,
+    crackWidth: crackWidth.crackWidth,
+    crackWidthLimit: inputs.crackWidthLimit,
+    crackWidthCheckPassed: crackWidthChecks.every(check => check.passed),
+    crackWidthChecks,
+    computedDeflection: calculateComputedDeflection(
+      inputs, analysis, tensionFace.d, tensionFace.astProvided, tensionFace.ascProvided, tensionFace.flangeWidth, tensionFace.flangeDepth, supports
+    ),
+    curtailment
   };
 };
\ No newline at end of file
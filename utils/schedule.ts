@@ -0,0 +1,165 @@
+// Design schedule: status and utilisation of saved designs, and the tables exported as CSV / Excel
+
+import { DesignResult, RateTable, SavedDesign } from '../types';
+import { getBarBendingRows } from './barBendingSchedule';
+import { getQuantityRows } from './quantities';
+import { getDesignCode } from './designCodes';
+import { analyzeBeam, calculateLoads, getSpans } from './rccCalculations';
+import { CellValue, Sheet } from './xlsx';
+
+// Overall status of a design: every strength, serviceability and detailing check
+export const designPasses = (design: DesignResult) =>
+  design.flexureCheckPassed
+  && design.deflectionCheckPassed
+  && design.computedDeflection.passed
+  && design.crackWidthCheckPassed
+  && design.curtailment.passed
+  && design.stirrupSpacing > 0;
+
+// Largest demand / capacity ratio over flexural steel (bottom and over the supports), shear (with torsion),
+// span / depth, crack width and computed deflection
+export const getUtilisation = (design: DesignResult) => Math.max(
+  design.astRequired / design.astProvided,
+  design.supportSteel ? design.supportSteel.astRequired / design.supportSteel.astProvided : 0,
+  design.torsion.tauVe / design.tauCMax,
+  design.actualLbyD / design.allowableLbyD,
+  design.crackWidth / design.crackWidthLimit,
+  ...design.computedDeflection.spans.map(s => Math.max(s.total / s.totalLimit, s.afterPartitions / s.afterPartitionsLimit))
+);
+
+// Full length top bars, and the top steel over the supports when a support carries a hogging moment
+export const describeTopBars = (d: SavedDesign) =>
+  `${d.design.numberOfCompressionBars} - T${d.inputs.topBarDia}${d.design.isDoublyReinforced || d.design.torsion.me2 > 0 ? '' : ' (hangers)'}`
+  + (d.design.supportSteel ? `; ${d.design.supportSteel.barArrangement.description} at supports` : '');
+
+export const describeSideFaceBars = (d: SavedDesign) =>
+  d.design.torsion.sideFaceBars > 0 ? `${d.design.torsion.sideFaceBars} - T${d.design.torsion.sideFaceBarDia} each face` : '';
+
+export const describeStirrups = (d: SavedDesign) =>
+  d.design.stirrupSpacing > 0
+    ? `T${d.inputs.stirrupBarDia} @ ${d.design.stirrupSpacing}mm${d.design.torsion.tu > 0 ? ' (closed)' : ''}`
+    : 'Failed';
+
+const round = (value: number, decimals = 2) => Number(value.toFixed(decimals));
+
+// One row per saved design
+export const getScheduleRows = (designs: SavedDesign[]): CellValue[][] => [
+  [
+    'Project', 'Floor', 'Mark', 'Code', 'Concrete', 'fy (N/mm2)', 'Spans (m)', 'b (mm)', 'D (mm)', 'Section',
+    'Bottom Bars', 'Top Bars', 'Side Face Bars', 'Stirrups', 'Mu (kNm)', 'Vu (kN)', 'Tu (kNm)',
+    'Ast Required (mm2)', 'Ast Provided (mm2)', 'Utilisation', 'Status'
+  ],
+  ...designs.map(d => {
+    const analysis = analyzeBeam(d.inputs, calculateLoads(d.inputs));
+    const code = getDesignCode(d.designCode);
+    return [
+      d.project,
+      d.floor,
+      d.name,
+      code.name,
+      code.gradeLabel(d.inputs.fck),
+      d.inputs.fy,
+      getSpans(d.inputs).map(s => s.length).join(' + '),
+      d.inputs.beamWidth,
+      d.inputs.beamDepth,
+      d.design.sectionType === 'Rectangular' ? 'Rectangular' : `${d.design.sectionType}, bf ${d.design.flangeWidth.toFixed(0)}`,
+      d.design.barArrangement.description,
+      describeTopBars(d),
+      describeSideFaceBars(d),
+      describeStirrups(d),
+      round(analysis.maxMoment),
+      round(analysis.maxShear),
+      round(analysis.maxTorsion),
+      round(d.design.astRequired, 0),
+      round(d.design.astProvided, 0),
+      round(getUtilisation(d.design), 3),
+      designPasses(d.design) ? 'PASS' : 'FAIL'
+    ];
+  })
+];
+
+// One row per span of every saved design: service loads by source and the factored equivalent UDL
+export const getLoadRows = (designs: SavedDesign[]): CellValue[][] => [
+  [
+    'Project', 'Floor', 'Mark', 'Span', 'Length (m)', 'Slab Self Weight (kN/m2)', 'Slab DL (kN/m2)', 'Slab DL + LL (kN/m2)',
+    'Left Slab (kN/m)', 'Right Slab (kN/m)', 'Beam Self Weight (kN/m)', 'Wall (kN/m)',
+    'Cantilever Slab DL (kN/m)', 'Cantilever Slab LL (kN/m)', 'Dead UDL (kN/m)', 'Live UDL (kN/m)',
+    'Partial / Varying Loads', 'Point Loads', 'Applied Moments', 'Factored UDL (kN/m)', 'Combination'
+  ],
+  ...designs.flatMap(d => {
+    const loads = calculateLoads(d.inputs);
+    const spans = getSpans(d.inputs);
+    return loads.spanLoads.map((s, i) => [
+      d.project,
+      d.floor,
+      d.name,
+      i + 1,
+      s.length,
+      round(loads.slabSelfWeight),
+      round(loads.slabDeadLoadArea),
+      round(loads.totalSlabLoadArea),
+      round(s.udlFromLeftSlab),
+      round(s.udlFromRightSlab),
+      round(loads.beamSelfWeight),
+      round(s.wallLoad),
+      round(loads.cantileverSlab.deadUDL),
+      round(loads.cantileverSlab.liveUDL),
+      round(s.deadUDL),
+      round(s.liveUDL),
+      spans[i].lineLoads.map(l => `${l.wStart}-${l.wEnd}kN/m ${l.loadCase} ${l.start}-${l.end}m`).join('; '),
+      s.pointLoads.map(p => `${p.value}kN ${p.loadCase} @ ${p.distance}m`).join('; '),
+      s.pointMoments.map(m => `${m.value}kNm ${m.loadCase} @ ${m.distance}m`).join('; '),
+      round(s.totalDesignUDL),
+      loads.primaryCombination
+    ]);
+  })
+];
+
+export const getScheduleSheets = (designs: SavedDesign[], rates: RateTable): Sheet[] => [
+  { name: 'Schedule', rows: getScheduleRows(designs) },
+  { name: 'Loads', rows: getLoadRows(designs) },
+  { name: 'Bar Bending Schedule', rows: getBarBendingRows(designs) },
+  { name: 'Quantities', rows: getQuantityRows(designs, rates) },
+];
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted, quotes doubled
+export const toCsv = (rows: CellValue[][]) =>
+  rows.map(row => row.map(value => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n');
+
+// Rows of RFC 4180 text: quoted fields may hold commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
@@ -0,0 +1,78 @@
+// Torsion design per IS 456 Cl 41: equivalent shear and moment, closed stirrups and side face steel
+
+import { DesignInputs, TorsionResult } from '../types';
+
+const SIDE_FACE_BAR_DIA = 12; // mm
+
+// Cl 41.4.2: Mt = Tu (1 + D/b) / 1.7, added to the bending moment for the longitudinal steel
+export const getTorsionMoment = (tu: number, b: number, D: number) => (tu * (1 + D / b)) / 1.7;
+
+export const calculateTorsion = (
+  inputs: DesignInputs,
+  tu: number, // kNm
+  vu: number, // kN
+  mu: number, // kNm
+  d: number // mm
+): TorsionResult => {
+  const { beamWidth: b, beamDepth: D, fck, fy, clearCover, stirrupBarDia, mainBarDia, topBarDia } = inputs;
+  const b1 = b - 2 * (clearCover + stirrupBarDia) - mainBarDia;
+  const d1 = D - 2 * (clearCover + stirrupBarDia) - (mainBarDia + topBarDia) / 2;
+
+  if (tu <= 0) {
+    return {
+      tu: 0, mt: 0, me1: mu, me2: 0, ve: vu, tauVe: (vu * 1000) / (b * d),
+      b1, d1, astCompressionFace: 0, sideFaceBars: 0, sideFaceBarDia: SIDE_FACE_BAR_DIA
+    };
+  }
+
+  // Cl 41.3.1: Ve = Vu + 1.6 Tu / b
+  const ve = vu + (1.6 * tu) / (b / 1000);
+  const mt = getTorsionMoment(tu, b, D);
+
+  // Cl 41.4.2.1: when Mt exceeds Mu, the compression face is designed for Me2 = Mt - Mu
+  const me2 = Math.max(0, mt - mu);
+  const dTop = D - (clearCover + stirrupBarDia + topBarDia / 2);
+  const factor = 1 - Math.sqrt(Math.max(0, 1 - (4.6 * me2 * 1000000) / ((fck as number) * b * dTop * dTop)));
+  const astCompressionFace = me2 > 0 ? (0.5 * (fck as number) / fy) * factor * b * dTop : 0;
+
+  // Cl 26.5.1.3: beams deeper than 450 mm carry 0.1% of the web area on the two side faces,
+  // spaced at no more than 300 mm or the web thickness
+  const barArea = (Math.PI / 4) * SIDE_FACE_BAR_DIA * SIDE_FACE_BAR_DIA;
+  const sideFaceBars = D > 450
+    ? Math.max(Math.ceil((0.001 * b * D) / 2 / barArea), Math.ceil(d1 / Math.min(300, b)) - 1)
+    : 0;
+
+  return {
+    tu,
+    mt,
+    me1: mu + mt,
+    me2,
+    ve,
+    tauVe: (ve * 1000) / (b * d),
+    b1,
+    d1,
+    astCompressionFace,
+    sideFaceBars,
+    sideFaceBarDia: SIDE_FACE_BAR_DIA
+  };
+};
+
+// Spacing (mm) of two-legged closed stirrups. Cl 41.4.3: Asv = Tu sv / (b1 d1 0.87fy) + Vu sv / (2.5 d1 0.87fy),
+// not less than (tau_ve - tau_c) b sv / 0.87fy; minimum steel (Cl 26.5.1.6) when tau_ve < tau_c.
+// Spacing limited to x1, (x1 + y1) / 4 and 300 mm (Cl 26.5.1.7).
+export const getTorsionStirrupSpacing = (inputs: DesignInputs, torsion: TorsionResult, vu: number, tauC: number, d: number) => {
+  const { beamWidth: b, beamDepth: D, fy, clearCover, stirrupBarDia } = inputs;
+  const asv = 2 * (Math.PI / 4) * stirrupBarDia * stirrupBarDia;
+  const fyd = 0.87 * fy;
+
+  const sv = torsion.tauVe < tauC
+    ? (asv * fyd) / (0.4 * b)
+    : Math.min(
+      (asv * fyd) / ((torsion.tu * 1000000) / (torsion.b1 * torsion.d1) + (vu * 1000) / (2.5 * torsion.d1)),
+      (asv * fyd) / ((torsion.tauVe - tauC) * b)
+    );
+
+  const x1 = b - 2 * clearCover - stirrupBarDia;
+  const y1 = D - 2 * clearCover - stirrupBarDia;
+  return Math.min(sv, x1, (x1 + y1) / 4, 0.75 * d, 300);
+};
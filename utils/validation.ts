@@ -0,0 +1,170 @@
+// Checks of the design inputs before they are designed. Errors are inputs the design engine cannot work
+// with (missing numbers, loads off the beam, a section with no room for the bars); warnings are inputs
+// outside the scope of the design method or the detailing rules, which the designer should review.
+//
+// Fields of span i + 1 are reported as spans.<i>.<field>, span 1 being the primary span fields of DesignInputs.
+
+import { DesignInputs, SlabSideConfig, ValidationIssue } from '../types';
+import { getSpans, getSupportConditions } from './rccCalculations';
+
+type NumberRule = 'any' | 'positive' | 'nonNegative';
+
+export const validateInputs = (inputs: DesignInputs): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ field, severity: 'error', message });
+  const warning = (field: string, message: string) => issues.push({ field, severity: 'warning', message });
+
+  // True when the value is a number allowed by the rule, otherwise reports it
+  const checkNumber = (field: string, label: string, value: unknown, rule: NumberRule = 'any'): value is number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      error(field, `${label} must be a number`);
+      return false;
+    }
+    if (rule === 'positive' && value <= 0) {
+      error(field, `${label} must be greater than 0`);
+      return false;
+    }
+    if (rule === 'nonNegative' && value < 0) {
+      error(field, `${label} must not be negative`);
+      return false;
+    }
+    return true;
+  };
+
+  // Section and cover
+  const width = checkNumber('beamWidth', 'Beam width', inputs.beamWidth, 'positive');
+  const depth = checkNumber('beamDepth', 'Beam depth', inputs.beamDepth, 'positive');
+  const cover = checkNumber('clearCover', 'Clear cover', inputs.clearCover, 'positive');
+  const effectiveCover = checkNumber('effectiveCover', 'Assumed effective cover', inputs.effectiveCover, 'positive');
+  checkNumber('supportWidth', 'Support width', inputs.supportWidth, 'nonNegative');
+  checkNumber('crackWidthLimit', 'Crack width limit', inputs.crackWidthLimit, 'positive');
+  const bars = [
+    checkNumber('mainBarDia', 'Main bar diameter', inputs.mainBarDia, 'positive'),
+    checkNumber('topBarDia', 'Top bar diameter', inputs.topBarDia, 'positive'),
+    checkNumber('stirrupBarDia', 'Stirrup diameter', inputs.stirrupBarDia, 'positive'),
+  ].every(Boolean);
+  checkNumber('fck', 'Concrete grade', inputs.fck, 'positive');
+  checkNumber('fy', 'Steel grade', inputs.fy, 'positive');
+
+  if (cover && bars) {
+    const { beamWidth: b, beamDepth: D, clearCover: c, mainBarDia, topBarDia, stirrupBarDia } = inputs;
+    if (depth && 2 * (c + stirrupBarDia) + mainBarDia + topBarDia >= D) {
+      error('clearCover', `Clear cover ${c} mm leaves no room for the bars in the ${D} mm depth`);
+    } else if (width && 2 * (c + stirrupBarDia + mainBarDia) > b) {
+      error('clearCover', `Clear cover ${c} mm leaves no room for two ${mainBarDia} mm bars in the ${b} mm width`);
+    }
+    if (c < 20) warning('clearCover', 'Clear cover is less than 20 mm, the least nominal cover (IS 456 Table 16)');
+    if (c + stirrupBarDia < mainBarDia) {
+      warning('clearCover', `Cover to the main bars is less than the bar diameter ${mainBarDia} mm (IS 456 Cl 26.4.1)`);
+    }
+    if (depth && effectiveCover) {
+      if (inputs.effectiveCover >= D) {
+        error('effectiveCover', 'Assumed effective cover must be less than the beam depth');
+      } else if (inputs.effectiveCover < c + stirrupBarDia + mainBarDia / 2) {
+        warning('effectiveCover', 'Assumed effective cover is less than the cover to the centre of the main bars');
+      }
+    }
+  }
+  if (width && inputs.beamWidth < 200 && inputs.seismicMoment !== 0) {
+    warning('beamWidth', 'Beams of earthquake resisting frames should be at least 200 mm wide (IS 13920 Cl 6.1.2)');
+  }
+
+  // Slab and general loads
+  const slabs = checkNumber('slabThickness', 'Slab thickness', inputs.slabThickness, 'positive');
+  checkNumber('liveLoad', 'Live load', inputs.liveLoad, 'nonNegative');
+  checkNumber('floorFinish', 'Floor finish', inputs.floorFinish, 'nonNegative');
+  checkNumber('masonryDensity', 'Masonry density', inputs.masonryDensity, 'nonNegative');
+  checkNumber('movingPointLoad', 'Moving point load', inputs.movingPointLoad, 'nonNegative');
+  if (slabs && depth && inputs.designAsFlanged && inputs.slabThickness >= inputs.beamDepth) {
+    error('slabThickness', 'Slab thickness must be less than the beam depth for a flanged beam');
+  }
+
+  const checkSlab = (path: string, label: string, slab: SlabSideConfig) => {
+    if (!slab.enabled) return;
+    const lx = checkNumber(`${path}.lx`, `${label} Lx`, slab.lx, 'positive');
+    if (slab.type !== 'TwoWay') return;
+    const ly = checkNumber(`${path}.ly`, `${label} Ly`, slab.ly, 'positive');
+    if (!lx || !ly) return;
+    if (slab.lx > slab.ly) {
+      error(`${path}.lx`, `${label} Lx is the short span and must not exceed Ly`);
+    } else if (slab.ly / slab.lx > 2) {
+      warning(`${path}.ly`, `${label} spans one way, Ly / Lx is over 2 (IS 456 Cl 24.4)`);
+    }
+  };
+
+  // Spans and the loads on them
+  const spans = getSpans(inputs);
+  const supports = getSupportConditions(inputs);
+  spans.forEach((span, i) => {
+    const path = `spans.${i}`;
+    const named = (label: string) => (spans.length > 1 ? `Span ${i + 1} ${label[0].toLowerCase()}${label.slice(1)}` : label);
+    const spanName = spans.length > 1 ? `Span ${i + 1}` : 'Span';
+    const hasLength = checkNumber(`${path}.length`, `${spanName} length`, span.length, 'positive');
+    const length = hasLength ? span.length : Infinity;
+
+    // Deep beams are outside the flexure and shear design of IS 456 Cl 38 - 40
+    if (hasLength && depth && !supports.includes('Free')) {
+      const limit = spans.length > 1 ? 2.5 : 2;
+      if ((span.length * 1000) / inputs.beamDepth < limit) {
+        warning(`${path}.length`, `${spanName} length / depth is below ${limit}: a deep beam (IS 456 Cl 29), not designed here`);
+      }
+    }
+
+    checkNumber(`${path}.wallHeight`, named('Wall height'), span.wallHeight, 'nonNegative');
+    checkNumber(`${path}.wallThickness`, named('Wall thickness'), span.wallThickness, 'nonNegative');
+    checkSlab(`${path}.leftSlab`, named('Left slab'), span.leftSlab);
+    checkSlab(`${path}.rightSlab`, named('Right slab'), span.rightSlab);
+
+    const onSpan = (field: string, label: string, x: unknown) => {
+      if (checkNumber(field, label, x, 'nonNegative') && x > length) {
+        error(field, `${label} ${x} m is beyond the ${length} m span`);
+      }
+    };
+    span.pointLoads.forEach((pl, j) => {
+      checkNumber(`${path}.pointLoads.${j}.value`, named(`Point load ${j + 1}`), pl.value);
+      onSpan(`${path}.pointLoads.${j}.distance`, named(`Point load ${j + 1} distance`), pl.distance);
+    });
+    span.lineLoads.forEach((ll, j) => {
+      const label = named(`Partial load ${j + 1}`);
+      checkNumber(`${path}.lineLoads.${j}.wStart`, `${label} w1`, ll.wStart);
+      checkNumber(`${path}.lineLoads.${j}.wEnd`, `${label} w2`, ll.wEnd);
+      const before = issues.length;
+      onSpan(`${path}.lineLoads.${j}.start`, `${label} start`, ll.start);
+      onSpan(`${path}.lineLoads.${j}.end`, `${label} end`, ll.end);
+      if (issues.length === before && ll.start >= ll.end) error(`${path}.lineLoads.${j}.end`, `${label} must end after its start`);
+    });
+    span.pointMoments.forEach((pm, j) => {
+      checkNumber(`${path}.pointMoments.${j}.value`, named(`Applied moment ${j + 1}`), pm.value);
+      onSpan(`${path}.pointMoments.${j}.distance`, named(`Applied moment ${j + 1} distance`), pm.distance);
+    });
+  });
+
+  // Torsion
+  checkNumber('torsion.torsionalMoment', 'Torsional moment', inputs.torsion.torsionalMoment);
+  if (inputs.torsion.cantileverSlab.enabled) {
+    checkNumber('torsion.cantileverSlab.projection', 'Cantilever slab projection', inputs.torsion.cantileverSlab.projection, 'positive');
+    checkNumber('torsion.cantileverSlab.thickness', 'Cantilever slab thickness', inputs.torsion.cantileverSlab.thickness, 'positive');
+  }
+
+  // Load combinations and the lateral moments they apply
+  const lateral = [
+    checkNumber('windMoment', 'Wind end moment', inputs.windMoment) && inputs.windMoment !== 0,
+    checkNumber('seismicMoment', 'Seismic end moment', inputs.seismicMoment) && inputs.seismicMoment !== 0,
+  ].some(Boolean);
+  if (inputs.loadCombinations.length === 0) error('loadCombinations', 'At least one load combination is needed');
+  inputs.loadCombinations.forEach((c, k) => {
+    (['dead', 'live', 'lateral'] as const).forEach(factor =>
+      checkNumber(`loadCombinations.${k}.${factor}`, `${c.name || `Combination ${k + 1}`} ${factor} load factor`, c[factor], 'nonNegative'));
+  });
+  if (lateral && !inputs.loadCombinations.some(c => c.lateral > 0)) {
+    warning('loadCombinations', 'The wind / seismic end moments are not applied by any load combination');
+  }
+
+  return issues;
+};
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some(i => i.severity === 'error');
+
+// Issues of an input and of the inputs within it, e.g. spans.1.pointLoads.0 for every field of a point load
+export const getFieldIssues = (issues: ValidationIssue[], field: string) =>
+  issues.filter(i => i.field === field || i.field.startsWith(`${field}.`));
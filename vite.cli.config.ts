@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Node build of the rcc-beam command and the engine entry point (npm run build:cli)
+export default defineConfig({
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        'rcc-beam': 'cli/rcc-beam.ts',
+        engine: 'engine.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+      },
+    },
+  },
+});